@@ -0,0 +1,13 @@
+import { NextResponse } from 'next/server'
+import { requireUser } from '@/lib/auth'
+import { analyzeBaskets } from '@/lib/basketAnalysis'
+import { loadVisitBaskets } from '@/lib/visitStore'
+
+export const dynamic = 'force-dynamic'
+
+export async function GET() {
+  const auth = await requireUser(['VIEW_CUSTOMERS', 'MAKE_CALLS'])
+  if (auth.response) return auth.response
+
+  return NextResponse.json(analyzeBaskets(await loadVisitBaskets()))
+}
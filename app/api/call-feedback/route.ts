@@ -0,0 +1,12 @@
+import { NextResponse } from 'next/server'
+import { requireUser } from '@/lib/auth'
+import { listFeedback } from '@/lib/callStore'
+
+export const dynamic = 'force-dynamic'
+
+export async function GET() {
+  const auth = await requireUser('VIEW_CALL_FEEDBACK')
+  if (auth.response) return auth.response
+
+  return NextResponse.json({ feedback: await listFeedback() })
+}
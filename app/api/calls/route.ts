@@ -0,0 +1,36 @@
+import { NextResponse } from 'next/server'
+import { readJsonBody } from '@/lib/apiRequest'
+import { requireUser } from '@/lib/auth'
+import { CallInputError } from '@/lib/callInput'
+import { listCalls, recordCall } from '@/lib/callStore'
+
+export const dynamic = 'force-dynamic'
+
+export async function GET() {
+  const auth = await requireUser('MAKE_CALLS')
+  if (auth.response) return auth.response
+
+  return NextResponse.json({ calls: await listCalls() })
+}
+
+/**
+ * Record a finished call (`customerId`, `disposition`, `startedAt`, optional
+ * `feedback`) made by the signed-in user
+ */
+export async function POST(request: Request) {
+  const auth = await requireUser('MAKE_CALLS')
+  if (auth.response) return auth.response
+
+  const json = await readJsonBody(request)
+  if (json.response) return json.response
+
+  try {
+    const call = await recordCall(json.body, auth.user)
+    return NextResponse.json({ call }, { status: 201 })
+  } catch (err) {
+    if (err instanceof CallInputError) {
+      return NextResponse.json({ error: err.message }, { status: 400 })
+    }
+    throw err
+  }
+}
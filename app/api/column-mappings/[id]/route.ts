@@ -0,0 +1,22 @@
+import { NextResponse } from 'next/server'
+import { NotFoundError, rejectInvalidId } from '@/lib/apiRequest'
+import { requireUser } from '@/lib/auth'
+import { deleteTemplate } from '@/lib/mappingTemplateStore'
+
+export async function DELETE(_request: Request, { params }: { params: { id: string } }) {
+  const auth = await requireUser('UPLOAD_WORKBOOKS')
+  if (auth.response) return auth.response
+
+  const invalidId = rejectInvalidId(params.id)
+  if (invalidId) return invalidId
+
+  try {
+    await deleteTemplate(params.id)
+  } catch (err) {
+    if (err instanceof NotFoundError) {
+      return NextResponse.json({ error: err.message }, { status: 404 })
+    }
+    throw err
+  }
+  return NextResponse.json({ ok: true })
+}
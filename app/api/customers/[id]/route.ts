@@ -0,0 +1,25 @@
+import { NextResponse } from 'next/server'
+import { requireUser } from '@/lib/auth'
+import { listFeedback } from '@/lib/callStore'
+import { loadDepartmentList } from '@/lib/departmentStore'
+import { loadCustomer, loadLatestUpload } from '@/lib/visitStore'
+
+export const dynamic = 'force-dynamic'
+
+export async function GET(_request: Request, { params }: { params: { id: string } }) {
+  const auth = await requireUser(['VIEW_CUSTOMERS', 'MAKE_CALLS'])
+  if (auth.response) return auth.response
+
+  const customerId = decodeURIComponent(params.id)
+  const customer = await loadCustomer(customerId)
+  if (!customer) {
+    return NextResponse.json({ error: `Customer with ID "${customerId}" not found.` }, { status: 404 })
+  }
+  const latestUpload = await loadLatestUpload()
+  return NextResponse.json({
+    customer,
+    allDepartments: (await loadDepartmentList()).names,
+    feedback: await listFeedback(customer.customerId),
+    fileName: latestUpload?.fileName ?? null,
+  })
+}
@@ -0,0 +1,17 @@
+import { NextResponse } from 'next/server'
+import { requireUser } from '@/lib/auth'
+import { loadCustomerData, loadLatestUpload } from '@/lib/visitStore'
+
+export const dynamic = 'force-dynamic'
+
+export async function GET() {
+  const auth = await requireUser(['VIEW_CUSTOMERS', 'MAKE_CALLS'])
+  if (auth.response) return auth.response
+
+  const data = await loadCustomerData()
+  const latestUpload = await loadLatestUpload()
+  return NextResponse.json({
+    ...data,
+    fileName: latestUpload?.fileName ?? null,
+  })
+}
@@ -0,0 +1,29 @@
+import { NextResponse } from 'next/server'
+import { NotFoundError, readJsonBody, rejectInvalidId } from '@/lib/apiRequest'
+import { requireUser } from '@/lib/auth'
+import { DepartmentInputError, updateDepartment } from '@/lib/departmentStore'
+import { scheduleVisitRebuild } from '@/lib/visitStore'
+
+export async function PATCH(request: Request, { params }: { params: { id: string } }) {
+  const auth = await requireUser('MANAGE_DEPARTMENTS')
+  if (auth.response) return auth.response
+
+  const invalidId = rejectInvalidId(params.id)
+  if (invalidId) return invalidId
+  const json = await readJsonBody(request)
+  if (json.response) return json.response
+
+  try {
+    const department = await updateDepartment(params.id, json.body)
+    scheduleVisitRebuild()
+    return NextResponse.json({ department })
+  } catch (err) {
+    if (err instanceof DepartmentInputError) {
+      return NextResponse.json({ error: err.message }, { status: 400 })
+    }
+    if (err instanceof NotFoundError) {
+      return NextResponse.json({ error: err.message }, { status: 404 })
+    }
+    throw err
+  }
+}
@@ -0,0 +1,33 @@
+import { NextResponse } from 'next/server'
+import { readJsonBody } from '@/lib/apiRequest'
+import { requireUser } from '@/lib/auth'
+import { createDepartment, DepartmentInputError, listDepartments } from '@/lib/departmentStore'
+import { scheduleVisitRebuild } from '@/lib/visitStore'
+
+export const dynamic = 'force-dynamic'
+
+export async function GET() {
+  const auth = await requireUser('MANAGE_DEPARTMENTS')
+  if (auth.response) return auth.response
+
+  return NextResponse.json({ departments: await listDepartments() })
+}
+
+export async function POST(request: Request) {
+  const auth = await requireUser('MANAGE_DEPARTMENTS')
+  if (auth.response) return auth.response
+
+  const json = await readJsonBody(request)
+  if (json.response) return json.response
+
+  try {
+    const department = await createDepartment(json.body)
+    scheduleVisitRebuild()
+    return NextResponse.json({ department }, { status: 201 })
+  } catch (err) {
+    if (err instanceof DepartmentInputError) {
+      return NextResponse.json({ error: err.message }, { status: 400 })
+    }
+    throw err
+  }
+}
@@ -0,0 +1,45 @@
+import { NextResponse } from 'next/server'
+import { readFormData } from '@/lib/apiRequest'
+import { requireUser } from '@/lib/auth'
+import { listTemplates } from '@/lib/mappingTemplateStore'
+import { previewWorkbook } from '@/lib/workbookParser'
+
+/**
+ * Preview rows of the first file, plus the sheets of every selected file
+ */
+export async function POST(request: Request) {
+  const auth = await requireUser('UPLOAD_WORKBOOKS')
+  if (auth.response) return auth.response
+
+  const form = await readFormData(request)
+  if (form.response) return form.response
+
+  const files = form.formData.getAll('file').filter((file): file is File => file instanceof File)
+  if (files.length === 0) {
+    return NextResponse.json({ error: 'No file uploaded.' }, { status: 400 })
+  }
+
+  let previews
+  try {
+    previews = await Promise.all(
+      files.map(async (file) => {
+        try {
+          return previewWorkbook(await file.arrayBuffer())
+        } catch (err) {
+          throw new Error(`${file.name}: ${err instanceof Error ? err.message : 'Failed to read Excel file.'}`)
+        }
+      })
+    )
+  } catch (err) {
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : 'Failed to read Excel file.' },
+      { status: 400 }
+    )
+  }
+
+  return NextResponse.json({
+    ...previews[0],
+    files: previews.map((preview, index) => ({ fileName: files[index].name, sheets: preview.sheets })),
+    templates: await listTemplates(),
+  })
+}
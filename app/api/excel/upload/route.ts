@@ -0,0 +1,119 @@
+import { NextResponse } from 'next/server'
+import { readFormData } from '@/lib/apiRequest'
+import { requireUser } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { loadDepartmentList } from '@/lib/departmentStore'
+import { MappingInputError, parseColumnMapping, saveTemplate } from '@/lib/mappingTemplateStore'
+import { buildImportReport, type ImportIssue } from '@/lib/importReport'
+import { mergeSaleRows, readSaleRows, tagFileName, type ColumnMapping } from '@/lib/workbookParser'
+import { saveSaleRows } from '@/lib/visitStore'
+
+export async function POST(request: Request) {
+  const auth = await requireUser('UPLOAD_WORKBOOKS')
+  if (auth.response) return auth.response
+
+  const form = await readFormData(request)
+  if (form.response) return form.response
+  const { formData } = form
+  const files = formData.getAll('file').filter((file): file is File => file instanceof File)
+  if (files.length === 0) {
+    return NextResponse.json({ error: 'No file uploaded.' }, { status: 400 })
+  }
+
+  // Column mapping chosen in the upload wizard; detected automatically when absent or for sheets it does not fit
+  const mappingField = formData.get('mapping')
+  let mapping: ColumnMapping | undefined
+  if (typeof mappingField === 'string' && mappingField) {
+    try {
+      mapping = parseColumnMapping(JSON.parse(mappingField))
+    } catch (err) {
+      const message = err instanceof MappingInputError ? err.message : 'Invalid column mapping.'
+      return NextResponse.json({ error: message }, { status: 400 })
+    }
+  }
+
+  // Sheets to include, one list per file in upload order; the first sheet when absent
+  const sheetsField = formData.get('sheets')
+  let sheetSelection: string[][] = []
+  if (typeof sheetsField === 'string' && sheetsField) {
+    try {
+      sheetSelection = JSON.parse(sheetsField)
+    } catch {
+      sheetSelection = []
+    }
+    const isValid =
+      Array.isArray(sheetSelection) &&
+      sheetSelection.every((names) => Array.isArray(names) && names.every((name) => typeof name === 'string'))
+    if (!isValid) {
+      return NextResponse.json({ error: 'Invalid sheet selection.' }, { status: 400 })
+    }
+  }
+
+  const departments = await loadDepartmentList()
+  let parsed
+  try {
+    const results = []
+    for (const [index, file] of Array.from(files.entries())) {
+      try {
+        results.push(tagFileName(readSaleRows(await file.arrayBuffer(), departments, mapping, sheetSelection[index]), file.name))
+      } catch (err) {
+        if (files.length === 1 || !(err instanceof Error)) throw err
+        throw new Error(`${file.name}: ${err.message}`)
+      }
+    }
+    parsed = mergeSaleRows(results)
+  } catch (err) {
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : 'Failed to parse Excel file.' },
+      { status: 400 }
+    )
+  }
+
+  const { rows, totalRowsProcessed, rowsSkippedSalesType, rowsDuplicate, uniqueSubCategories } = parsed
+  if (rows.length === 0 && totalRowsProcessed > 0) {
+    return NextResponse.json(
+      {
+        report: buildImportReport(totalRowsProcessed, parsed.issues),
+        error:
+          `No valid data found. ` +
+          `Processed ${totalRowsProcessed} rows. ` +
+          `Skipped ${rowsSkippedSalesType} rows (not Sale, Return or Replacement) and ${rowsDuplicate} duplicate rows. ` +
+          `Please check: 1) Sales Type = "Sale" (if column exists), 2) Item Group Name column has values, 3) Salesman Name and Mobile1 columns exist`,
+      },
+      { status: 400 }
+    )
+  }
+
+  const templateName = formData.get('templateName')
+  if (mapping && typeof templateName === 'string' && templateName.trim()) {
+    await saveTemplate(templateName, mapping, auth.user.id)
+  }
+
+  const summary = await saveSaleRows(rows)
+  const unmatchedReturns: ImportIssue[] = summary.unmatchedReturns
+    .filter((row) => row.source)
+    .map((row) => ({ ...row.source!, reason: 'UNMATCHED_RETURN' }))
+  const report = buildImportReport(totalRowsProcessed, [...parsed.issues, ...unmatchedReturns])
+
+  const upload = await prisma.workbookUpload.create({
+    data: {
+      fileName: files.map((file) => file.name).join(', '),
+      rowsRead: totalRowsProcessed,
+      rowsImported: summary.rowsImported,
+      rowsSkipped: report.rowsSkipped,
+      customersCount: summary.customersCount,
+      visitsCount: summary.visitsCount,
+      report,
+    },
+    select: { id: true, fileName: true, rowsRead: true, rowsImported: true, rowsSkipped: true, uploadedAt: true },
+  })
+
+  return NextResponse.json({
+    upload,
+    report,
+    rowsSkippedSalesType,
+    rowsDuplicate,
+    returnsMatched: summary.returnsMatched,
+    uniqueSubCategories,
+  })
+}
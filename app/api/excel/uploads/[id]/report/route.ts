@@ -0,0 +1,34 @@
+import { NextResponse } from 'next/server'
+import { rejectInvalidId } from '@/lib/apiRequest'
+import { requireUser } from '@/lib/auth'
+import { buildImportReportWorkbook, type ImportReport } from '@/lib/importReport'
+import { prisma } from '@/lib/prisma'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * Import report of an upload as an Excel workbook
+ */
+export async function GET(_request: Request, { params }: { params: { id: string } }) {
+  const auth = await requireUser('UPLOAD_WORKBOOKS')
+  if (auth.response) return auth.response
+
+  const invalidId = rejectInvalidId(params.id)
+  if (invalidId) return invalidId
+
+  const upload = await prisma.workbookUpload.findUnique({
+    where: { id: params.id },
+    select: { uploadedAt: true, report: true },
+  })
+  if (!upload?.report) {
+    return NextResponse.json({ error: 'Import report not found.' }, { status: 404 })
+  }
+
+  const fileName = `import-report-${upload.uploadedAt.toISOString().slice(0, 10)}.xlsx`
+  return new NextResponse(buildImportReportWorkbook(upload.report as ImportReport), {
+    headers: {
+      'Content-Type': 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+      'Content-Disposition': `attachment; filename="${fileName}"`,
+    },
+  })
+}
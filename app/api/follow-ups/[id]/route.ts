@@ -0,0 +1,30 @@
+import { NextResponse } from 'next/server'
+import { NotFoundError, readJsonBody, rejectInvalidId } from '@/lib/apiRequest'
+import { requireUser } from '@/lib/auth'
+import { FollowUpInputError, listPendingFollowUps, updateFollowUp } from '@/lib/followUpStore'
+
+/**
+ * Snooze (`action: 'snooze'`, `until`), complete or dismiss one of the signed-in telecaller's follow-ups
+ */
+export async function PATCH(request: Request, { params }: { params: { id: string } }) {
+  const auth = await requireUser('MAKE_CALLS')
+  if (auth.response) return auth.response
+
+  const invalidId = rejectInvalidId(params.id)
+  if (invalidId) return invalidId
+  const json = await readJsonBody(request)
+  if (json.response) return json.response
+
+  try {
+    await updateFollowUp(params.id, json.body, auth.user)
+  } catch (err) {
+    if (err instanceof FollowUpInputError) {
+      return NextResponse.json({ error: err.message }, { status: 400 })
+    }
+    if (err instanceof NotFoundError) {
+      return NextResponse.json({ error: err.message }, { status: 404 })
+    }
+    throw err
+  }
+  return NextResponse.json({ followUps: await listPendingFollowUps(auth.user.id) })
+}
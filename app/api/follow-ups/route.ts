@@ -0,0 +1,15 @@
+import { NextResponse } from 'next/server'
+import { requireUser } from '@/lib/auth'
+import { listPendingFollowUps } from '@/lib/followUpStore'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * Pending follow-ups of the signed-in telecaller
+ */
+export async function GET() {
+  const auth = await requireUser('MAKE_CALLS')
+  if (auth.response) return auth.response
+
+  return NextResponse.json({ followUps: await listPendingFollowUps(auth.user.id) })
+}
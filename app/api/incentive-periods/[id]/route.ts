@@ -0,0 +1,33 @@
+import { NextResponse } from 'next/server'
+import { NotFoundError, readJsonBody, rejectInvalidId } from '@/lib/apiRequest'
+import { requireUser } from '@/lib/auth'
+import { advancePeriod, listPeriods, PeriodConflictError, PeriodInputError } from '@/lib/periodStore'
+
+/**
+ * Approve a locked period or mark an approved one as paid (`status`)
+ */
+export async function PATCH(request: Request, { params }: { params: { id: string } }) {
+  const auth = await requireUser('MANAGE_INCENTIVE_PERIODS')
+  if (auth.response) return auth.response
+
+  const invalidId = rejectInvalidId(params.id)
+  if (invalidId) return invalidId
+  const json = await readJsonBody(request)
+  if (json.response) return json.response
+
+  try {
+    await advancePeriod(params.id, json.body.status, auth.user)
+  } catch (err) {
+    if (err instanceof PeriodInputError) {
+      return NextResponse.json({ error: err.message }, { status: 400 })
+    }
+    if (err instanceof NotFoundError) {
+      return NextResponse.json({ error: err.message }, { status: 404 })
+    }
+    if (err instanceof PeriodConflictError) {
+      return NextResponse.json({ error: err.message }, { status: 409 })
+    }
+    throw err
+  }
+  return NextResponse.json({ periods: await listPeriods() })
+}
@@ -0,0 +1,37 @@
+import { NextResponse } from 'next/server'
+import { readJsonBody } from '@/lib/apiRequest'
+import { requireUser } from '@/lib/auth'
+import { listPeriods, loadSplitDay, lockPeriod, PeriodConflictError, PeriodInputError } from '@/lib/periodStore'
+
+export const dynamic = 'force-dynamic'
+
+export async function GET() {
+  const auth = await requireUser('MANAGE_INCENTIVE_PERIODS')
+  if (auth.response) return auth.response
+
+  return NextResponse.json({ periods: await listPeriods(), splitDay: await loadSplitDay() })
+}
+
+/**
+ * Lock a date range (`from`, `to`) or pay period (`month`, `half`) at the current payouts, with an optional `label`
+ */
+export async function POST(request: Request) {
+  const auth = await requireUser('MANAGE_INCENTIVE_PERIODS')
+  if (auth.response) return auth.response
+
+  const json = await readJsonBody(request)
+  if (json.response) return json.response
+
+  try {
+    await lockPeriod(json.body, auth.user)
+  } catch (err) {
+    if (err instanceof PeriodInputError) {
+      return NextResponse.json({ error: err.message }, { status: 400 })
+    }
+    if (err instanceof PeriodConflictError) {
+      return NextResponse.json({ error: err.message }, { status: 409 })
+    }
+    throw err
+  }
+  return NextResponse.json({ periods: await listPeriods() }, { status: 201 })
+}
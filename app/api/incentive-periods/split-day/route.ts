@@ -0,0 +1,24 @@
+import { NextResponse } from 'next/server'
+import { readJsonBody } from '@/lib/apiRequest'
+import { requireUser } from '@/lib/auth'
+import { PeriodInputError, saveSplitDay } from '@/lib/periodStore'
+
+/**
+ * Set the day the first pay period of every month ends on (`splitDay`)
+ */
+export async function PUT(request: Request) {
+  const auth = await requireUser('MANAGE_INCENTIVE_PERIODS')
+  if (auth.response) return auth.response
+
+  const json = await readJsonBody(request)
+  if (json.response) return json.response
+
+  try {
+    return NextResponse.json({ splitDay: await saveSplitDay(json.body.splitDay, auth.user) })
+  } catch (err) {
+    if (err instanceof PeriodInputError) {
+      return NextResponse.json({ error: err.message }, { status: 400 })
+    }
+    throw err
+  }
+}
@@ -0,0 +1,58 @@
+import { NextResponse } from 'next/server'
+import { NotFoundError, readJsonBody, rejectInvalidId } from '@/lib/apiRequest'
+import { requireUser } from '@/lib/auth'
+import { deleteScheme, findScheme, SchemeInputError, updateScheme } from '@/lib/schemeStore'
+import { scheduleVisitRebuild } from '@/lib/visitStore'
+
+export async function PUT(request: Request, { params }: { params: { id: string } }) {
+  const auth = await requireUser('MANAGE_INCENTIVE_SCHEMES')
+  if (auth.response) return auth.response
+
+  const invalidId = rejectInvalidId(params.id)
+  if (invalidId) return invalidId
+  const json = await readJsonBody(request)
+  if (json.response) return json.response
+
+  const previous = await findScheme(params.id)
+  if (!previous) {
+    return NextResponse.json({ error: 'Incentive scheme not found.' }, { status: 404 })
+  }
+
+  try {
+    const scheme = await updateScheme(params.id, json.body)
+    // Visits from the earlier of the old and new effective dates may change scheme
+    scheduleVisitRebuild([previous.effectiveFrom, scheme.effectiveFrom].sort()[0])
+    return NextResponse.json({ scheme })
+  } catch (err) {
+    if (err instanceof SchemeInputError) {
+      return NextResponse.json({ error: err.message }, { status: 400 })
+    }
+    if (err instanceof NotFoundError) {
+      return NextResponse.json({ error: err.message }, { status: 404 })
+    }
+    throw err
+  }
+}
+
+export async function DELETE(_request: Request, { params }: { params: { id: string } }) {
+  const auth = await requireUser('MANAGE_INCENTIVE_SCHEMES')
+  if (auth.response) return auth.response
+
+  const invalidId = rejectInvalidId(params.id)
+  if (invalidId) return invalidId
+
+  const scheme = await findScheme(params.id)
+  if (!scheme) {
+    return NextResponse.json({ error: 'Incentive scheme not found.' }, { status: 404 })
+  }
+  try {
+    await deleteScheme(params.id)
+  } catch (err) {
+    if (err instanceof NotFoundError) {
+      return NextResponse.json({ error: err.message }, { status: 404 })
+    }
+    throw err
+  }
+  scheduleVisitRebuild(scheme.effectiveFrom)
+  return NextResponse.json({ ok: true })
+}
@@ -0,0 +1,35 @@
+import { NextResponse } from 'next/server'
+import { readJsonBody } from '@/lib/apiRequest'
+import { requireUser } from '@/lib/auth'
+import { DEFAULT_INCENTIVE_SCHEME } from '@/lib/incentiveSchemes'
+import { createScheme, listSchemes, SchemeInputError } from '@/lib/schemeStore'
+import { scheduleVisitRebuild } from '@/lib/visitStore'
+
+export const dynamic = 'force-dynamic'
+
+export async function GET() {
+  const auth = await requireUser('MANAGE_INCENTIVE_SCHEMES')
+  if (auth.response) return auth.response
+
+  const schemes = await listSchemes()
+  return NextResponse.json({ schemes, defaultScheme: DEFAULT_INCENTIVE_SCHEME })
+}
+
+export async function POST(request: Request) {
+  const auth = await requireUser('MANAGE_INCENTIVE_SCHEMES')
+  if (auth.response) return auth.response
+
+  const json = await readJsonBody(request)
+  if (json.response) return json.response
+
+  try {
+    const scheme = await createScheme(json.body, auth.user.id)
+    scheduleVisitRebuild(scheme.effectiveFrom)
+    return NextResponse.json({ scheme }, { status: 201 })
+  } catch (err) {
+    if (err instanceof SchemeInputError) {
+      return NextResponse.json({ error: err.message }, { status: 400 })
+    }
+    throw err
+  }
+}
@@ -0,0 +1,41 @@
+import { NextResponse } from 'next/server'
+import { requireUser } from '@/lib/auth'
+import { buildIncentiveMetrics } from '@/lib/incentiveParser'
+import { applyLockedPeriods } from '@/lib/incentivePeriods'
+import { hasPermission } from '@/lib/permissions'
+import { loadLockedPeriods, loadSplitDay } from '@/lib/periodStore'
+import { prisma } from '@/lib/prisma'
+import { listSchemes } from '@/lib/schemeStore'
+import { loadLatestUpload, loadSaleRows } from '@/lib/visitStore'
+import { normalizeKey } from '@/lib/workbookParser'
+
+export const dynamic = 'force-dynamic'
+
+export async function GET() {
+  const auth = await requireUser(['VIEW_INCENTIVES', 'VIEW_OWN_INCENTIVE'])
+  if (auth.response) return auth.response
+
+  const rows = await loadSaleRows()
+  const latestUpload = await loadLatestUpload()
+  // Locked periods keep paying their snapshot; later changes arrive as adjustments
+  const lockedPeriods = await loadLockedPeriods()
+  const incentives = applyLockedPeriods(buildIncentiveMetrics(rows, await listSchemes()), lockedPeriods)
+
+  // Salespeople only see the metric for the workbook name linked to their login
+  if (!hasPermission(auth.user.role, 'VIEW_INCENTIVES')) {
+    const account = await prisma.user.findUnique({
+      where: { id: auth.user.id },
+      select: { salespersonName: true },
+    })
+    // An unlinked login sees nothing rather than whoever shares its display name
+    const ownKey = normalizeKey(account?.salespersonName ?? null)
+    incentives.metrics = ownKey ? incentives.metrics.filter((metric) => normalizeKey(metric.name) === ownKey) : []
+  }
+
+  return NextResponse.json({
+    ...incentives,
+    fileName: latestUpload?.fileName ?? null,
+    lockedPeriods: lockedPeriods.map(({ id, label, from, to, status }) => ({ id, label, from, to, status })),
+    splitDay: await loadSplitDay(),
+  })
+}
@@ -0,0 +1,59 @@
+import { NextResponse } from 'next/server'
+import { readJsonBody } from '@/lib/apiRequest'
+import { requireUser } from '@/lib/auth'
+import { DepartmentInputError, listDepartments } from '@/lib/departmentStore'
+import {
+  ignoreItemGroup,
+  ItemGroupInputError,
+  listUnmappedItemGroups,
+  mapItemGroup,
+  restoreItemGroup,
+} from '@/lib/itemGroupStore'
+import { reclassifyUnmappedItemGroups } from '@/lib/visitStore'
+
+export const dynamic = 'force-dynamic'
+
+export async function GET() {
+  const auth = await requireUser('MANAGE_DEPARTMENTS')
+  if (auth.response) return auth.response
+
+  const departments = await listDepartments()
+  return NextResponse.json({
+    itemGroups: await listUnmappedItemGroups(),
+    departments: departments
+      .filter((department) => department.isActive)
+      .map((department) => ({ id: department.id, name: department.name })),
+  })
+}
+
+/**
+ * Triage one item group: map it to a department (`departmentId`), ignore it
+ * (`ignored: true`) or bring it back (`ignored: false`). Stored visits are re-priced.
+ */
+export async function PATCH(request: Request) {
+  const auth = await requireUser('MANAGE_DEPARTMENTS')
+  if (auth.response) return auth.response
+
+  const json = await readJsonBody(request)
+  if (json.response) return json.response
+  const body = json.body
+  try {
+    if (body.departmentId !== undefined) {
+      await mapItemGroup(body.itemGroup, body.departmentId)
+    } else if (body.ignored === true) {
+      await ignoreItemGroup(body.itemGroup, auth.user.id)
+    } else if (body.ignored === false) {
+      await restoreItemGroup(body.itemGroup)
+    } else {
+      return NextResponse.json({ error: 'Choose a department or ignore the item group.' }, { status: 400 })
+    }
+  } catch (err) {
+    if (err instanceof ItemGroupInputError || err instanceof DepartmentInputError) {
+      return NextResponse.json({ error: err.message }, { status: 400 })
+    }
+    throw err
+  }
+
+  await reclassifyUnmappedItemGroups()
+  return NextResponse.json({ itemGroups: await listUnmappedItemGroups() })
+}
@@ -0,0 +1,27 @@
+import { NextResponse } from 'next/server'
+import { NotFoundError, readJsonBody, rejectInvalidId } from '@/lib/apiRequest'
+import { requireUser } from '@/lib/auth'
+import { resetPassword, UserInputError } from '@/lib/userStore'
+
+export async function POST(request: Request, { params }: { params: { id: string } }) {
+  const auth = await requireUser('MANAGE_USERS')
+  if (auth.response) return auth.response
+
+  const invalidId = rejectInvalidId(params.id)
+  if (invalidId) return invalidId
+  const json = await readJsonBody(request)
+  if (json.response) return json.response
+
+  try {
+    await resetPassword(params.id, json.body.password)
+    return NextResponse.json({ ok: true })
+  } catch (err) {
+    if (err instanceof UserInputError) {
+      return NextResponse.json({ error: err.message }, { status: 400 })
+    }
+    if (err instanceof NotFoundError) {
+      return NextResponse.json({ error: err.message }, { status: 404 })
+    }
+    throw err
+  }
+}
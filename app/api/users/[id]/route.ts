@@ -0,0 +1,39 @@
+import { NextResponse } from 'next/server'
+import { NotFoundError, readJsonBody, rejectInvalidId } from '@/lib/apiRequest'
+import { requireUser } from '@/lib/auth'
+import { reassignFollowUps } from '@/lib/followUpStore'
+import { hasPermission } from '@/lib/permissions'
+import { updateUser, UserInputError } from '@/lib/userStore'
+
+export async function PATCH(request: Request, { params }: { params: { id: string } }) {
+  const auth = await requireUser('MANAGE_USERS')
+  if (auth.response) return auth.response
+
+  const invalidId = rejectInvalidId(params.id)
+  if (invalidId) return invalidId
+  const json = await readJsonBody(request)
+  if (json.response) return json.response
+  const input = json.body
+
+  // Stop admins from locking themselves out
+  if (params.id === auth.user.id && (input.isActive === false || (input.role && input.role !== auth.user.role))) {
+    return NextResponse.json({ error: 'You cannot deactivate your own account or change your own role.' }, { status: 400 })
+  }
+
+  try {
+    const user = await updateUser(params.id, input)
+    // Pending follow-ups move to another caller once this user cannot make calls
+    const reassignedFollowUps = user.isActive && hasPermission(user.role, 'MAKE_CALLS')
+      ? 0
+      : await reassignFollowUps(user.id)
+    return NextResponse.json({ user, reassignedFollowUps })
+  } catch (err) {
+    if (err instanceof UserInputError) {
+      return NextResponse.json({ error: err.message }, { status: 400 })
+    }
+    if (err instanceof NotFoundError) {
+      return NextResponse.json({ error: err.message }, { status: 404 })
+    }
+    throw err
+  }
+}
@@ -0,0 +1,33 @@
+import { NextResponse } from 'next/server'
+import { readJsonBody } from '@/lib/apiRequest'
+import { requireUser } from '@/lib/auth'
+import { createUser, listSalespersonNames, listUsers, UserInputError } from '@/lib/userStore'
+
+export const dynamic = 'force-dynamic'
+
+export async function GET() {
+  const auth = await requireUser('MANAGE_USERS')
+  if (auth.response) return auth.response
+
+  const users = await listUsers()
+  const salespersonNames = await listSalespersonNames()
+  return NextResponse.json({ users, salespersonNames })
+}
+
+export async function POST(request: Request) {
+  const auth = await requireUser('MANAGE_USERS')
+  if (auth.response) return auth.response
+
+  const json = await readJsonBody(request)
+  if (json.response) return json.response
+
+  try {
+    const user = await createUser(json.body)
+    return NextResponse.json({ user }, { status: 201 })
+  } catch (err) {
+    if (err instanceof UserInputError) {
+      return NextResponse.json({ error: err.message }, { status: 400 })
+    }
+    throw err
+  }
+}
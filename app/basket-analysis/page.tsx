@@ -0,0 +1,237 @@
+'use client'
+
+import { useState, useEffect, useMemo } from 'react'
+import type { BasketAnalysis } from '@/lib/basketAnalysis'
+
+const inputClassName = 'px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-sm text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500'
+const headerCellClassName = 'px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-gray-500 dark:text-gray-400'
+const cellClassName = 'px-6 py-4 whitespace-nowrap text-sm text-gray-900 dark:text-white'
+
+const MIN_VISIT_OPTIONS = [1, 3, 5, 10, 25]
+
+const readError = async (response: Response, fallback: string) => {
+  const data = await response.json().catch(() => null)
+  return data?.error ?? fallback
+}
+
+const formatRate = (value: number) => `${(value * 100).toFixed(1)}%`
+const formatLift = (value: number) => value.toFixed(2)
+
+function LiftBadge({ lift }: { lift: number }) {
+  const className = lift > 1.2
+    ? 'bg-green-100 dark:bg-green-900/30 text-green-700 dark:text-green-300'
+    : lift < 0.8
+      ? 'bg-red-100 dark:bg-red-900/30 text-red-700 dark:text-red-300'
+      : 'bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300'
+  return <span className={`inline-flex px-2 py-0.5 rounded-full text-xs font-medium ${className}`}>{formatLift(lift)}</span>
+}
+
+export default function BasketAnalysisPage() {
+  const [analysis, setAnalysis] = useState<BasketAnalysis | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [minVisits, setMinVisits] = useState(3)
+  const [pitchFrom, setPitchFrom] = useState('')
+
+  useEffect(() => {
+    fetch('/api/basket-analysis')
+      .then(async (response) => {
+        if (!response.ok) {
+          throw new Error(await readError(response, 'Failed to load basket analysis.'))
+        }
+        setAnalysis(await response.json())
+      })
+      .catch((err) => {
+        console.error(err)
+        setError(err instanceof Error ? err.message : 'Failed to load basket analysis.')
+      })
+      .finally(() => setIsLoading(false))
+  }, [])
+
+  const departments = useMemo(
+    () => analysis
+      ? Object.entries(analysis.departmentVisits).sort(([, a], [, b]) => b - a).map(([department]) => department)
+      : [],
+    [analysis]
+  )
+
+  const pairs = useMemo(() => analysis?.pairs.filter((pair) => pair.visits >= minVisits) ?? [], [analysis, minVisits])
+  const triples = useMemo(() => analysis?.triples.filter((triple) => triple.visits >= minVisits) ?? [], [analysis, minVisits])
+  const pitchRules = useMemo(
+    () => analysis?.rules.filter((rule) => rule.from === pitchFrom && rule.visits >= minVisits && rule.lift > 1) ?? [],
+    [analysis, pitchFrom, minVisits]
+  )
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-gray-50 to-gray-100 dark:from-gray-900 dark:to-gray-800">
+      <header className="bg-white dark:bg-gray-800 shadow-sm border-b border-gray-200 dark:border-gray-700">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-4">
+          <h1 className="text-2xl font-bold text-gray-900 dark:text-white">Basket Analysis</h1>
+          <p className="text-sm text-gray-600 dark:text-gray-300">
+            Departments customers buy from together. Use the pitch guide to suggest a department a customer has not visited yet.
+          </p>
+        </div>
+      </header>
+
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {error && (
+          <div className="mb-6 p-4 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-700 rounded-lg">
+            <p className="text-sm text-red-600 dark:text-red-400">{error}</p>
+          </div>
+        )}
+
+        {isLoading ? (
+          <div className="bg-white dark:bg-gray-800 rounded-lg shadow border border-gray-200 dark:border-gray-700 p-8 text-center">
+            <p className="text-sm text-gray-600 dark:text-gray-400">Loading basket analysis...</p>
+          </div>
+        ) : analysis && analysis.pairs.length === 0 ? (
+          <div className="bg-white dark:bg-gray-800 rounded-lg shadow border border-gray-200 dark:border-gray-700 p-8 text-center">
+            <p className="text-sm text-gray-600 dark:text-gray-400">
+              No visit covers more than one department yet. Upload sales workbooks to build the analysis.
+            </p>
+          </div>
+        ) : analysis && (
+          <>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-6">
+              <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-6 border border-gray-200 dark:border-gray-700">
+                <p className="text-sm font-medium text-gray-600 dark:text-gray-400">Visits Analysed</p>
+                <p className="text-3xl font-bold text-gray-900 dark:text-white mt-2">{analysis.totalVisits}</p>
+              </div>
+              <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-6 border border-gray-200 dark:border-gray-700">
+                <p className="text-sm font-medium text-gray-600 dark:text-gray-400">Department Pairs</p>
+                <p className="text-3xl font-bold text-gray-900 dark:text-white mt-2">{pairs.length}</p>
+              </div>
+              <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-6 border border-gray-200 dark:border-gray-700">
+                <p className="text-sm font-medium text-gray-600 dark:text-gray-400">Department Triples</p>
+                <p className="text-3xl font-bold text-gray-900 dark:text-white mt-2">{triples.length}</p>
+              </div>
+            </div>
+
+            <div className="bg-white dark:bg-gray-800 rounded-lg shadow border border-gray-200 dark:border-gray-700 mb-6 p-6 flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
+              <p className="text-sm text-gray-600 dark:text-gray-400">
+                Support is the share of all visits with the combination. Confidence of A → B is the share of A visits that include B.
+                Lift above 1 means the departments go together more often than chance.
+              </p>
+              <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300 whitespace-nowrap">
+                Seen in at least
+                <select value={minVisits} onChange={(e) => setMinVisits(Number(e.target.value))} className={inputClassName}>
+                  {MIN_VISIT_OPTIONS.map((option) => (
+                    <option key={option} value={option}>{option} {option === 1 ? 'visit' : 'visits'}</option>
+                  ))}
+                </select>
+              </label>
+            </div>
+
+            <div className="bg-white dark:bg-gray-800 rounded-lg shadow border border-gray-200 dark:border-gray-700 mb-6">
+              <div className="p-6 border-b border-gray-200 dark:border-gray-700 flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
+                <div>
+                  <h2 className="text-lg font-semibold text-gray-900 dark:text-white">Pitch Guide</h2>
+                  <p className="text-sm text-gray-600 dark:text-gray-400">
+                    Customers who bought from a department usually also visit these.
+                  </p>
+                </div>
+                <select value={pitchFrom} onChange={(e) => setPitchFrom(e.target.value)} className={`${inputClassName} capitalize`}>
+                  <option value="">Choose a department</option>
+                  {departments.map((department) => (
+                    <option key={department} value={department}>{department}</option>
+                  ))}
+                </select>
+              </div>
+              {!pitchFrom ? (
+                <p className="p-6 text-sm text-gray-500 dark:text-gray-400">Pick the department a customer already buys from.</p>
+              ) : pitchRules.length === 0 ? (
+                <p className="p-6 text-sm text-gray-500 dark:text-gray-400">
+                  No department is bought with <span className="capitalize">{pitchFrom}</span> more often than chance.
+                </p>
+              ) : (
+                <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+                  {pitchRules.map((rule) => (
+                    <li key={rule.to} className="px-6 py-4 flex items-center justify-between gap-4">
+                      <p className="text-sm text-gray-900 dark:text-white">
+                        <span className="font-semibold">{formatRate(rule.confidence)}</span> of{' '}
+                        <span className="capitalize">{rule.from}</span> customers also visit{' '}
+                        <span className="font-semibold capitalize">{rule.to}</span>
+                      </p>
+                      <div className="flex items-center gap-3 text-xs text-gray-500 dark:text-gray-400 whitespace-nowrap">
+                        <span>{rule.visits} visits</span>
+                        <LiftBadge lift={rule.lift} />
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+
+            <div className="bg-white dark:bg-gray-800 rounded-lg shadow border border-gray-200 dark:border-gray-700 mb-6">
+              <div className="p-6 border-b border-gray-200 dark:border-gray-700">
+                <h2 className="text-lg font-semibold text-gray-900 dark:text-white">Department Pairs</h2>
+              </div>
+              {pairs.length === 0 ? (
+                <p className="p-6 text-sm text-gray-500 dark:text-gray-400">No pair reaches the minimum visit count.</p>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
+                    <thead className="bg-gray-50 dark:bg-gray-900/40">
+                      <tr>
+                        <th className={headerCellClassName}>Departments</th>
+                        <th className={headerCellClassName}>Visits</th>
+                        <th className={headerCellClassName}>Support</th>
+                        <th className={headerCellClassName}>Confidence A → B</th>
+                        <th className={headerCellClassName}>Confidence B → A</th>
+                        <th className={headerCellClassName}>Lift</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                      {pairs.map((pair) => (
+                        <tr key={pair.departments.join('|')}>
+                          <td className={`${cellClassName} font-medium capitalize`}>{pair.departments.join(' + ')}</td>
+                          <td className={cellClassName}>{pair.visits}</td>
+                          <td className={cellClassName}>{formatRate(pair.support)}</td>
+                          <td className={cellClassName}>{formatRate(pair.confidence[0])}</td>
+                          <td className={cellClassName}>{formatRate(pair.confidence[1])}</td>
+                          <td className={cellClassName}><LiftBadge lift={pair.lift} /></td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </div>
+
+            <div className="bg-white dark:bg-gray-800 rounded-lg shadow border border-gray-200 dark:border-gray-700">
+              <div className="p-6 border-b border-gray-200 dark:border-gray-700">
+                <h2 className="text-lg font-semibold text-gray-900 dark:text-white">Department Triples</h2>
+              </div>
+              {triples.length === 0 ? (
+                <p className="p-6 text-sm text-gray-500 dark:text-gray-400">No triple reaches the minimum visit count.</p>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
+                    <thead className="bg-gray-50 dark:bg-gray-900/40">
+                      <tr>
+                        <th className={headerCellClassName}>Departments</th>
+                        <th className={headerCellClassName}>Visits</th>
+                        <th className={headerCellClassName}>Support</th>
+                        <th className={headerCellClassName}>Lift</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                      {triples.map((triple) => (
+                        <tr key={triple.departments.join('|')}>
+                          <td className={`${cellClassName} font-medium capitalize`}>{triple.departments.join(' + ')}</td>
+                          <td className={cellClassName}>{triple.visits}</td>
+                          <td className={cellClassName}>{formatRate(triple.support)}</td>
+                          <td className={cellClassName}><LiftBadge lift={triple.lift} /></td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </div>
+          </>
+        )}
+      </main>
+    </div>
+  )
+}
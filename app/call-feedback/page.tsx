@@ -0,0 +1,153 @@
+'use client'
+
+import { useState, useEffect, useMemo } from 'react'
+import Link from 'next/link'
+import FeedbackAnswers from '@/components/FeedbackAnswers'
+import { CALL_DISPOSITIONS, DISPOSITIONS, type CallDisposition } from '@/lib/callDispositions'
+import { CALL_OUTCOME_LABELS, type CallFeedbackRecord } from '@/lib/callFeedback'
+import { formatDisplayDate } from '@/lib/workbookParser'
+
+const inputClassName = 'px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-sm text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500'
+const headerCellClassName = 'px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-gray-500 dark:text-gray-400'
+
+const readError = async (response: Response, fallback: string) => {
+  const data = await response.json().catch(() => null)
+  return data?.error ?? fallback
+}
+
+const formatTimestamp = (iso: string) =>
+  new Date(iso).toLocaleString('en-IN', { dateStyle: 'medium', timeStyle: 'short' })
+
+export default function CallFeedbackPage() {
+  const [feedback, setFeedback] = useState<CallFeedbackRecord[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [search, setSearch] = useState('')
+  const [disposition, setDisposition] = useState<CallDisposition | ''>('')
+  const [telecaller, setTelecaller] = useState('')
+
+  useEffect(() => {
+    fetch('/api/call-feedback')
+      .then(async (response) => {
+        if (!response.ok) {
+          throw new Error(await readError(response, 'Failed to load call feedback.'))
+        }
+        const data = await response.json()
+        setFeedback(data.feedback)
+      })
+      .catch((err) => {
+        console.error(err)
+        setError(err instanceof Error ? err.message : 'Failed to load call feedback.')
+      })
+      .finally(() => setIsLoading(false))
+  }, [])
+
+  const telecallers = useMemo(
+    () => Array.from(new Set(feedback.map((entry) => entry.submittedByName))).sort(),
+    [feedback]
+  )
+
+  const filtered = useMemo(() => {
+    const query = search.trim().toLowerCase()
+    return feedback.filter((entry) =>
+      (!disposition || entry.disposition === disposition) &&
+      (!telecaller || entry.submittedByName === telecaller) &&
+      (!query ||
+        entry.customerId.toLowerCase().includes(query) ||
+        (entry.customerName ?? '').toLowerCase().includes(query))
+    )
+  }, [feedback, search, disposition, telecaller])
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-gray-50 to-gray-100 dark:from-gray-900 dark:to-gray-800">
+      <header className="bg-white dark:bg-gray-800 shadow-sm border-b border-gray-200 dark:border-gray-700">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-4">
+          <h1 className="text-2xl font-bold text-gray-900 dark:text-white">Call Feedback</h1>
+          <p className="text-sm text-gray-600 dark:text-gray-300">
+            Feedback telecallers recorded on their calls, newest first.
+          </p>
+        </div>
+      </header>
+
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {error && (
+          <div className="mb-6 p-4 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-700 rounded-lg">
+            <p className="text-sm text-red-600 dark:text-red-400">{error}</p>
+          </div>
+        )}
+
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow border border-gray-200 dark:border-gray-700">
+          <div className="p-6 border-b border-gray-200 dark:border-gray-700 flex flex-col gap-3 md:flex-row md:items-center md:justify-between">
+            <input
+              type="search"
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              placeholder="Search customer ID or name"
+              className={`${inputClassName} md:w-72`}
+            />
+            <div className="flex flex-col gap-3 sm:flex-row">
+              <select value={disposition} onChange={(e) => setDisposition(e.target.value as CallDisposition | '')} className={inputClassName}>
+                <option value="">All dispositions</option>
+                {CALL_DISPOSITIONS.map((key) => (
+                  <option key={key} value={key}>{DISPOSITIONS[key].label}</option>
+                ))}
+              </select>
+              <select value={telecaller} onChange={(e) => setTelecaller(e.target.value)} className={inputClassName}>
+                <option value="">All telecallers</option>
+                {telecallers.map((name) => (
+                  <option key={name} value={name}>{name}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          {isLoading ? (
+            <p className="p-6 text-sm text-gray-600 dark:text-gray-400">Loading call feedback...</p>
+          ) : filtered.length === 0 ? (
+            <p className="p-6 text-sm text-gray-500 dark:text-gray-400">
+              {feedback.length === 0 ? 'No feedback has been recorded yet.' : 'No feedback matches the filters.'}
+            </p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
+                <thead className="bg-gray-50 dark:bg-gray-900/40">
+                  <tr>
+                    <th className={headerCellClassName}>Recorded</th>
+                    <th className={headerCellClassName}>Customer</th>
+                    <th className={headerCellClassName}>Telecaller</th>
+                    <th className={headerCellClassName}>Disposition</th>
+                    <th className={headerCellClassName}>Feedback</th>
+                    <th className={headerCellClassName}>Follow-up</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                  {filtered.map((entry) => (
+                    <tr key={entry.id} className="align-top">
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600 dark:text-gray-400">{formatTimestamp(entry.createdAt)}</td>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <Link
+                          href={`/customers/${encodeURIComponent(entry.customerId)}`}
+                          className="text-sm font-medium text-blue-600 dark:text-blue-400 hover:underline"
+                        >
+                          {entry.customerId}
+                        </Link>
+                        {entry.customerName && <p className="text-xs text-gray-500 dark:text-gray-400">{entry.customerName}</p>}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900 dark:text-white">{entry.submittedByName}</td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900 dark:text-white">{entry.disposition ? DISPOSITIONS[entry.disposition].label : CALL_OUTCOME_LABELS[entry.outcome]}</td>
+                      <td className="px-6 py-4 min-w-[18rem]"><FeedbackAnswers feedback={entry} /></td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900 dark:text-white">
+                        {entry.followUpDate ? formatDisplayDate(entry.followUpDate) : '—'}
+                        {entry.followUpReason && <p className="text-xs text-gray-500 dark:text-gray-400">{entry.followUpReason}</p>}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      </main>
+    </div>
+  )
+}
@@ -2,120 +2,147 @@
 
 import { useState, Suspense, useEffect } from 'react'
 import { useSearchParams, useRouter } from 'next/navigation'
-import { useCallHistory } from '@/contexts/CallHistoryContext'
-import { useExcelData } from '@/contexts/ExcelDataContext'
-import { parseCustomerData } from '@/lib/customerParser'
-
-const CALL_STATUS_OPTIONS = [
-    'CALL BACK',
-    'Connected',
-    'Not Connected',
-    'Ringing',
-    'busy',
-    'Wrong Number'
-] as const
-
-const RATING_OPTIONS = [
-    'very poor',
-    'poor',
-    'average',
-    'good',
-    'excellent'
-] as const
-
-type CallStatus = typeof CALL_STATUS_OPTIONS[number]
-type Rating = typeof RATING_OPTIONS[number]
+import { describeRecommendation, recommendDepartments, type DepartmentRecommendation } from '@/lib/basketAnalysis'
+import { CALL_DISPOSITIONS, DISPOSITIONS, type CallDisposition } from '@/lib/callDispositions'
+import {
+    CAPTURED_MOODS,
+    CUSTOMER_MOOD_LABELS,
+    FEEDBACK_QUESTIONS,
+    MAX_FOLLOW_UP_REASON_LENGTH,
+    RATING_LABELS,
+    type CustomerMood
+} from '@/lib/callFeedback'
+import { businessToday } from '@/lib/followUps'
+import { NON_VISIT_REASONS, NON_VISIT_REASON_LABELS, type NonVisitReasonKey } from '@/lib/nonVisitReasons'
+
+type NonVisitAnswer = {
+    reason: NonVisitReasonKey | ''
+    reasonDetails: string
+    salespersonMentioned: boolean
+}
 
 function FeedbackForm() {
     const searchParams = useSearchParams()
     const router = useRouter()
     const customerId = searchParams.get('customerId')
-    const { excelBuffer } = useExcelData()
     const [customerName, setCustomerName] = useState<string | null>(null)
+    const [pitchSuggestions, setPitchSuggestions] = useState<DepartmentRecommendation[]>([])
+    const [skippedDepartments, setSkippedDepartments] = useState<string[]>([])
+    const [nonVisitAnswers, setNonVisitAnswers] = useState<Record<string, NonVisitAnswer>>({})
 
-    // Fetch customer name from Excel data
+    // Fetch customer name from stored customer data
     useEffect(() => {
-        if (excelBuffer && customerId) {
-            try {
-                const parsed = parseCustomerData(excelBuffer)
-                const customer = parsed.customers.find(c => c.customerId === customerId)
-                if (customer) {
-                    setCustomerName(customer.customerName)
-                }
-            } catch (err) {
-                console.error('Failed to parse customer data:', err)
-            }
+        if (customerId) {
+            fetch(`/api/customers/${encodeURIComponent(customerId)}`)
+                .then(async (response) => {
+                    if (!response.ok) return
+                    const data = await response.json()
+                    setCustomerName(data.customer.customerName)
+
+                    // Departments skipped on the latest visit are asked about, and pitched from what was bought
+                    const latestVisit = data.customer.visits[0]
+                    setSkippedDepartments(latestVisit?.departmentsNotVisited ?? [])
+                    if (!latestVisit || latestVisit.departmentsNotVisited.length === 0) return
+                    const analysisResponse = await fetch('/api/basket-analysis')
+                    if (!analysisResponse.ok) return
+                    setPitchSuggestions(recommendDepartments(
+                        await analysisResponse.json(),
+                        latestVisit.departmentsVisited,
+                        latestVisit.departmentsNotVisited
+                    ))
+                })
+                .catch((err) => {
+                    console.error('Failed to load customer data:', err)
+                })
         }
-    }, [excelBuffer, customerId])
+    }, [customerId])
 
     const [form, setForm] = useState({
-        callStatus: 'CALL BACK' as CallStatus,
-        rating: null as Rating | null,
+        disposition: 'CALL_BACK' as CallDisposition,
+        customerMood: null as CustomerMood | null,
+        rating: null as number | null,
         likedStore: null as boolean | null,
         staffHelpful: null as boolean | null,
         satisfiedService: null as boolean | null,
         revisitStore: null as boolean | null,
         crossSellAsked: null as boolean | null,
-        improvementneeded: null as boolean | null,
+        improvementNeeded: null as boolean | null,
         improvementComments: '',
         requiresFollowUp: true, // Default to true for CALL BACK
         followUpDate: '',
+        followUpReason: '',
     })
 
-    // Auto-update Follow Up requirement based on status
+    // Auto-update Follow Up requirement based on the disposition
     useEffect(() => {
-        const status = form.callStatus
-        if (['Ringing', 'busy', 'CALL BACK', 'Not Connected'].includes(status)) {
-            setForm(prev => ({ ...prev, requiresFollowUp: true }))
-        } else if (status === 'Wrong Number') {
-            setForm(prev => ({ ...prev, requiresFollowUp: false }))
-        } else if (status === 'Connected') {
-            setForm(prev => ({ ...prev, requiresFollowUp: false }))
-        }
-    }, [form.callStatus])
+        setForm(prev => ({ ...prev, requiresFollowUp: DISPOSITIONS[form.disposition].requiresFollowUp }))
+    }, [form.disposition])
+
+    const setNonVisitAnswer = (department: string, answer: Partial<NonVisitAnswer>) => {
+        setNonVisitAnswers(prev => ({
+            ...prev,
+            [department]: { ...(prev[department] ?? { reason: '', reasonDetails: '', salespersonMentioned: false }), ...answer }
+        }))
+    }
 
-    const { addCompletedCall } = useCallHistory()
     const [startTime] = useState(new Date().toISOString())
+    const [isSubmitting, setIsSubmitting] = useState(false)
+    const [submitError, setSubmitError] = useState<string | null>(null)
 
-    const handleSubmit = (e: React.FormEvent) => {
+    const handleSubmit = async (e: React.FormEvent) => {
         e.preventDefault()
-
-        const endTime = new Date().toISOString()
-        const start = new Date(startTime)
-        const end = new Date(endTime)
-        const diffMs = end.getTime() - start.getTime()
-        const minutes = Math.floor(diffMs / 60000)
-        const seconds = Math.floor((diffMs % 60000) / 1000)
-        const duration = `${minutes}m ${seconds}s`
-
-        // Derive final values for submission
-        const finalOutcome = form.revisitStore === true ? 'Interested' : 'Not Interested'
-        const isCrossSell = form.crossSellAsked === true ? 'Yes' : 'No'
-
-        // Save to context
-        if (customerId) {
-            addCompletedCall({
-                customerId,
-                customerName,
-                startTime,
-                endTime,
-                duration,
-                status: form.callStatus
+        if (!customerId) return
+
+        setIsSubmitting(true)
+        setSubmitError(null)
+        try {
+            const response = await fetch('/api/calls', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                // Answers given before switching away from Connected are dropped by the server
+                body: JSON.stringify({
+                    customerId,
+                    disposition: form.disposition,
+                    startedAt: startTime,
+                    feedback: {
+                        customerMood: form.customerMood ?? 'UNKNOWN',
+                        rating: form.rating,
+                        likedStore: form.likedStore,
+                        staffHelpful: form.staffHelpful,
+                        satisfiedService: form.satisfiedService,
+                        revisitStore: form.revisitStore,
+                        crossSellAsked: form.crossSellAsked,
+                        improvementNeeded: form.improvementNeeded,
+                        improvementComments: form.improvementComments,
+                        requiresFollowUp: form.requiresFollowUp,
+                        followUpDate: form.requiresFollowUp ? form.followUpDate : null,
+                        followUpReason: form.requiresFollowUp ? form.followUpReason : null,
+                        // Departments left on "Not discussed" are not sent
+                        nonVisitedReasons: skippedDepartments
+                            .filter(department => nonVisitAnswers[department]?.reason)
+                            .map(department => ({
+                                department,
+                                reason: nonVisitAnswers[department].reason,
+                                reasonDetails: nonVisitAnswers[department].reasonDetails,
+                                salespersonMentioned: nonVisitAnswers[department].reason === 'not_informed_by_salesperson'
+                                    ? false
+                                    : nonVisitAnswers[department].salespersonMentioned
+                            }))
+                    }
+                })
             })
-        }
+            if (!response.ok) {
+                const data = await response.json().catch(() => null)
+                throw new Error(data?.error ?? 'Failed to save the call.')
+            }
 
-        const submissionData = {
-            ...form,
-            finalOutcome,
-            isCrossSell,
-            startTime,
-            endTime,
-            duration
+            alert('Feedback submitted successfully!')
+            router.push('/calling')
+        } catch (err) {
+            setSubmitError(err instanceof Error ? err.message : 'Failed to save the call.')
+        } finally {
+            setIsSubmitting(false)
         }
-
-        console.log('Form submitted:', submissionData)
-        alert('Feedback submitted successfully!')
-        router.push('/calling')
     }
 
     if (!customerId) {
@@ -134,7 +161,7 @@ function FeedbackForm() {
         )
     }
 
-    const isConnected = form.callStatus === 'Connected'
+    const isConnected = DISPOSITIONS[form.disposition].connected
 
     // Derived Values for Display
     const derivedFinalOutcome = form.revisitStore === true ? 'Interested' : (form.revisitStore === false ? 'Not Interested' : '-')
@@ -199,6 +226,22 @@ function FeedbackForm() {
                     </h2>
                 </div>
 
+                {pitchSuggestions.length > 0 && (
+                    <div className="px-6 pt-6">
+                        <div className="bg-blue-50 dark:bg-blue-900/10 p-4 rounded-xl border border-blue-100 dark:border-blue-900/20">
+                            <h3 className="text-sm font-bold text-blue-900 dark:text-blue-100 mb-2 uppercase tracking-wider">Departments to Pitch</h3>
+                            <ul className="space-y-1">
+                                {pitchSuggestions.slice(0, 3).map((suggestion) => (
+                                    <li key={suggestion.department} className="text-sm text-blue-800 dark:text-blue-200">
+                                        <span className="font-semibold capitalize">{suggestion.department}</span>
+                                        <span className="text-blue-600 dark:text-blue-300"> · {describeRecommendation(suggestion)}</span>
+                                    </li>
+                                ))}
+                            </ul>
+                        </div>
+                    </div>
+                )}
+
                 <form onSubmit={handleSubmit} className="p-6 space-y-6">
                     {/* Call Status */}
                     <section>
@@ -207,13 +250,13 @@ function FeedbackForm() {
                         </label>
                         <div className="relative">
                             <select
-                                value={form.callStatus}
-                                onChange={(e) => setForm({ ...form, callStatus: e.target.value as CallStatus })}
+                                value={form.disposition}
+                                onChange={(e) => setForm({ ...form, disposition: e.target.value as CallDisposition })}
                                 className="w-full p-3 pr-10 rounded-xl border border-gray-200 dark:border-gray-700 dark:bg-gray-900 dark:text-white appearance-none focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none transition-all font-medium"
                             >
-                                {CALL_STATUS_OPTIONS.map((status) => (
-                                    <option key={status} value={status}>
-                                        {status}
+                                {CALL_DISPOSITIONS.map((disposition) => (
+                                    <option key={disposition} value={disposition}>
+                                        {DISPOSITIONS[disposition].label}
                                     </option>
                                 ))}
                             </select>
@@ -230,35 +273,14 @@ function FeedbackForm() {
                         <div className="space-y-4 animate-in fade-in slide-in-from-top-4 duration-300">
                             <div className="h-px bg-gray-100 dark:bg-gray-700 my-6"></div>
 
-                            <YesNoQuestion
-                                label="1. Did you like our store & collection?"
-                                value={form.likedStore}
-                                onChange={(val) => setForm({ ...form, likedStore: val })}
-                            />
-
-                            <YesNoQuestion
-                                label="2. Was our staff helpful, polite & knowledgeable?"
-                                value={form.staffHelpful}
-                                onChange={(val) => setForm({ ...form, staffHelpful: val })}
-                            />
-
-                            <YesNoQuestion
-                                label="3. Are you satisfied with the service you received?"
-                                value={form.satisfiedService}
-                                onChange={(val) => setForm({ ...form, satisfiedService: val })}
-                            />
-
-                            <YesNoQuestion
-                                label="4. Would you like to revisit our store?"
-                                value={form.revisitStore}
-                                onChange={(val) => setForm({ ...form, revisitStore: val })}
-                            />
-
-                            <YesNoQuestion
-                                label="5. Did our salesman ask about women's / men's collection?"
-                                value={form.crossSellAsked}
-                                onChange={(val) => setForm({ ...form, crossSellAsked: val })}
-                            />
+                            {FEEDBACK_QUESTIONS.filter(({ key }) => key !== 'improvementNeeded').map(({ key, label }, index) => (
+                                <YesNoQuestion
+                                    key={key}
+                                    label={`${index + 1}. ${label}`}
+                                    value={form[key]}
+                                    onChange={(val) => setForm({ ...form, [key]: val })}
+                                />
+                            ))}
 
                             <div className="bg-gray-50 dark:bg-gray-900/50 p-4 rounded-xl border border-gray-100 dark:border-gray-700">
                                 <label className="block text-sm font-semibold text-gray-900 dark:text-gray-100 mb-3">
@@ -267,8 +289,8 @@ function FeedbackForm() {
                                 <div className="flex gap-4 mb-3">
                                     <button
                                         type="button"
-                                        onClick={() => setForm({ ...form, improvementneeded: true })}
-                                        className={`flex-1 py-2 px-4 rounded-lg text-sm font-medium transition-all ${form.improvementneeded === true
+                                        onClick={() => setForm({ ...form, improvementNeeded: true })}
+                                        className={`flex-1 py-2 px-4 rounded-lg text-sm font-medium transition-all ${form.improvementNeeded === true
                                             ? 'bg-blue-600 text-white shadow-md shadow-blue-500/20'
                                             : 'bg-white dark:bg-gray-800 text-gray-700 dark:text-gray-300 border border-gray-200 dark:border-gray-600 hover:bg-gray-50 dark:hover:bg-gray-700'
                                             }`}
@@ -277,8 +299,8 @@ function FeedbackForm() {
                                     </button>
                                     <button
                                         type="button"
-                                        onClick={() => setForm({ ...form, improvementneeded: false, improvementComments: '' })}
-                                        className={`flex-1 py-2 px-4 rounded-lg text-sm font-medium transition-all ${form.improvementneeded === false
+                                        onClick={() => setForm({ ...form, improvementNeeded: false, improvementComments: '' })}
+                                        className={`flex-1 py-2 px-4 rounded-lg text-sm font-medium transition-all ${form.improvementNeeded === false
                                             ? 'bg-gray-600 text-white shadow-md shadow-gray-500/20'
                                             : 'bg-white dark:bg-gray-800 text-gray-700 dark:text-gray-300 border border-gray-200 dark:border-gray-600 hover:bg-gray-50 dark:hover:bg-gray-700'
                                             }`}
@@ -287,7 +309,7 @@ function FeedbackForm() {
                                     </button>
                                 </div>
 
-                                {form.improvementneeded && (
+                                {form.improvementNeeded && (
                                     <div className="animate-in fade-in slide-in-from-top-2 duration-200">
                                         <textarea
                                             placeholder="Please specify..."
@@ -299,29 +321,103 @@ function FeedbackForm() {
                                 )}
                             </div>
 
+                            {skippedDepartments.length > 0 && (
+                                <div className="bg-gray-50 dark:bg-gray-900/50 p-4 rounded-xl border border-gray-100 dark:border-gray-700">
+                                    <label className="block text-sm font-semibold text-gray-900 dark:text-gray-100 mb-1">
+                                        7. Why didn&apos;t you visit these departments last time?
+                                    </label>
+                                    <p className="text-xs text-gray-500 dark:text-gray-400 mb-3">
+                                        Departments skipped on the latest visit. Leave the ones you did not discuss as they are.
+                                    </p>
+                                    <div className="space-y-3">
+                                        {skippedDepartments.map((department) => {
+                                            const answer = nonVisitAnswers[department]
+                                            return (
+                                                <div key={department} className="bg-white dark:bg-gray-800 p-3 rounded-lg border border-gray-200 dark:border-gray-600">
+                                                    <div className="flex flex-col sm:flex-row sm:items-center gap-2">
+                                                        <span className="flex-1 text-sm font-medium text-gray-900 dark:text-white capitalize">{department}</span>
+                                                        <select
+                                                            value={answer?.reason ?? ''}
+                                                            onChange={(e) => setNonVisitAnswer(department, { reason: e.target.value as NonVisitReasonKey | '' })}
+                                                            className="p-2 rounded-lg border border-gray-200 dark:border-gray-700 dark:bg-gray-900 dark:text-white text-sm focus:ring-2 focus:ring-blue-500 outline-none"
+                                                        >
+                                                            <option value="">Not discussed</option>
+                                                            {NON_VISIT_REASONS.map((reason) => (
+                                                                <option key={reason} value={reason}>{NON_VISIT_REASON_LABELS[reason]}</option>
+                                                            ))}
+                                                        </select>
+                                                    </div>
+                                                    {answer?.reason && (
+                                                        <div className="mt-3 space-y-2 animate-in fade-in slide-in-from-top-2 duration-200">
+                                                            <input
+                                                                type="text"
+                                                                placeholder={answer.reason === 'other' ? 'Please specify...' : 'Details (optional)'}
+                                                                className="w-full p-2 rounded-lg border border-gray-200 dark:border-gray-700 dark:bg-gray-900 dark:text-white text-sm focus:ring-2 focus:ring-blue-500 outline-none"
+                                                                value={answer.reasonDetails}
+                                                                onChange={(e) => setNonVisitAnswer(department, { reasonDetails: e.target.value })}
+                                                            />
+                                                            {answer.reason !== 'not_informed_by_salesperson' && (
+                                                                <label className="flex items-center gap-2 text-xs text-gray-600 dark:text-gray-400 cursor-pointer">
+                                                                    <input
+                                                                        type="checkbox"
+                                                                        className="w-4 h-4 text-blue-600 rounded bg-gray-100 border-gray-300 focus:ring-blue-500"
+                                                                        checked={answer.salespersonMentioned}
+                                                                        onChange={(e) => setNonVisitAnswer(department, { salespersonMentioned: e.target.checked })}
+                                                                    />
+                                                                    The salesperson mentioned this department
+                                                                </label>
+                                                            )}
+                                                        </div>
+                                                    )}
+                                                </div>
+                                            )
+                                        })}
+                                    </div>
+                                </div>
+                            )}
+
                             {/* Rating Field */}
                             <div className="bg-gray-50 dark:bg-gray-900/50 p-4 rounded-xl border border-gray-100 dark:border-gray-700 mt-4">
                                 <label className="block text-sm font-semibold text-gray-900 dark:text-gray-100 mb-3">
                                     Client Rating
                                 </label>
-                                <div className="relative">
-                                    <select
-                                        value={form.rating || ''}
-                                        onChange={(e) => setForm({ ...form, rating: e.target.value as Rating })}
-                                        className="w-full p-3 pr-10 rounded-lg border border-gray-200 dark:border-gray-700 dark:bg-gray-800 dark:text-white appearance-none focus:ring-2 focus:ring-blue-500 outline-none transition-all font-medium capitalize"
-                                    >
-                                        <option value="" disabled>Select Rating</option>
-                                        {RATING_OPTIONS.map((rate) => (
-                                            <option key={rate} value={rate}>
-                                                {rate}
-                                            </option>
-                                        ))}
-                                    </select>
-                                    <div className="absolute inset-y-0 right-0 flex items-center px-3 pointer-events-none text-gray-500">
-                                        <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
-                                        </svg>
-                                    </div>
+                                <div className="grid grid-cols-5 gap-2">
+                                    {RATING_LABELS.map((label, index) => (
+                                        <button
+                                            key={label}
+                                            type="button"
+                                            onClick={() => setForm({ ...form, rating: index + 1 })}
+                                            className={`py-2 px-1 rounded-lg text-xs font-medium transition-all ${form.rating === index + 1
+                                                ? 'bg-blue-600 text-white shadow-md shadow-blue-500/20'
+                                                : 'bg-white dark:bg-gray-800 text-gray-700 dark:text-gray-300 border border-gray-200 dark:border-gray-600 hover:bg-gray-50 dark:hover:bg-gray-700'
+                                                }`}
+                                        >
+                                            <span className="block text-base font-bold">{index + 1}</span>
+                                            {label}
+                                        </button>
+                                    ))}
+                                </div>
+                            </div>
+
+                            {/* Mood Field */}
+                            <div className="bg-gray-50 dark:bg-gray-900/50 p-4 rounded-xl border border-gray-100 dark:border-gray-700">
+                                <label className="block text-sm font-semibold text-gray-900 dark:text-gray-100 mb-3">
+                                    Customer Mood
+                                </label>
+                                <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+                                    {CAPTURED_MOODS.map((mood) => (
+                                        <button
+                                            key={mood}
+                                            type="button"
+                                            onClick={() => setForm({ ...form, customerMood: mood })}
+                                            className={`py-2 px-4 rounded-lg text-sm font-medium transition-all ${form.customerMood === mood
+                                                ? 'bg-blue-600 text-white shadow-md shadow-blue-500/20'
+                                                : 'bg-white dark:bg-gray-800 text-gray-700 dark:text-gray-300 border border-gray-200 dark:border-gray-600 hover:bg-gray-50 dark:hover:bg-gray-700'
+                                                }`}
+                                        >
+                                            {CUSTOMER_MOOD_LABELS[mood]}
+                                        </button>
+                                    ))}
                                 </div>
                             </div>
                         </div>
@@ -346,10 +442,23 @@ function FeedbackForm() {
                                 </label>
                                 <input
                                     type="date"
+                                    min={businessToday()}
                                     className="w-full p-3 rounded-lg border border-gray-200 dark:border-gray-700 dark:bg-gray-800 dark:text-white outline-none focus:ring-2 focus:ring-blue-500"
                                     value={form.followUpDate}
                                     onChange={(e) => setForm({ ...form, followUpDate: e.target.value })}
                                 />
+                                <label className="block text-xs font-semibold text-gray-500 dark:text-gray-400 mt-4 mb-1">
+                                    REASON
+                                </label>
+                                <input
+                                    type="text"
+                                    required
+                                    maxLength={MAX_FOLLOW_UP_REASON_LENGTH}
+                                    placeholder="e.g. Wants to see the new arrivals first"
+                                    className="w-full p-3 rounded-lg border border-gray-200 dark:border-gray-700 dark:bg-gray-800 dark:text-white outline-none focus:ring-2 focus:ring-blue-500"
+                                    value={form.followUpReason}
+                                    onChange={(e) => setForm({ ...form, followUpReason: e.target.value })}
+                                />
                             </div>
                         )}
                     </div>
@@ -378,13 +487,20 @@ function FeedbackForm() {
                         </div>
                     )}
 
+                    {submitError && (
+                        <div className="p-4 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-xl text-sm text-red-700 dark:text-red-300">
+                            {submitError}
+                        </div>
+                    )}
+
                     {/* Actions */}
                     <div className="pt-6 flex gap-3 border-t border-gray-100 dark:border-gray-700 mt-6">
                         <button
                             type="submit"
-                            className="flex-1 py-3 bg-blue-600 hover:bg-blue-700 text-white font-bold rounded-xl shadow-lg shadow-blue-500/30 transition-all hover:scale-[1.02] active:scale-[0.98]"
+                            disabled={isSubmitting}
+                            className="flex-1 py-3 bg-blue-600 hover:bg-blue-700 text-white font-bold rounded-xl shadow-lg shadow-blue-500/30 transition-all hover:scale-[1.02] active:scale-[0.98] disabled:opacity-60 disabled:hover:scale-100"
                         >
-                            Save Feedback
+                            {isSubmitting ? 'Saving...' : 'Save Feedback'}
                         </button>
                         <button
                             type="button"
@@ -2,51 +2,92 @@
 
 import { useState, useEffect, useMemo } from 'react'
 import { useRouter } from 'next/navigation'
-import { parseCustomerData, type CustomerData } from '@/lib/customerParser'
-import { useExcelData } from '@/contexts/ExcelDataContext'
-import { useCallHistory } from '@/contexts/CallHistoryContext'
+import type { CustomerData } from '@/lib/customerParser'
+import { recommendDepartments, type BasketAnalysis } from '@/lib/basketAnalysis'
+import { DISPOSITIONS } from '@/lib/callDispositions'
+import { CALL_STATUS_LABELS, CONNECTED_CALL_STATUSES, formatCallDuration, type CallRecord } from '@/lib/calls'
+import { businessToday, followUpUrgency, type FollowUpReminderRecord } from '@/lib/followUps'
+import FollowUpQueue from '@/components/FollowUpQueue'
 
 export default function CallingPage() {
   const router = useRouter()
-  const { excelBuffer } = useExcelData()
-  const { completedCalls, isCustomerCalled } = useCallHistory()
   const [customerData, setCustomerData] = useState<{ customers: CustomerData[], allDepartments: string[] } | null>(null)
-  const [isParsing, setIsParsing] = useState(false)
+  const [isParsing, setIsParsing] = useState(true)
   const [error, setError] = useState<string | null>(null)
-  const [activeTab, setActiveTab] = useState<'pending' | 'completed'>('pending')
+  const [activeTab, setActiveTab] = useState<'pending' | 'completed' | 'followUps'>('pending')
+  const [basketAnalysis, setBasketAnalysis] = useState<BasketAnalysis | null>(null)
+  const [completedCalls, setCompletedCalls] = useState<CallRecord[]>([])
+  const [followUps, setFollowUps] = useState<FollowUpReminderRecord[]>([])
 
   useEffect(() => {
-    if (excelBuffer) {
-      setIsParsing(true)
-      setError(null)
-
-      try {
-        const parsed = parseCustomerData(excelBuffer)
+    fetch('/api/customers')
+      .then(async (response) => {
+        if (!response.ok) {
+          throw new Error('Failed to load customer data.')
+        }
+        const data = await response.json()
         setCustomerData({
-          customers: parsed.customers,
-          allDepartments: parsed.allDepartments,
+          customers: data.customers,
+          allDepartments: data.allDepartments,
         })
-      } catch (err) {
+      })
+      .catch((err) => {
         console.error(err)
         setCustomerData(null)
-        setError(err instanceof Error ? err.message : 'Failed to parse Excel file.')
-      } finally {
-        setIsParsing(false)
-      }
-    } else {
-      setCustomerData(null)
-      setError(null)
-    }
-  }, [excelBuffer])
+        setError(err instanceof Error ? err.message : 'Failed to load customer data.')
+      })
+      .finally(() => setIsParsing(false))
+
+    fetch('/api/calls')
+      .then(async (response) => {
+        if (!response.ok) {
+          throw new Error('Failed to load call history.')
+        }
+        const data = await response.json()
+        setCompletedCalls(data.calls)
+      })
+      .catch((err) => {
+        console.error(err)
+        setError(err instanceof Error ? err.message : 'Failed to load call history.')
+      })
+
+    fetch('/api/follow-ups')
+      .then(async (response) => {
+        if (!response.ok) {
+          throw new Error('Failed to load follow-ups.')
+        }
+        const data = await response.json()
+        setFollowUps(data.followUps)
+      })
+      .catch((err) => {
+        console.error(err)
+        setError(err instanceof Error ? err.message : 'Failed to load follow-ups.')
+      })
+
+    // Pitch suggestions are optional; the call list works without them
+    fetch('/api/basket-analysis')
+      .then((response) => (response.ok ? response.json() : null))
+      .then(setBasketAnalysis)
+      .catch((err) => console.error(err))
+  }, [])
 
   const sortedCustomers = useMemo(() => {
     if (!customerData) return []
     return [...customerData.customers].sort((a, b) => b.totalVisits - a.totalVisits)
   }, [customerData])
 
+  // Customers anyone has called already
+  const calledCustomerIds = useMemo(() => new Set(completedCalls.map((call) => call.customerId)), [completedCalls])
+
   const pendingCustomers = useMemo(() => {
-    return sortedCustomers.filter(c => !isCustomerCalled(c.customerId))
-  }, [sortedCustomers, isCustomerCalled])
+    return sortedCustomers.filter(c => !calledCustomerIds.has(c.customerId))
+  }, [sortedCustomers, calledCustomerIds])
+
+  // Overdue and due-today reminders of the signed-in telecaller
+  const dueFollowUpCount = useMemo(() => {
+    const today = businessToday()
+    return followUps.filter((followUp) => followUpUrgency(followUp.reminderDate, today) !== 'upcoming').length
+  }, [followUps])
 
   const handleCallClick = (customerId: string) => {
     // Navigate to feedback page with customer ID
@@ -91,13 +132,22 @@ export default function CallingPage() {
               >
                 Completed Calls ({completedCalls.length})
               </button>
+              <button
+                onClick={() => setActiveTab('followUps')}
+                className={`px-4 py-2 text-sm font-medium rounded-lg transition-all ${activeTab === 'followUps'
+                  ? 'bg-white dark:bg-gray-600 text-blue-600 dark:text-blue-300 shadow-sm'
+                  : 'text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-200'
+                  }`}
+              >
+                My Follow-ups ({dueFollowUpCount} due)
+              </button>
             </div>
           </div>
         </div>
       </header>
 
       <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 transition-opacity duration-300 ease-in-out">
-        {!excelBuffer && (
+        {!isParsing && !error && customerData?.customers.length === 0 && (
           <div className="bg-white dark:bg-gray-800 rounded-lg shadow border border-gray-200 dark:border-gray-700 p-8">
             <div className="text-center">
               <svg
@@ -138,7 +188,11 @@ export default function CallingPage() {
         {/* Tab Content */}
         {customerData && !isParsing && (
           <div>
-            {activeTab === 'pending' ? (
+            {activeTab === 'followUps' ? (
+              <div className="animate-in fade-in duration-300">
+                <FollowUpQueue followUps={followUps} onUpdate={setFollowUps} onCall={handleCallClick} />
+              </div>
+            ) : activeTab === 'pending' ? (
               <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6 animate-in slide-in-from-left-4 fade-in duration-300">
                 {pendingCustomers.length === 0 ? (
                   <div className="col-span-full flex flex-col items-center justify-center py-12 text-gray-500">
@@ -152,6 +206,9 @@ export default function CallingPage() {
                   pendingCustomers.map((customer) => {
                     const avgDepts = getAverageDepartmentsVisited(customer)
                     const latestVisit = customer.visits[0]
+                    const pitch = basketAnalysis && latestVisit
+                      ? recommendDepartments(basketAnalysis, latestVisit.departmentsVisited, latestVisit.departmentsNotVisited)[0]
+                      : undefined
                     return (
                       <div
                         key={customer.customerId}
@@ -200,6 +257,14 @@ export default function CallingPage() {
                                 {latestVisit?.displayDate || 'N/A'}
                               </span>
                             </div>
+                            {pitch && (
+                              <div className="flex justify-between gap-2 text-xs" title={`${Math.round(pitch.confidence * 100)}% of ${pitch.basedOn} customers also visit ${pitch.department}`}>
+                                <span className="text-gray-500 dark:text-gray-400">Pitch</span>
+                                <span className="font-medium text-blue-600 dark:text-blue-400 capitalize truncate">
+                                  {pitch.department} <span className="text-gray-500 dark:text-gray-400 normal-case">via {pitch.basedOn}</span>
+                                </span>
+                              </div>
+                            )}
                           </div>
                         </div>
                       </div>
@@ -218,9 +283,9 @@ export default function CallingPage() {
                     <p className="text-sm">Start calling from adding the pending tab!</p>
                   </div>
                 ) : (
-                  completedCalls.map((call, idx) => (
+                  completedCalls.map((call) => (
                     <div
-                      key={idx}
+                      key={call.id}
                       className="bg-white dark:bg-gray-800 rounded-xl shadow-sm border border-gray-200 dark:border-gray-700 overflow-hidden"
                     >
                       <div className="p-5">
@@ -236,15 +301,15 @@ export default function CallingPage() {
                             )}
                             <div className="flex items-center gap-2 mt-2">
                               <span
-                                className={`px-2 py-1 rounded-md text-[10px] uppercase font-bold tracking-wider border ${call.status === 'Connected'
+                                className={`px-2 py-1 rounded-md text-[10px] uppercase font-bold tracking-wider border ${(call.disposition ? DISPOSITIONS[call.disposition].connected : CONNECTED_CALL_STATUSES.includes(call.status))
                                   ? 'bg-green-50 text-green-700 border-green-200'
                                   : 'bg-red-50 text-red-700 border-red-200'
                                   }`}
                               >
-                                {call.status}
+                                {call.disposition ? DISPOSITIONS[call.disposition].label : CALL_STATUS_LABELS[call.status]}
                               </span>
                               <span className="text-xs text-gray-500 dark:text-gray-400">
-                                Duration: <span className="font-semibold text-gray-700 dark:text-gray-200">{call.duration}</span>
+                                Duration: <span className="font-semibold text-gray-700 dark:text-gray-200">{formatCallDuration(call.duration)}</span>
                               </span>
                             </div>
                           </div>
@@ -259,13 +324,17 @@ export default function CallingPage() {
                           </button>
                         </div>
                         <div className="pt-4 border-t border-gray-100 dark:border-gray-700 space-y-1">
+                          <div className="flex justify-between text-xs text-gray-500">
+                            <span>Called by:</span>
+                            <span className="font-medium text-gray-700 dark:text-gray-200">{call.initiatedByName}</span>
+                          </div>
                           <div className="flex justify-between text-xs text-gray-500">
                             <span>Started:</span>
-                            <span className="font-mono">{new Date(call.startTime).toLocaleTimeString()}</span>
+                            <span className="font-mono">{new Date(call.startedAt).toLocaleString()}</span>
                           </div>
                           <div className="flex justify-between text-xs text-gray-500">
                             <span>Ended:</span>
-                            <span className="font-mono">{new Date(call.endTime).toLocaleTimeString()}</span>
+                            <span className="font-mono">{call.endedAt ? new Date(call.endedAt).toLocaleString() : '—'}</span>
                           </div>
                         </div>
                       </div>
@@ -2,46 +2,47 @@
 
 import { useState, useEffect, useMemo } from 'react'
 import { useParams, useRouter } from 'next/navigation'
-import { parseCustomerData, type CustomerData, type CustomerVisitData } from '@/lib/customerParser'
-import { useExcelData } from '@/contexts/ExcelDataContext'
+import type { CustomerData, CustomerVisitData } from '@/lib/customerParser'
+import FeedbackAnswers from '@/components/FeedbackAnswers'
+import { CALL_OUTCOME_LABELS, type CallFeedbackRecord } from '@/lib/callFeedback'
+import { DISPOSITIONS } from '@/lib/callDispositions'
+import { formatDisplayDate } from '@/lib/workbookParser'
 
 export default function CustomerDetailPage() {
   const params = useParams()
   const router = useRouter()
-  const { excelBuffer, fileName } = useExcelData()
   const customerId = params?.id ? decodeURIComponent(params.id as string) : null
 
   const [customerData, setCustomerData] = useState<CustomerData | null>(null)
   const [allDepartments, setAllDepartments] = useState<string[]>([])
+  const [fileName, setFileName] = useState<string | null>(null)
   const [isParsing, setIsParsing] = useState(false)
   const [error, setError] = useState<string | null>(null)
   const [expandedVisits, setExpandedVisits] = useState<Set<string>>(new Set())
+  const [feedback, setFeedback] = useState<CallFeedbackRecord[]>([])
 
   useEffect(() => {
-    if (excelBuffer && customerId) {
-      setIsParsing(true)
-      setError(null)
+    if (!customerId) return
+    setIsParsing(true)
+    setError(null)
 
-      try {
-        const parsed = parseCustomerData(excelBuffer)
-        const customer = parsed.customers.find(c => c.customerId === customerId)
-        
-        if (customer) {
-          setCustomerData(customer)
-          setAllDepartments(parsed.allDepartments)
-        } else {
-          setError(`Customer with ID "${customerId}" not found.`)
+    fetch(`/api/customers/${encodeURIComponent(customerId)}`)
+      .then(async (response) => {
+        const data = await response.json()
+        if (!response.ok) {
+          throw new Error(data.error ?? 'Failed to load customer data.')
         }
-      } catch (err) {
+        setCustomerData(data.customer)
+        setAllDepartments(data.allDepartments)
+        setFileName(data.fileName)
+        setFeedback(data.feedback)
+      })
+      .catch((err) => {
         console.error(err)
-        setError(err instanceof Error ? err.message : 'Failed to parse Excel file.')
-      } finally {
-        setIsParsing(false)
-      }
-    } else if (!excelBuffer) {
-      setError('No Excel file data available. Please upload a file from the Incentive tab.')
-    }
-  }, [excelBuffer, customerId])
+        setError(err instanceof Error ? err.message : 'Failed to load customer data.')
+      })
+      .finally(() => setIsParsing(false))
+  }, [customerId])
 
   const toggleVisit = (visitKey: string) => {
     const newExpanded = new Set(expandedVisits)
@@ -168,7 +169,7 @@ export default function CustomerDetailPage() {
                   </div>
                   {fileName && (
                     <div className="bg-white/10 backdrop-blur-sm rounded-lg px-4 py-2 border border-white/20">
-                      <p className="text-xs text-blue-100 font-medium mb-1">Source File</p>
+                      <p className="text-xs text-blue-100 font-medium mb-1">Last Uploaded File</p>
                       <p className="text-sm text-white font-semibold truncate max-w-xs">{fileName}</p>
                     </div>
                   )}
@@ -465,6 +466,42 @@ export default function CustomerDetailPage() {
                 )}
               </div>
             </div>
+
+            {/* Call Feedback Section */}
+            <div className="bg-white dark:bg-gray-800 rounded-xl shadow-lg border border-gray-200 dark:border-gray-700">
+              <div className="px-6 py-5 border-b border-gray-200 dark:border-gray-700 bg-gray-50 dark:bg-gray-900/50">
+                <h3 className="text-xl font-bold text-gray-900 dark:text-white">Call Feedback</h3>
+                <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">
+                  What the customer told our telecallers, newest first
+                </p>
+              </div>
+              {feedback.length === 0 ? (
+                <p className="p-6 text-sm text-gray-500 dark:text-gray-400">No feedback recorded for this customer.</p>
+              ) : (
+                <div className="divide-y divide-gray-200 dark:divide-gray-700">
+                  {feedback.map((entry) => (
+                    <div key={entry.id} className="p-6 space-y-3">
+                      <div className="flex flex-wrap items-center justify-between gap-2">
+                        <p className="text-sm font-semibold text-gray-900 dark:text-white">
+                          {entry.disposition ? DISPOSITIONS[entry.disposition].label : CALL_OUTCOME_LABELS[entry.outcome]}
+                          <span className="font-normal text-gray-500 dark:text-gray-400"> · by {entry.submittedByName}</span>
+                        </p>
+                        <p className="text-xs text-gray-500 dark:text-gray-400">
+                          {new Date(entry.createdAt).toLocaleString('en-IN', { dateStyle: 'medium', timeStyle: 'short' })}
+                        </p>
+                      </div>
+                      <FeedbackAnswers feedback={entry} />
+                      {entry.followUpDate && (
+                        <p className="text-xs text-blue-600 dark:text-blue-400">
+                          Follow up on {formatDisplayDate(entry.followUpDate)}
+                          {entry.followUpReason && <> &ndash; {entry.followUpReason}</>}
+                        </p>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
           </div>
         )}
       </main>
@@ -2,39 +2,35 @@
 
 import { useState, useEffect, useMemo } from 'react'
 import { useRouter } from 'next/navigation'
-import { parseCustomerData, type CustomerData, type CustomerVisitData } from '@/lib/customerParser'
-import { useExcelData } from '@/contexts/ExcelDataContext'
+import type { CustomerData } from '@/lib/customerParser'
 
 export default function CustomersPage() {
   const router = useRouter()
-  const { excelBuffer, fileName } = useExcelData()
+  const [fileName, setFileName] = useState<string | null>(null)
   const [customerData, setCustomerData] = useState<{ customers: CustomerData[], allDepartments: string[] } | null>(null)
-  const [isParsing, setIsParsing] = useState(false)
+  const [isParsing, setIsParsing] = useState(true)
   const [error, setError] = useState<string | null>(null)
 
   useEffect(() => {
-    if (excelBuffer) {
-      setIsParsing(true)
-      setError(null)
-
-      try {
-        const parsed = parseCustomerData(excelBuffer)
+    fetch('/api/customers')
+      .then(async (response) => {
+        if (!response.ok) {
+          throw new Error('Failed to load customer data.')
+        }
+        const data = await response.json()
         setCustomerData({
-          customers: parsed.customers,
-          allDepartments: parsed.allDepartments,
+          customers: data.customers,
+          allDepartments: data.allDepartments,
         })
-      } catch (err) {
+        setFileName(data.fileName)
+      })
+      .catch((err) => {
         console.error(err)
         setCustomerData(null)
-        setError(err instanceof Error ? err.message : 'Failed to parse Excel file.')
-      } finally {
-        setIsParsing(false)
-      }
-    } else {
-      setCustomerData(null)
-      setError(null)
-    }
-  }, [excelBuffer])
+        setError(err instanceof Error ? err.message : 'Failed to load customer data.')
+      })
+      .finally(() => setIsParsing(false))
+  }, [])
 
   // Sort customers by total visits (highest to lowest)
   const sortedCustomers = useMemo(() => {
@@ -59,14 +55,14 @@ export default function CustomersPage() {
           <div className="flex flex-col gap-2 sm:flex-row sm:items-center sm:justify-between">
             <h1 className="text-2xl font-bold text-gray-900 dark:text-white">Customer Details</h1>
             <p className="text-sm text-gray-600 dark:text-gray-300">
-              View customer department visits analysis per date. Data from uploaded Excel file.
+              View customer department visits analysis per date. Data from uploaded Excel files.
             </p>
           </div>
         </div>
       </header>
 
       <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
-        {!excelBuffer && (
+        {!isParsing && !error && !fileName && (
           <div className="bg-white dark:bg-gray-800 rounded-lg shadow border border-gray-200 dark:border-gray-700 mb-8">
             <div className="p-8">
               <div className="text-center">
@@ -94,11 +90,11 @@ export default function CustomersPage() {
           </div>
         )}
 
-        {fileName && excelBuffer && (
+        {fileName && (
           <div className="bg-white dark:bg-gray-800 rounded-lg shadow border border-gray-200 dark:border-gray-700 mb-6">
             <div className="p-4">
               <p className="text-sm text-gray-600 dark:text-gray-400">
-                <span className="font-medium">File:</span> {fileName}
+                <span className="font-medium">Last uploaded file:</span> {fileName}
               </p>
             </div>
           </div>
@@ -107,7 +103,7 @@ export default function CustomersPage() {
         {isParsing && (
           <div className="bg-white dark:bg-gray-800 rounded-lg shadow border border-gray-200 dark:border-gray-700 p-8">
             <div className="text-center">
-              <p className="text-sm text-blue-600 dark:text-blue-400">Parsing customer data…</p>
+              <p className="text-sm text-blue-600 dark:text-blue-400">Loading customer data…</p>
             </div>
           </div>
         )}
@@ -246,11 +242,11 @@ export default function CustomersPage() {
           </>
         )}
 
-        {customerData && sortedCustomers.length === 0 && excelBuffer && !isParsing && (
+        {customerData && sortedCustomers.length === 0 && fileName && !isParsing && (
           <div className="bg-white dark:bg-gray-800 rounded-lg shadow border border-gray-200 dark:border-gray-700 p-8">
             <div className="text-center">
               <p className="text-sm text-gray-600 dark:text-gray-400">
-                No customer data found in the uploaded file.
+                No customer data found in the uploaded files.
               </p>
             </div>
           </div>
@@ -0,0 +1,209 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import Link from 'next/link'
+import type { UnmappedItemGroup } from '@/lib/itemGroupStore'
+import { formatDisplayDate } from '@/lib/workbookParser'
+
+type DepartmentOption = {
+  id: string
+  name: string
+}
+
+const selectClassName = 'px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-sm text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500'
+
+const readError = async (response: Response, fallback: string) => {
+  const data = await response.json().catch(() => null)
+  return data?.error ?? fallback
+}
+
+export default function ItemGroupsPage() {
+  const [itemGroups, setItemGroups] = useState<UnmappedItemGroup[]>([])
+  const [departments, setDepartments] = useState<DepartmentOption[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [message, setMessage] = useState<string | null>(null)
+
+  // Department chosen for each item group, keyed by item group
+  const [selections, setSelections] = useState<Record<string, string>>({})
+  const [savingItemGroup, setSavingItemGroup] = useState<string | null>(null)
+
+  const loadItemGroups = useCallback(() => {
+    setIsLoading(true)
+    return fetch('/api/item-groups')
+      .then(async (response) => {
+        if (!response.ok) {
+          throw new Error(await readError(response, 'Failed to load item groups.'))
+        }
+        const data = await response.json()
+        setItemGroups(data.itemGroups)
+        setDepartments(data.departments)
+        setError(null)
+      })
+      .catch((err) => {
+        console.error(err)
+        setError(err instanceof Error ? err.message : 'Failed to load item groups.')
+      })
+      .finally(() => setIsLoading(false))
+  }, [])
+
+  useEffect(() => {
+    loadItemGroups()
+  }, [loadItemGroups])
+
+  const triage = async (itemGroup: UnmappedItemGroup, body: Record<string, unknown>, successMessage: string) => {
+    setSavingItemGroup(itemGroup.itemGroup)
+    setError(null)
+    try {
+      const response = await fetch('/api/item-groups', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ itemGroup: itemGroup.itemGroup, ...body }),
+      })
+      if (!response.ok) {
+        throw new Error(await readError(response, 'Failed to update item group.'))
+      }
+      const data = await response.json()
+      setItemGroups(data.itemGroups)
+      setMessage(`${successMessage} Stored visits and incentives have been recalculated.`)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update item group.')
+    } finally {
+      setSavingItemGroup(null)
+    }
+  }
+
+  const mapToDepartment = (itemGroup: UnmappedItemGroup) => {
+    const departmentId = selections[itemGroup.itemGroup]
+    const department = departments.find((item) => item.id === departmentId)
+    if (!department) return
+    triage(itemGroup, { departmentId }, `Mapped "${itemGroup.itemGroup}" to ${department.name}.`)
+  }
+
+  const pending = itemGroups.filter((itemGroup) => !itemGroup.ignored)
+  const ignored = itemGroups.filter((itemGroup) => itemGroup.ignored)
+
+  const renderTable = (rows: UnmappedItemGroup[], isIgnoredList: boolean) => (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow border border-gray-200 dark:border-gray-700 overflow-x-auto">
+      <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
+        <thead className="bg-gray-50 dark:bg-gray-700">
+          <tr>
+            <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">Item Group</th>
+            <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">Rows</th>
+            <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">Last Seen</th>
+            <th className="px-4 py-3" />
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+          {rows.map((itemGroup) => {
+            const isSaving = savingItemGroup === itemGroup.itemGroup
+            return (
+              <tr key={itemGroup.itemGroup} className={isIgnoredList ? 'opacity-60' : ''}>
+                <td className="px-4 py-3 text-sm font-medium text-gray-900 dark:text-white">{itemGroup.itemGroup}</td>
+                <td className="px-4 py-3 text-sm text-gray-600 dark:text-gray-400">{itemGroup.rowCount}</td>
+                <td className="px-4 py-3 text-sm text-gray-600 dark:text-gray-400">
+                  {itemGroup.lastSeen ? formatDisplayDate(itemGroup.lastSeen) : '—'}
+                </td>
+                <td className="px-4 py-3 text-sm text-right whitespace-nowrap">
+                  {isIgnoredList ? (
+                    <button
+                      onClick={() => triage(itemGroup, { ignored: false }, `"${itemGroup.itemGroup}" is back in the queue.`)}
+                      disabled={isSaving}
+                      className="text-blue-600 dark:text-blue-400 hover:underline disabled:opacity-50"
+                    >
+                      Restore
+                    </button>
+                  ) : (
+                    <div className="flex items-center justify-end gap-3">
+                      <select
+                        value={selections[itemGroup.itemGroup] ?? ''}
+                        onChange={(e) => setSelections({ ...selections, [itemGroup.itemGroup]: e.target.value })}
+                        className={selectClassName}
+                      >
+                        <option value="">Select department</option>
+                        {departments.map((department) => (
+                          <option key={department.id} value={department.id} className="capitalize">{department.name}</option>
+                        ))}
+                      </select>
+                      <button
+                        onClick={() => mapToDepartment(itemGroup)}
+                        disabled={isSaving || !selections[itemGroup.itemGroup]}
+                        className="px-3 py-2 bg-blue-600 text-white text-sm font-medium rounded-lg hover:bg-blue-700 disabled:opacity-50 transition-colors"
+                      >
+                        Map
+                      </button>
+                      <button
+                        onClick={() => triage(itemGroup, { ignored: true }, `Ignored "${itemGroup.itemGroup}".`)}
+                        disabled={isSaving}
+                        className="text-red-600 dark:text-red-400 hover:underline disabled:opacity-50"
+                      >
+                        Ignore
+                      </button>
+                    </div>
+                  )}
+                </td>
+              </tr>
+            )
+          })}
+        </tbody>
+      </table>
+    </div>
+  )
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-gray-50 to-gray-100 dark:from-gray-900 dark:to-gray-800">
+      <header className="bg-white dark:bg-gray-800 shadow-sm border-b border-gray-200 dark:border-gray-700">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-4">
+          <div className="flex flex-col gap-2 sm:flex-row sm:items-center sm:justify-between">
+            <div>
+              <h1 className="text-2xl font-bold text-gray-900 dark:text-white">Unmapped Item Groups</h1>
+              <p className="text-sm text-gray-600 dark:text-gray-300">
+                Item Group values from uploads that match no department. Map each one to a department or ignore it.
+              </p>
+            </div>
+            <Link href="/departments" className="text-sm font-medium text-blue-600 dark:text-blue-400 hover:underline">
+              Back to departments
+            </Link>
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+        {message && (
+          <div className="p-4 bg-green-50 dark:bg-green-900/20 border border-green-200 dark:border-green-700 rounded-lg">
+            <p className="text-sm text-green-700 dark:text-green-300">{message}</p>
+          </div>
+        )}
+
+        {error && (
+          <div className="p-4 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-700 rounded-lg">
+            <p className="text-sm text-red-600 dark:text-red-400">{error}</p>
+          </div>
+        )}
+
+        {isLoading && itemGroups.length === 0 && (
+          <div className="bg-white dark:bg-gray-800 rounded-lg shadow border border-gray-200 dark:border-gray-700 p-8">
+            <div className="text-center">
+              <p className="text-sm text-blue-600 dark:text-blue-400">Loading item groups…</p>
+            </div>
+          </div>
+        )}
+
+        {!isLoading && pending.length === 0 && (
+          <div className="bg-white dark:bg-gray-800 rounded-lg shadow border border-gray-200 dark:border-gray-700 p-8">
+            <p className="text-center text-sm text-gray-600 dark:text-gray-400">Every uploaded item group matches a department.</p>
+          </div>
+        )}
+
+        {pending.length > 0 && renderTable(pending, false)}
+
+        {ignored.length > 0 && (
+          <div>
+            <h2 className="text-lg font-semibold text-gray-900 dark:text-white mb-3">Ignored</h2>
+            {renderTable(ignored, true)}
+          </div>
+        )}
+      </main>
+    </div>
+  )
+}
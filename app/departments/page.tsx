@@ -0,0 +1,296 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import Link from 'next/link'
+
+type Department = {
+  id: string
+  name: string
+  displayOrder: number
+  isActive: boolean
+  aliases: string[]
+}
+
+type DepartmentForm = {
+  name: string
+  displayOrder: string
+  aliases: string // One spelling per line
+}
+
+const EMPTY_FORM: DepartmentForm = { name: '', displayOrder: '', aliases: '' }
+
+const inputClassName = 'w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-sm text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500'
+
+const readError = async (response: Response, fallback: string) => {
+  const data = await response.json().catch(() => null)
+  return data?.error ?? fallback
+}
+
+export default function DepartmentsPage() {
+  const [departments, setDepartments] = useState<Department[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [message, setMessage] = useState<string | null>(null)
+
+  // null = form closed, 'new' = adding, otherwise the id being edited
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [form, setForm] = useState<DepartmentForm>(EMPTY_FORM)
+  const [formError, setFormError] = useState<string | null>(null)
+  const [isSaving, setIsSaving] = useState(false)
+
+  const loadDepartments = useCallback(() => {
+    setIsLoading(true)
+    return fetch('/api/departments')
+      .then(async (response) => {
+        if (!response.ok) {
+          throw new Error(await readError(response, 'Failed to load departments.'))
+        }
+        const data = await response.json()
+        setDepartments(data.departments)
+        setError(null)
+      })
+      .catch((err) => {
+        console.error(err)
+        setError(err instanceof Error ? err.message : 'Failed to load departments.')
+      })
+      .finally(() => setIsLoading(false))
+  }, [])
+
+  useEffect(() => {
+    loadDepartments()
+  }, [loadDepartments])
+
+  const openCreate = () => {
+    setEditingId('new')
+    setForm(EMPTY_FORM)
+    setFormError(null)
+  }
+
+  const openEdit = (department: Department) => {
+    setEditingId(department.id)
+    setForm({
+      name: department.name,
+      displayOrder: String(department.displayOrder),
+      aliases: department.aliases.join('\n'),
+    })
+    setFormError(null)
+  }
+
+  const closeForm = () => {
+    setEditingId(null)
+    setFormError(null)
+  }
+
+  const saveDepartment = async (url: string, method: string, body: Record<string, unknown>) => {
+    const response = await fetch(url, {
+      method,
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    })
+    if (!response.ok) {
+      throw new Error(await readError(response, 'Failed to save department.'))
+    }
+  }
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault()
+    setIsSaving(true)
+    setFormError(null)
+
+    const isNew = editingId === 'new'
+    try {
+      await saveDepartment(isNew ? '/api/departments' : `/api/departments/${editingId}`, isNew ? 'POST' : 'PATCH', {
+        name: form.name,
+        aliases: form.aliases.split('\n').map((alias) => alias.trim()).filter(Boolean),
+        ...(form.displayOrder.trim() ? { displayOrder: Number(form.displayOrder) } : {}),
+      })
+      setMessage(isNew ? `Added ${form.name}. Stored visits are being re-classified.` : `Saved ${form.name}. Stored visits are being re-classified.`)
+      closeForm()
+      await loadDepartments()
+    } catch (err) {
+      setFormError(err instanceof Error ? err.message : 'Failed to save department.')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const toggleActive = async (department: Department) => {
+    try {
+      await saveDepartment(`/api/departments/${department.id}`, 'PATCH', { isActive: !department.isActive })
+      setMessage(department.isActive ? `Deactivated ${department.name}.` : `Reactivated ${department.name}.`)
+      await loadDepartments()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update department.')
+    }
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-gray-50 to-gray-100 dark:from-gray-900 dark:to-gray-800">
+      <header className="bg-white dark:bg-gray-800 shadow-sm border-b border-gray-200 dark:border-gray-700">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-4">
+          <div className="flex flex-col gap-2 sm:flex-row sm:items-center sm:justify-between">
+            <div>
+              <h1 className="text-2xl font-bold text-gray-900 dark:text-white">Departments</h1>
+              <p className="text-sm text-gray-600 dark:text-gray-300">
+                Master department list used to match the Item Group column of uploaded workbooks.
+              </p>
+            </div>
+            <div className="flex items-center gap-4">
+              <Link href="/departments/item-groups" className="text-sm font-medium text-blue-600 dark:text-blue-400 hover:underline">
+                Unmapped item groups
+              </Link>
+              <button
+                onClick={openCreate}
+                className="px-4 py-2 bg-blue-600 text-white text-sm font-medium rounded-lg hover:bg-blue-700 transition-colors"
+              >
+                Add Department
+              </button>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {message && (
+          <div className="mb-6 p-4 bg-green-50 dark:bg-green-900/20 border border-green-200 dark:border-green-700 rounded-lg">
+            <p className="text-sm text-green-700 dark:text-green-300">{message}</p>
+          </div>
+        )}
+
+        {error && (
+          <div className="mb-6 p-4 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-700 rounded-lg">
+            <p className="text-sm text-red-600 dark:text-red-400">{error}</p>
+          </div>
+        )}
+
+        {editingId && (
+          <form
+            onSubmit={handleSubmit}
+            className="bg-white dark:bg-gray-800 rounded-lg shadow border border-gray-200 dark:border-gray-700 mb-6 p-6"
+          >
+            <h2 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">
+              {editingId === 'new' ? 'New Department' : 'Edit Department'}
+            </h2>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <label className="block">
+                <span className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Name</span>
+                <input
+                  type="text"
+                  required
+                  value={form.name}
+                  onChange={(e) => setForm({ ...form, name: e.target.value })}
+                  placeholder="e.g. footwear"
+                  className={inputClassName}
+                />
+              </label>
+              <label className="block">
+                <span className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Display order</span>
+                <input
+                  type="number"
+                  value={form.displayOrder}
+                  onChange={(e) => setForm({ ...form, displayOrder: e.target.value })}
+                  placeholder="Last"
+                  className={inputClassName}
+                />
+              </label>
+              <label className="block md:col-span-2">
+                <span className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                  Alias spellings (one per line)
+                </span>
+                <textarea
+                  rows={4}
+                  value={form.aliases}
+                  onChange={(e) => setForm({ ...form, aliases: e.target.value })}
+                  placeholder={'e.g. foot wear\nshoes'}
+                  className={inputClassName}
+                />
+              </label>
+            </div>
+            {editingId !== 'new' && (
+              <p className="mt-2 text-xs text-gray-500 dark:text-gray-400">
+                When renaming, the old name is kept as an alias so earlier uploads still match.
+              </p>
+            )}
+            {formError && (
+              <p className="mt-4 text-sm text-red-600 dark:text-red-400">{formError}</p>
+            )}
+            <div className="mt-6 flex gap-3">
+              <button
+                type="submit"
+                disabled={isSaving}
+                className="px-4 py-2 bg-blue-600 text-white text-sm font-medium rounded-lg hover:bg-blue-700 disabled:opacity-50 transition-colors"
+              >
+                {isSaving ? 'Saving…' : 'Save'}
+              </button>
+              <button
+                type="button"
+                onClick={closeForm}
+                className="px-4 py-2 bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 text-sm font-medium rounded-lg hover:bg-gray-200 dark:hover:bg-gray-600 transition-colors"
+              >
+                Cancel
+              </button>
+            </div>
+          </form>
+        )}
+
+        {isLoading && departments.length === 0 && (
+          <div className="bg-white dark:bg-gray-800 rounded-lg shadow border border-gray-200 dark:border-gray-700 p-8">
+            <div className="text-center">
+              <p className="text-sm text-blue-600 dark:text-blue-400">Loading departments…</p>
+            </div>
+          </div>
+        )}
+
+        {departments.length > 0 && (
+          <div className="bg-white dark:bg-gray-800 rounded-lg shadow border border-gray-200 dark:border-gray-700 overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
+              <thead className="bg-gray-50 dark:bg-gray-700">
+                <tr>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">Order</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">Department</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">Aliases</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">Status</th>
+                  <th className="px-4 py-3" />
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                {departments.map((department) => (
+                  <tr key={department.id} className={department.isActive ? '' : 'opacity-60'}>
+                    <td className="px-4 py-3 text-sm text-gray-600 dark:text-gray-400">{department.displayOrder}</td>
+                    <td className="px-4 py-3 text-sm font-medium text-gray-900 dark:text-white capitalize">{department.name}</td>
+                    <td className="px-4 py-3 text-sm text-gray-600 dark:text-gray-400">
+                      {department.aliases.length > 0 ? department.aliases.join(', ') : '—'}
+                    </td>
+                    <td className="px-4 py-3 text-sm">
+                      <span
+                        className={`px-2 py-1 rounded text-xs font-medium ${department.isActive
+                          ? 'bg-green-100 dark:bg-green-900/30 text-green-700 dark:text-green-300'
+                          : 'bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-400'
+                          }`}
+                      >
+                        {department.isActive ? 'Active' : 'Inactive'}
+                      </span>
+                    </td>
+                    <td className="px-4 py-3 text-sm text-right whitespace-nowrap space-x-3">
+                      <button onClick={() => openEdit(department)} className="text-blue-600 dark:text-blue-400 hover:underline">
+                        Edit
+                      </button>
+                      <button
+                        onClick={() => toggleActive(department)}
+                        className={department.isActive
+                          ? 'text-red-600 dark:text-red-400 hover:underline'
+                          : 'text-green-600 dark:text-green-400 hover:underline'}
+                      >
+                        {department.isActive ? 'Deactivate' : 'Activate'}
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </main>
+    </div>
+  )
+}
@@ -0,0 +1,423 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import * as XLSX from 'xlsx'
+import { buildPayoutWorkbook } from '@/lib/incentiveExport'
+import { INCENTIVE_PERIOD_STATUS_LABELS, type IncentivePeriodStatus } from '@/lib/incentivePeriods'
+import type { IncentivePeriodSummary } from '@/lib/periodStore'
+import {
+  DEFAULT_PAY_PERIOD_SPLIT_DAY,
+  MAX_PAY_PERIOD_SPLIT_DAY,
+  formatMonthLabel,
+  formatOrdinal,
+  formatRangeLabel,
+  monthRange,
+  payPeriodRange,
+  toMonthKey,
+  type DateRange,
+  type PayPeriodHalf,
+} from '@/lib/periods'
+
+type PeriodKind = 'payPeriod' | 'month' | 'range'
+
+const inputClassName = 'w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-sm text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500'
+
+const STATUS_BADGE_CLASSES: Record<IncentivePeriodStatus, string> = {
+  LOCKED: 'bg-yellow-100 dark:bg-yellow-900/30 text-yellow-800 dark:text-yellow-300',
+  APPROVED: 'bg-blue-100 dark:bg-blue-900/30 text-blue-700 dark:text-blue-300',
+  PAID: 'bg-green-100 dark:bg-green-900/30 text-green-700 dark:text-green-300',
+}
+
+const readError = async (response: Response, fallback: string) => {
+  const data = await response.json().catch(() => null)
+  return data?.error ?? fallback
+}
+
+const formatTimestamp = (iso: string) =>
+  new Date(iso).toLocaleString('en-IN', { dateStyle: 'medium', timeStyle: 'short' })
+
+export default function IncentivePeriodsPage() {
+  const [periods, setPeriods] = useState<IncentivePeriodSummary[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [message, setMessage] = useState<string | null>(null)
+  const [expandedId, setExpandedId] = useState<string | null>(null)
+  const [updatingId, setUpdatingId] = useState<string | null>(null)
+
+  // Lock form
+  const [kind, setKind] = useState<PeriodKind>('payPeriod')
+  const [month, setMonth] = useState(() => toMonthKey(new Date().toISOString()))
+  const [half, setHalf] = useState<PayPeriodHalf>('first')
+  const [splitDay, setSplitDay] = useState(DEFAULT_PAY_PERIOD_SPLIT_DAY)
+  const [rangeFrom, setRangeFrom] = useState('')
+  const [rangeTo, setRangeTo] = useState('')
+  const [label, setLabel] = useState('')
+  const [isLocking, setIsLocking] = useState(false)
+
+  // Split day form
+  const [splitDayInput, setSplitDayInput] = useState(String(DEFAULT_PAY_PERIOD_SPLIT_DAY))
+  const [isSavingSplitDay, setIsSavingSplitDay] = useState(false)
+
+  const loadPeriods = useCallback(() => {
+    setIsLoading(true)
+    return fetch('/api/incentive-periods')
+      .then(async (response) => {
+        if (!response.ok) {
+          throw new Error(await readError(response, 'Failed to load pay periods.'))
+        }
+        const data = await response.json()
+        setPeriods(data.periods)
+        setSplitDay(data.splitDay)
+        setSplitDayInput(String(data.splitDay))
+        setError(null)
+      })
+      .catch((err) => {
+        console.error(err)
+        setError(err instanceof Error ? err.message : 'Failed to load pay periods.')
+      })
+      .finally(() => setIsLoading(false))
+  }, [])
+
+  useEffect(() => {
+    loadPeriods()
+  }, [loadPeriods])
+
+  const range: DateRange | null =
+    kind === 'range'
+      ? rangeFrom && rangeTo && rangeFrom <= rangeTo ? { from: rangeFrom, to: rangeTo } : null
+      : month
+        ? kind === 'month' ? monthRange(month) : payPeriodRange(month, half, splitDay)
+        : null
+
+  const suggestedLabel = !range
+    ? ''
+    : kind === 'month'
+      ? formatMonthLabel(month)
+      : kind === 'payPeriod'
+        ? `${formatMonthLabel(month)} (${half === 'first' ? '1st' : '2nd'} half)`
+        : formatRangeLabel(range)
+
+  const handleLock = async (event: React.FormEvent) => {
+    event.preventDefault()
+    if (!range) return
+    const periodLabel = label.trim() || suggestedLabel
+    if (!window.confirm(`Lock ${periodLabel}? Later uploads will no longer change its payouts.`)) {
+      return
+    }
+    setIsLocking(true)
+    setError(null)
+    try {
+      const response = await fetch('/api/incentive-periods', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        // Pay periods are cut on the server at the stored split day
+        body: JSON.stringify(kind === 'payPeriod' ? { month, half, label: periodLabel } : { ...range, label: periodLabel }),
+      })
+      if (!response.ok) {
+        throw new Error(await readError(response, 'Failed to lock pay period.'))
+      }
+      const data = await response.json()
+      setPeriods(data.periods)
+      setLabel('')
+      setMessage(`Locked ${periodLabel}.`)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to lock pay period.')
+    } finally {
+      setIsLocking(false)
+    }
+  }
+
+  const handleSaveSplitDay = async (event: React.FormEvent) => {
+    event.preventDefault()
+    setIsSavingSplitDay(true)
+    setError(null)
+    try {
+      const response = await fetch('/api/incentive-periods/split-day', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ splitDay: Number(splitDayInput) }),
+      })
+      if (!response.ok) {
+        throw new Error(await readError(response, 'Failed to save the split day.'))
+      }
+      const data = await response.json()
+      setSplitDay(data.splitDay)
+      setSplitDayInput(String(data.splitDay))
+      setMessage(`Pay periods now split after the ${formatOrdinal(data.splitDay)} for everyone.`)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save the split day.')
+    } finally {
+      setIsSavingSplitDay(false)
+    }
+  }
+
+  const advance = async (period: IncentivePeriodSummary, status: IncentivePeriodStatus) => {
+    const action = status === 'APPROVED' ? 'Approve' : 'Mark as paid'
+    if (!window.confirm(`${action}: ${period.label}, ₹${period.total.toLocaleString()}?`)) {
+      return
+    }
+    setUpdatingId(period.id)
+    setError(null)
+    try {
+      const response = await fetch(`/api/incentive-periods/${period.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ status }),
+      })
+      if (!response.ok) {
+        throw new Error(await readError(response, 'Failed to update pay period.'))
+      }
+      const data = await response.json()
+      setPeriods(data.periods)
+      setMessage(`${period.label} is now ${INCENTIVE_PERIOD_STATUS_LABELS[status].toLowerCase()}.`)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update pay period.')
+    } finally {
+      setUpdatingId(null)
+    }
+  }
+
+  const exportPeriod = (period: IncentivePeriodSummary) => {
+    const workbook = buildPayoutWorkbook(period.payouts, period.label)
+    XLSX.writeFile(workbook, `incentive-payouts-${period.from}-to-${period.to}.xlsx`)
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-gray-50 to-gray-100 dark:from-gray-900 dark:to-gray-800">
+      <header className="bg-white dark:bg-gray-800 shadow-sm border-b border-gray-200 dark:border-gray-700">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-4">
+          <h1 className="text-2xl font-bold text-gray-900 dark:text-white">Pay Periods</h1>
+          <p className="text-sm text-gray-600 dark:text-gray-300">
+            Locking a period freezes each salesperson&apos;s payout. Changes from later uploads are paid as adjustments in the next period.
+          </p>
+        </div>
+      </header>
+
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {message && (
+          <div className="mb-6 p-4 bg-green-50 dark:bg-green-900/20 border border-green-200 dark:border-green-700 rounded-lg">
+            <p className="text-sm text-green-700 dark:text-green-300">{message}</p>
+          </div>
+        )}
+
+        {error && (
+          <div className="mb-6 p-4 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-700 rounded-lg">
+            <p className="text-sm text-red-600 dark:text-red-400">{error}</p>
+          </div>
+        )}
+
+        <form
+          onSubmit={handleSaveSplitDay}
+          className="bg-white dark:bg-gray-800 rounded-lg shadow border border-gray-200 dark:border-gray-700 mb-6 p-6"
+        >
+          <h2 className="text-lg font-semibold text-gray-900 dark:text-white mb-1">Pay Period Split</h2>
+          <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">
+            Each month is paid in two periods. The dashboard and locking use this split for every user.
+          </p>
+          <div className="flex flex-col gap-3 sm:flex-row sm:items-end">
+            <label className="block">
+              <span className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">First period ends on day</span>
+              <input
+                type="number"
+                required
+                min={1}
+                max={MAX_PAY_PERIOD_SPLIT_DAY}
+                value={splitDayInput}
+                onChange={(e) => setSplitDayInput(e.target.value)}
+                className={inputClassName}
+              />
+            </label>
+            <button
+              type="submit"
+              disabled={isSavingSplitDay || Number(splitDayInput) === splitDay}
+              className="px-4 py-2 bg-blue-600 text-white text-sm font-medium rounded-lg hover:bg-blue-700 disabled:opacity-50 transition-colors"
+            >
+              {isSavingSplitDay ? 'Saving…' : 'Save'}
+            </button>
+          </div>
+        </form>
+
+        <form
+          onSubmit={handleLock}
+          className="bg-white dark:bg-gray-800 rounded-lg shadow border border-gray-200 dark:border-gray-700 mb-6 p-6"
+        >
+          <h2 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">Lock a Period</h2>
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+            <label className="block">
+              <span className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Period</span>
+              <select value={kind} onChange={(e) => setKind(e.target.value as PeriodKind)} className={inputClassName}>
+                <option value="payPeriod">Pay period</option>
+                <option value="month">Calendar month</option>
+                <option value="range">Custom range</option>
+              </select>
+            </label>
+            {kind !== 'range' ? (
+              <label className="block">
+                <span className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Month</span>
+                <input type="month" required value={month} onChange={(e) => setMonth(e.target.value)} className={inputClassName} />
+              </label>
+            ) : (
+              <>
+                <label className="block">
+                  <span className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">From</span>
+                  <input type="date" required value={rangeFrom} onChange={(e) => setRangeFrom(e.target.value)} className={inputClassName} />
+                </label>
+                <label className="block">
+                  <span className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">To</span>
+                  <input type="date" required value={rangeTo} onChange={(e) => setRangeTo(e.target.value)} className={inputClassName} />
+                </label>
+              </>
+            )}
+            {kind === 'payPeriod' && (
+              <label className="block">
+                <span className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Half</span>
+                <select value={half} onChange={(e) => setHalf(e.target.value as PayPeriodHalf)} className={inputClassName}>
+                  <option value="first">1st – {formatOrdinal(splitDay)}</option>
+                  <option value="second">{formatOrdinal(splitDay + 1)} – month end</option>
+                </select>
+              </label>
+            )}
+            <label className="block">
+              <span className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Label</span>
+              <input
+                type="text"
+                value={label}
+                onChange={(e) => setLabel(e.target.value)}
+                placeholder={suggestedLabel || 'e.g. March 2026'}
+                className={inputClassName}
+              />
+            </label>
+          </div>
+          <div className="mt-4 flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
+            <p className="text-sm text-gray-600 dark:text-gray-400">
+              {range ? `Covers ${formatRangeLabel(range)}.` : 'Choose a start date on or before the end date.'}
+            </p>
+            <button
+              type="submit"
+              disabled={!range || isLocking}
+              className="px-4 py-2 bg-blue-600 text-white text-sm font-medium rounded-lg hover:bg-blue-700 disabled:opacity-50 transition-colors"
+            >
+              {isLocking ? 'Locking…' : 'Lock Period'}
+            </button>
+          </div>
+        </form>
+
+        {isLoading && periods.length === 0 && (
+          <div className="bg-white dark:bg-gray-800 rounded-lg shadow border border-gray-200 dark:border-gray-700 p-8">
+            <div className="text-center">
+              <p className="text-sm text-blue-600 dark:text-blue-400">Loading pay periods…</p>
+            </div>
+          </div>
+        )}
+
+        {!isLoading && periods.length === 0 && (
+          <div className="bg-white dark:bg-gray-800 rounded-lg shadow border border-gray-200 dark:border-gray-700 p-8">
+            <p className="text-center text-sm text-gray-600 dark:text-gray-400">No period has been locked yet.</p>
+          </div>
+        )}
+
+        <div className="space-y-4">
+          {periods.map((period) => {
+            const isExpanded = expandedId === period.id
+            const isUpdating = updatingId === period.id
+            return (
+              <div key={period.id} className="bg-white dark:bg-gray-800 rounded-lg shadow border border-gray-200 dark:border-gray-700 p-5">
+                <div className="flex flex-col gap-3 sm:flex-row sm:items-start sm:justify-between">
+                  <div>
+                    <div className="flex items-center gap-2">
+                      <h3 className="text-lg font-semibold text-gray-900 dark:text-white">{period.label}</h3>
+                      <span className={`px-2 py-1 rounded text-xs font-medium ${STATUS_BADGE_CLASSES[period.status]}`}>
+                        {INCENTIVE_PERIOD_STATUS_LABELS[period.status]}
+                      </span>
+                    </div>
+                    <p className="text-sm text-gray-600 dark:text-gray-400">
+                      {formatRangeLabel(period)} · {period.payouts.length} salespeople · ₹{period.total.toLocaleString()}
+                    </p>
+                    <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                      Locked by {period.lockedByName} on {formatTimestamp(period.lockedAt)}
+                      {period.approvedByName && period.approvedAt && (
+                        <> · Approved by {period.approvedByName} on {formatTimestamp(period.approvedAt)}</>
+                      )}
+                      {period.paidByName && period.paidAt && (
+                        <> · Paid by {period.paidByName} on {formatTimestamp(period.paidAt)}</>
+                      )}
+                    </p>
+                  </div>
+                  <div className="flex flex-wrap items-center gap-3 text-sm">
+                    {period.status === 'LOCKED' && (
+                      <button
+                        onClick={() => advance(period, 'APPROVED')}
+                        disabled={isUpdating}
+                        className="px-3 py-2 bg-blue-600 text-white font-medium rounded-lg hover:bg-blue-700 disabled:opacity-50 transition-colors"
+                      >
+                        Approve
+                      </button>
+                    )}
+                    {period.status === 'APPROVED' && (
+                      <button
+                        onClick={() => advance(period, 'PAID')}
+                        disabled={isUpdating}
+                        className="px-3 py-2 bg-green-600 text-white font-medium rounded-lg hover:bg-green-700 disabled:opacity-50 transition-colors"
+                      >
+                        Mark as Paid
+                      </button>
+                    )}
+                    <button onClick={() => exportPeriod(period)} className="text-blue-600 dark:text-blue-400 hover:underline">
+                      Export
+                    </button>
+                    <button
+                      onClick={() => setExpandedId(isExpanded ? null : period.id)}
+                      className="text-blue-600 dark:text-blue-400 hover:underline"
+                    >
+                      {isExpanded ? 'Hide details' : 'Show details'}
+                    </button>
+                  </div>
+                </div>
+
+                {isExpanded && (
+                  <div className="mt-4 grid grid-cols-1 lg:grid-cols-3 gap-6">
+                    <div className="lg:col-span-2 overflow-x-auto">
+                      <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700 text-sm">
+                        <thead>
+                          <tr className="text-left text-xs font-medium uppercase tracking-wider text-gray-500 dark:text-gray-400">
+                            <th className="px-3 py-2">Salesperson</th>
+                            <th className="px-3 py-2">Customers</th>
+                            <th className="px-3 py-2">Lines</th>
+                            <th className="px-3 py-2 text-right">Payout</th>
+                          </tr>
+                        </thead>
+                        <tbody className="divide-y divide-gray-200 dark:divide-gray-700 text-gray-700 dark:text-gray-300">
+                          {period.payouts.map((payout) => (
+                            <tr key={payout.name}>
+                              <td className="px-3 py-2 font-medium text-gray-900 dark:text-white">{payout.name}</td>
+                              <td className="px-3 py-2">{payout.customersCount}</td>
+                              <td className="px-3 py-2">{payout.breakdown.length}</td>
+                              <td className="px-3 py-2 text-right">₹{payout.total.toLocaleString()}</td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </div>
+                    <div>
+                      <h4 className="text-sm font-semibold text-gray-700 dark:text-gray-200 mb-2">Audit trail</h4>
+                      <ol className="space-y-2 text-xs text-gray-600 dark:text-gray-400">
+                        {period.events.map((event, index) => (
+                          <li key={index}>
+                            <span className="font-medium text-gray-900 dark:text-white">
+                              {INCENTIVE_PERIOD_STATUS_LABELS[event.status]}
+                            </span>{' '}
+                            by {event.performedByName} on {formatTimestamp(event.timestamp)} (₹{event.total.toLocaleString()})
+                          </li>
+                        ))}
+                      </ol>
+                    </div>
+                  </div>
+                )}
+              </div>
+            )
+          })}
+        </div>
+      </main>
+    </div>
+  )
+}
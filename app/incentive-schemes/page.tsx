@@ -0,0 +1,375 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import {
+  findSchemeForDate,
+  formatSlab,
+  SPLIT_POLICIES,
+  SPLIT_POLICY_LABELS,
+  type IncentiveScheme,
+  type IncentiveSlab,
+  type SplitPolicy,
+} from '@/lib/incentiveSchemes'
+import { formatDisplayDate } from '@/lib/workbookParser'
+
+type SchemeForm = {
+  name: string
+  effectiveFrom: string
+  slabs: Array<{ minDepartments: string; amount: string }>
+  splitPolicy: SplitPolicy
+}
+
+const inputClassName = 'w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-sm text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500'
+
+const readError = async (response: Response, fallback: string) => {
+  const data = await response.json().catch(() => null)
+  return data?.error ?? fallback
+}
+
+const toForm = (scheme: IncentiveScheme, effectiveFrom = scheme.effectiveFrom): SchemeForm => ({
+  name: scheme.name,
+  effectiveFrom,
+  slabs: scheme.slabs.map((slab) => ({
+    minDepartments: String(slab.minDepartments),
+    amount: String(slab.amount),
+  })),
+  splitPolicy: scheme.splitPolicy,
+})
+
+export default function IncentiveSchemesPage() {
+  const [schemes, setSchemes] = useState<IncentiveScheme[]>([])
+  const [defaultScheme, setDefaultScheme] = useState<IncentiveScheme | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [message, setMessage] = useState<string | null>(null)
+
+  // null = form closed, 'new' = creating a version, otherwise the id being edited
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [form, setForm] = useState<SchemeForm | null>(null)
+  const [formError, setFormError] = useState<string | null>(null)
+  const [isSaving, setIsSaving] = useState(false)
+
+  const loadSchemes = useCallback(() => {
+    setIsLoading(true)
+    return fetch('/api/incentive-schemes')
+      .then(async (response) => {
+        if (!response.ok) {
+          throw new Error(await readError(response, 'Failed to load incentive schemes.'))
+        }
+        const data = await response.json()
+        setSchemes(data.schemes)
+        setDefaultScheme(data.defaultScheme)
+        setError(null)
+      })
+      .catch((err) => {
+        console.error(err)
+        setError(err instanceof Error ? err.message : 'Failed to load incentive schemes.')
+      })
+      .finally(() => setIsLoading(false))
+  }, [])
+
+  useEffect(() => {
+    loadSchemes()
+  }, [loadSchemes])
+
+  const today = new Date().toISOString().slice(0, 10)
+  const schemeInForce = findSchemeForDate(schemes, today)
+
+  const openCreate = () => {
+    // Start the new version from the slabs currently in force
+    setEditingId('new')
+    setForm({ ...toForm(schemeInForce, today), name: '' })
+    setFormError(null)
+  }
+
+  const openEdit = (scheme: IncentiveScheme) => {
+    setEditingId(scheme.id)
+    setForm(toForm(scheme))
+    setFormError(null)
+  }
+
+  const closeForm = () => {
+    setEditingId(null)
+    setForm(null)
+    setFormError(null)
+  }
+
+  const updateSlab = (index: number, field: keyof IncentiveSlab, value: string) => {
+    if (!form) return
+    setForm({
+      ...form,
+      slabs: form.slabs.map((slab, slabIndex) => (slabIndex === index ? { ...slab, [field]: value } : slab)),
+    })
+  }
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault()
+    if (!form) return
+    setIsSaving(true)
+    setFormError(null)
+
+    const isNew = editingId === 'new'
+    try {
+      const response = await fetch(isNew ? '/api/incentive-schemes' : `/api/incentive-schemes/${editingId}`, {
+        method: isNew ? 'POST' : 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          name: form.name,
+          effectiveFrom: form.effectiveFrom,
+          slabs: form.slabs.map((slab) => ({
+            minDepartments: Number(slab.minDepartments),
+            amount: Number(slab.amount),
+          })),
+          splitPolicy: form.splitPolicy,
+        }),
+      })
+      if (!response.ok) {
+        throw new Error(await readError(response, 'Failed to save scheme.'))
+      }
+      setMessage(isNew ? `Added scheme ${form.name}. Stored visits are being re-priced.` : `Saved scheme ${form.name}. Stored visits are being re-priced.`)
+      closeForm()
+      await loadSchemes()
+    } catch (err) {
+      setFormError(err instanceof Error ? err.message : 'Failed to save scheme.')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleDelete = async (scheme: IncentiveScheme) => {
+    if (!window.confirm(`Delete scheme "${scheme.name}"? Visits it paid will be re-priced by the previous scheme.`)) {
+      return
+    }
+    const response = await fetch(`/api/incentive-schemes/${scheme.id}`, { method: 'DELETE' })
+    if (!response.ok) {
+      setError(await readError(response, 'Failed to delete scheme.'))
+      return
+    }
+    setMessage(`Deleted scheme ${scheme.name}. Stored visits are being re-priced.`)
+    await loadSchemes()
+  }
+
+  // Newest version first, with the built-in default as the oldest
+  const versions = [...schemes].reverse()
+  if (defaultScheme) versions.push(defaultScheme)
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-gray-50 to-gray-100 dark:from-gray-900 dark:to-gray-800">
+      <header className="bg-white dark:bg-gray-800 shadow-sm border-b border-gray-200 dark:border-gray-700">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-4">
+          <div className="flex flex-col gap-2 sm:flex-row sm:items-center sm:justify-between">
+            <div>
+              <h1 className="text-2xl font-bold text-gray-900 dark:text-white">Incentive Schemes</h1>
+              <p className="text-sm text-gray-600 dark:text-gray-300">
+                Each visit is paid by the scheme in force on the visit date.
+              </p>
+            </div>
+            <button
+              onClick={openCreate}
+              className="px-4 py-2 bg-blue-600 text-white text-sm font-medium rounded-lg hover:bg-blue-700 transition-colors"
+            >
+              New Version
+            </button>
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {message && (
+          <div className="mb-6 p-4 bg-green-50 dark:bg-green-900/20 border border-green-200 dark:border-green-700 rounded-lg">
+            <p className="text-sm text-green-700 dark:text-green-300">{message}</p>
+          </div>
+        )}
+
+        {error && (
+          <div className="mb-6 p-4 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-700 rounded-lg">
+            <p className="text-sm text-red-600 dark:text-red-400">{error}</p>
+          </div>
+        )}
+
+        {form && (
+          <form
+            onSubmit={handleSubmit}
+            className="bg-white dark:bg-gray-800 rounded-lg shadow border border-gray-200 dark:border-gray-700 mb-6 p-6"
+          >
+            <h2 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">
+              {editingId === 'new' ? 'New Scheme Version' : 'Edit Scheme'}
+            </h2>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <label className="block">
+                <span className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Name</span>
+                <input
+                  type="text"
+                  required
+                  value={form.name}
+                  onChange={(e) => setForm({ ...form, name: e.target.value })}
+                  placeholder="e.g. Festive season 2026"
+                  className={inputClassName}
+                />
+              </label>
+              <label className="block">
+                <span className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Effective from</span>
+                <input
+                  type="date"
+                  required
+                  value={form.effectiveFrom}
+                  onChange={(e) => setForm({ ...form, effectiveFrom: e.target.value })}
+                  className={inputClassName}
+                />
+              </label>
+              <label className="block">
+                <span className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                  Visits handled by several salespersons
+                </span>
+                <select
+                  value={form.splitPolicy}
+                  onChange={(e) => setForm({ ...form, splitPolicy: e.target.value as SplitPolicy })}
+                  className={inputClassName}
+                >
+                  {SPLIT_POLICIES.map((policy) => (
+                    <option key={policy} value={policy}>{SPLIT_POLICY_LABELS[policy]}</option>
+                  ))}
+                </select>
+              </label>
+            </div>
+
+            <h3 className="mt-6 mb-2 text-sm font-semibold text-gray-700 dark:text-gray-200">Slabs</h3>
+            <p className="mb-3 text-xs text-gray-500 dark:text-gray-400">
+              A visit earns the amount of the highest slab whose department count it reaches.
+            </p>
+            <div className="space-y-2">
+              {form.slabs.map((slab, index) => (
+                <div key={index} className="flex items-center gap-3">
+                  <input
+                    type="number"
+                    min={1}
+                    required
+                    value={slab.minDepartments}
+                    onChange={(e) => updateSlab(index, 'minDepartments', e.target.value)}
+                    className={`${inputClassName} max-w-[8rem]`}
+                  />
+                  <span className="text-sm text-gray-600 dark:text-gray-400">or more departments pays ₹</span>
+                  <input
+                    type="number"
+                    min={0}
+                    required
+                    value={slab.amount}
+                    onChange={(e) => updateSlab(index, 'amount', e.target.value)}
+                    className={`${inputClassName} max-w-[8rem]`}
+                  />
+                  <button
+                    type="button"
+                    onClick={() => setForm({ ...form, slabs: form.slabs.filter((_, slabIndex) => slabIndex !== index) })}
+                    disabled={form.slabs.length === 1}
+                    className="text-sm text-red-600 dark:text-red-400 hover:underline disabled:opacity-50"
+                  >
+                    Remove
+                  </button>
+                </div>
+              ))}
+            </div>
+            <button
+              type="button"
+              onClick={() => setForm({ ...form, slabs: [...form.slabs, { minDepartments: '', amount: '' }] })}
+              className="mt-3 text-sm text-blue-600 dark:text-blue-400 hover:underline"
+            >
+              Add slab
+            </button>
+
+            {formError && (
+              <p className="mt-4 text-sm text-red-600 dark:text-red-400">{formError}</p>
+            )}
+            <div className="mt-6 flex gap-3">
+              <button
+                type="submit"
+                disabled={isSaving}
+                className="px-4 py-2 bg-blue-600 text-white text-sm font-medium rounded-lg hover:bg-blue-700 disabled:opacity-50 transition-colors"
+              >
+                {isSaving ? 'Saving…' : 'Save'}
+              </button>
+              <button
+                type="button"
+                onClick={closeForm}
+                className="px-4 py-2 bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 text-sm font-medium rounded-lg hover:bg-gray-200 dark:hover:bg-gray-600 transition-colors"
+              >
+                Cancel
+              </button>
+            </div>
+          </form>
+        )}
+
+        {isLoading && schemes.length === 0 && (
+          <div className="bg-white dark:bg-gray-800 rounded-lg shadow border border-gray-200 dark:border-gray-700 p-8">
+            <div className="text-center">
+              <p className="text-sm text-blue-600 dark:text-blue-400">Loading incentive schemes…</p>
+            </div>
+          </div>
+        )}
+
+        <div className="space-y-4">
+          {versions.map((scheme) => {
+            const isDefault = scheme.id === defaultScheme?.id
+            const isInForce = scheme.id === schemeInForce.id
+            return (
+              <div
+                key={scheme.id}
+                className={`bg-white dark:bg-gray-800 rounded-lg shadow border p-5 ${isInForce
+                  ? 'border-blue-500 dark:border-blue-400'
+                  : 'border-gray-200 dark:border-gray-700'
+                  }`}
+              >
+                <div className="flex flex-col gap-2 sm:flex-row sm:items-start sm:justify-between">
+                  <div>
+                    <div className="flex items-center gap-2">
+                      <h3 className="text-lg font-semibold text-gray-900 dark:text-white">{scheme.name}</h3>
+                      {isInForce && (
+                        <span className="px-2 py-1 rounded text-xs font-medium bg-blue-100 dark:bg-blue-900/30 text-blue-700 dark:text-blue-300">
+                          In force
+                        </span>
+                      )}
+                      {scheme.effectiveFrom > today && (
+                        <span className="px-2 py-1 rounded text-xs font-medium bg-yellow-100 dark:bg-yellow-900/30 text-yellow-700 dark:text-yellow-300">
+                          Upcoming
+                        </span>
+                      )}
+                    </div>
+                    <p className="text-sm text-gray-600 dark:text-gray-400">
+                      {isDefault
+                        ? schemes.length > 0
+                          ? 'Built-in; pays visits dated before the first stored scheme'
+                          : 'Built-in; pays every visit until a scheme is added'
+                        : `Effective from ${formatDisplayDate(scheme.effectiveFrom)}`}
+                    </p>
+                    <p className="text-sm text-gray-600 dark:text-gray-400">
+                      Shared visits: {SPLIT_POLICY_LABELS[scheme.splitPolicy]}
+                    </p>
+                  </div>
+                  {!isDefault && (
+                    <div className="flex gap-3 text-sm">
+                      <button onClick={() => openEdit(scheme)} className="text-blue-600 dark:text-blue-400 hover:underline">
+                        Edit
+                      </button>
+                      <button onClick={() => handleDelete(scheme)} className="text-red-600 dark:text-red-400 hover:underline">
+                        Delete
+                      </button>
+                    </div>
+                  )}
+                </div>
+                <ul className="mt-3 flex flex-wrap gap-2">
+                  {scheme.slabs.map((slab) => (
+                    <li
+                      key={slab.minDepartments}
+                      className="px-3 py-1 rounded-lg bg-gray-100 dark:bg-gray-700 text-sm text-gray-700 dark:text-gray-300"
+                    >
+                      {formatSlab(slab, scheme.slabs)}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )
+          })}
+        </div>
+      </main>
+    </div>
+  )
+}
@@ -1,8 +1,6 @@
 import type { Metadata } from 'next'
 import './globals.css'
 import { AuthProvider } from '@/contexts/AuthContext'
-import { ExcelDataProvider } from '@/contexts/ExcelDataContext'
-import { CallHistoryProvider } from '@/contexts/CallHistoryContext'
 import LayoutContent from '@/components/LayoutContent'
 
 export const metadata: Metadata = {
@@ -19,11 +17,7 @@ export default function RootLayout({
     <html lang="en">
       <body>
         <AuthProvider>
-          <ExcelDataProvider>
-            <CallHistoryProvider>
-              <LayoutContent>{children}</LayoutContent>
-            </CallHistoryProvider>
-          </ExcelDataProvider>
+          <LayoutContent>{children}</LayoutContent>
         </AuthProvider>
       </body>
     </html>
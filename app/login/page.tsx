@@ -5,29 +5,26 @@ import { useAuth } from '@/contexts/AuthContext'
 import { useRouter } from 'next/navigation'
 
 export default function LoginPage() {
-  const [username, setUsername] = useState('')
+  const [email, setEmail] = useState('')
   const [password, setPassword] = useState('')
   const [error, setError] = useState('')
   const [isLoading, setIsLoading] = useState(false)
   const { login } = useAuth()
   const router = useRouter()
 
-  const handleSubmit = (e: FormEvent<HTMLFormElement>) => {
+  const handleSubmit = async (e: FormEvent<HTMLFormElement>) => {
     e.preventDefault()
     setError('')
     setIsLoading(true)
 
-    // Simple delay to show loading state
-    setTimeout(() => {
-      const success = login(username, password)
-      
-      if (success) {
-        router.push('/')
-      } else {
-        setError('Invalid username or password')
-        setIsLoading(false)
-      }
-    }, 300)
+    const success = await login(email, password)
+
+    if (success) {
+      router.push('/')
+    } else {
+      setError('Invalid email or password')
+      setIsLoading(false)
+    }
   }
 
   return (
@@ -46,19 +43,19 @@ export default function LoginPage() {
           <form onSubmit={handleSubmit} className="space-y-6">
             <div>
               <label
-                htmlFor="username"
+                htmlFor="email"
                 className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2"
               >
-                Username
+                Email
               </label>
               <input
-                id="username"
-                type="text"
-                value={username}
-                onChange={(e) => setUsername(e.target.value)}
+                id="email"
+                type="email"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
                 required
                 className="w-full px-4 py-3 rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-                placeholder="Enter username"
+                placeholder="Enter email"
                 disabled={isLoading}
               />
             </div>
@@ -96,22 +93,6 @@ export default function LoginPage() {
               {isLoading ? 'Logging in...' : 'Login'}
             </button>
           </form>
-
-          <div className="mt-8 pt-6 border-t border-gray-200 dark:border-gray-700">
-            <p className="text-xs text-gray-500 dark:text-gray-400 text-center">
-              Demo Credentials:
-            </p>
-            <div className="mt-4 space-y-2 text-xs text-gray-600 dark:text-gray-400">
-              <div className="flex justify-between">
-                <span className="font-medium">Admin:</span>
-                <span>admin / admin123</span>
-              </div>
-              <div className="flex justify-between">
-                <span className="font-medium">Telecaller:</span>
-                <span>telecaller / telecaller123</span>
-              </div>
-            </div>
-          </div>
         </div>
       </div>
     </div>
@@ -0,0 +1,169 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import {
+  NON_VISIT_REASONS,
+  NON_VISIT_REASON_LABELS,
+  type NonVisitReasonGroup,
+  type NonVisitReasonReport,
+} from '@/lib/nonVisitReasons'
+
+const headerCellClassName = 'px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-gray-500 dark:text-gray-400'
+const cellClassName = 'px-6 py-4 whitespace-nowrap text-sm text-gray-900 dark:text-white'
+
+const readError = async (response: Response, fallback: string) => {
+  const data = await response.json().catch(() => null)
+  return data?.error ?? fallback
+}
+
+const formatShare = (count: number, total: number) => (total > 0 ? `${Math.round((count / total) * 100)}%` : '—')
+
+function ReasonTable({ title, description, nameLabel, groups }: {
+  title: string
+  description: string
+  nameLabel: string
+  groups: NonVisitReasonGroup[]
+}) {
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow border border-gray-200 dark:border-gray-700 mb-6">
+      <div className="p-6 border-b border-gray-200 dark:border-gray-700">
+        <h2 className="text-lg font-semibold text-gray-900 dark:text-white">{title}</h2>
+        <p className="text-sm text-gray-600 dark:text-gray-400">{description}</p>
+      </div>
+      {groups.length === 0 ? (
+        <p className="p-6 text-sm text-gray-500 dark:text-gray-400">Nothing to show yet.</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
+            <thead className="bg-gray-50 dark:bg-gray-900/40">
+              <tr>
+                <th className={headerCellClassName}>{nameLabel}</th>
+                <th className={headerCellClassName}>Reasons</th>
+                {NON_VISIT_REASONS.map((reason) => (
+                  <th key={reason} className={headerCellClassName}>{NON_VISIT_REASON_LABELS[reason]}</th>
+                ))}
+                <th className={headerCellClassName}>Salesperson Mentioned</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+              {groups.map((group) => (
+                <tr key={group.name}>
+                  <td className={`${cellClassName} font-medium capitalize`}>{group.name}</td>
+                  <td className={cellClassName}>{group.total}</td>
+                  {NON_VISIT_REASONS.map((reason) => (
+                    <td key={reason} className={cellClassName}>
+                      {group.counts[reason] > 0 ? (
+                        <>
+                          {group.counts[reason]}
+                          <span className="ml-1 text-xs text-gray-500 dark:text-gray-400">{formatShare(group.counts[reason], group.total)}</span>
+                        </>
+                      ) : (
+                        <span className="text-gray-400 dark:text-gray-500">—</span>
+                      )}
+                    </td>
+                  ))}
+                  <td className={cellClassName}>{formatShare(group.salespersonMentioned, group.total)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default function NonVisitReasonsPage() {
+  const [report, setReport] = useState<NonVisitReasonReport | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    fetch('/api/non-visit-reasons')
+      .then(async (response) => {
+        if (!response.ok) {
+          throw new Error(await readError(response, 'Failed to load non-visit reasons.'))
+        }
+        setReport(await response.json())
+      })
+      .catch((err) => {
+        console.error(err)
+        setError(err instanceof Error ? err.message : 'Failed to load non-visit reasons.')
+      })
+      .finally(() => setIsLoading(false))
+  }, [])
+
+  const topReason = report && report.totalReasons > 0
+    ? NON_VISIT_REASONS.reduce((top, reason) => (report.counts[reason] > report.counts[top] ? reason : top))
+    : null
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-gray-50 to-gray-100 dark:from-gray-900 dark:to-gray-800">
+      <header className="bg-white dark:bg-gray-800 shadow-sm border-b border-gray-200 dark:border-gray-700">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-4">
+          <h1 className="text-2xl font-bold text-gray-900 dark:text-white">Non-visit Reasons</h1>
+          <p className="text-sm text-gray-600 dark:text-gray-300">
+            Why customers skipped departments on their latest visit, as told to telecallers.
+          </p>
+        </div>
+      </header>
+
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {error && (
+          <div className="mb-6 p-4 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-700 rounded-lg">
+            <p className="text-sm text-red-600 dark:text-red-400">{error}</p>
+          </div>
+        )}
+
+        {isLoading ? (
+          <div className="bg-white dark:bg-gray-800 rounded-lg shadow border border-gray-200 dark:border-gray-700 p-8 text-center">
+            <p className="text-sm text-gray-600 dark:text-gray-400">Loading non-visit reasons...</p>
+          </div>
+        ) : report && report.totalReasons === 0 ? (
+          <div className="bg-white dark:bg-gray-800 rounded-lg shadow border border-gray-200 dark:border-gray-700 p-8 text-center">
+            <p className="text-sm text-gray-600 dark:text-gray-400">
+              No reasons have been captured yet. Telecallers record them on the feedback form of a connected call.
+            </p>
+          </div>
+        ) : report && (
+          <>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-6">
+              <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-6 border border-gray-200 dark:border-gray-700">
+                <p className="text-sm font-medium text-gray-600 dark:text-gray-400">Calls With Reasons</p>
+                <p className="text-3xl font-bold text-gray-900 dark:text-white mt-2">{report.totalCalls}</p>
+              </div>
+              <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-6 border border-gray-200 dark:border-gray-700">
+                <p className="text-sm font-medium text-gray-600 dark:text-gray-400">Reasons Captured</p>
+                <p className="text-3xl font-bold text-gray-900 dark:text-white mt-2">{report.totalReasons}</p>
+              </div>
+              <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-6 border border-gray-200 dark:border-gray-700">
+                <p className="text-sm font-medium text-gray-600 dark:text-gray-400">Top Reason</p>
+                <p className="text-xl font-bold text-gray-900 dark:text-white mt-2">
+                  {topReason ? NON_VISIT_REASON_LABELS[topReason] : '—'}
+                </p>
+                {topReason && (
+                  <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                    {formatShare(report.counts[topReason], report.totalReasons)} of reasons
+                  </p>
+                )}
+              </div>
+            </div>
+
+            <ReasonTable
+              title="By Department"
+              description="Reasons given for each skipped department."
+              nameLabel="Department"
+              groups={report.departments}
+            />
+            <ReasonTable
+              title="By Salesperson"
+              description="Reasons counted against every salesperson who served the visit the customer was asked about."
+              nameLabel="Salesperson"
+              groups={report.salespersons}
+            />
+          </>
+        )}
+      </main>
+    </div>
+  )
+}
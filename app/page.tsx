@@ -2,512 +2,49 @@
 
 import { Fragment, useEffect, useMemo, useState } from 'react'
 import * as XLSX from 'xlsx'
-import { useExcelData } from '@/contexts/ExcelDataContext'
 import { useAuth } from '@/contexts/AuthContext'
-import { useRouter } from 'next/navigation'
-import { normalizeDepartment, formatDepartmentCounter, MASTER_DEPARTMENTS } from '@/lib/departments'
-
-const UNKNOWN_DATE_KEY = '__unknown__'
-
-type BreakdownEntry = {
-  customerId: string
-  customerName: string | null
-  amount: number
-  departmentsVisited: number | null
-  visitedDepartments: string[]
-  handledDepartments: string[]
-  dateKey: string
-  dateIso: string | null
-  displayDate: string | null
-}
-
-type SalespersonMetric = {
-  name: string
-  departments: string[]
-  totalIncentive: number
-  breakdown: BreakdownEntry[]
-}
-
-type InternalBreakdown = {
-  name: string
-  breakdown: BreakdownEntry[]
-}
-
-type CustomerVisitInfo = {
-  customerId: string
-  customerName: string | null
-  departments: Set<string>
-  dateIso: string | null
-  dateKey: string
-}
-
-type ParsedWorkbook = {
-  metrics: SalespersonMetric[]
-  availableDates: string[]
-  dateLabels: Record<string, string>
-  uniqueSubCategories: string[]
-}
-
-const normalizeQuotes = (value: string) => value.replace(/[’‘]/g, "'")
-
-const stringifyCell = (value: string | number | Date | null): string => {
-  if (value === null || value === undefined) return ''
-  if (typeof value === 'number') {
-    if (!Number.isFinite(value)) return ''
-    return value.toString()
-  }
-  if (value instanceof Date) {
-    return value.toISOString()
-  }
-  return value.toString().trim()
-}
-
-const normalizeKey = (value: string | number | Date | null): string => {
-  const raw = normalizeQuotes(stringifyCell(value))
-  return raw.replace(/\s+/g, ' ').trim().toLowerCase()
-}
-
-const formatDisplayDate = (iso: string): string => {
-  const [year, month, day] = iso.split('-').map(Number)
-  const date = new Date(Date.UTC(year, month - 1, day))
-  return new Intl.DateTimeFormat('en-GB', {
-    day: '2-digit',
-    month: 'short',
-    year: 'numeric',
-  }).format(date)
-}
-
-const toIsoDate = (date: Date): string => date.toISOString().slice(0, 10)
-
-type DateInfo = {
-  key: string
-  iso: string | null
-  display: string | null
-}
-
-const parseDateCell = (value: string | number | Date | null): DateInfo => {
-  if (value === null || value === undefined || value === '') {
-    return { key: UNKNOWN_DATE_KEY, iso: null, display: null }
-  }
-
-  if (value instanceof Date) {
-    const iso = toIsoDate(value)
-    return { key: iso, iso, display: formatDisplayDate(iso) }
-  }
-
-  if (typeof value === 'number') {
-    const parsed = XLSX.SSF.parse_date_code(value)
-    if (parsed) {
-      const date = new Date(Date.UTC(parsed.y, parsed.m - 1, parsed.d))
-      const iso = toIsoDate(date)
-      return { key: iso, iso, display: formatDisplayDate(iso) }
-    }
-  }
-
-  const text = stringifyCell(value)
-  if (text === '') {
-    return { key: UNKNOWN_DATE_KEY, iso: null, display: null }
-  }
-
-  const parsedDate = new Date(text)
-  if (!Number.isNaN(parsedDate.getTime())) {
-    const iso = toIsoDate(parsedDate)
-    return { key: iso, iso, display: formatDisplayDate(iso) }
-  }
-
-  return {
-    key: normalizeKey(text) || UNKNOWN_DATE_KEY,
-    iso: null,
-    display: text,
-  }
-}
-
-const addDaysToIso = (iso: string, days: number): string => {
-  const [year, month, day] = iso.split('-').map(Number)
-  const date = new Date(Date.UTC(year, month - 1, day))
-  date.setUTCDate(date.getUTCDate() + days)
-  return toIsoDate(date)
+import { hasPermission } from '@/lib/permissions'
+import { BREAKDOWN_KIND_LABELS, type BreakdownEntry, type IncentiveMetrics, type SalespersonMetric } from '@/lib/incentiveParser'
+import type { ImportReport } from '@/lib/importReport'
+import { buildPayoutWorkbook, type SalespersonPayout } from '@/lib/incentiveExport'
+import { INCENTIVE_PERIOD_STATUS_LABELS, type IncentivePeriodStatus } from '@/lib/incentivePeriods'
+import { buildStatementPdf, buildStatementZip, statementFileName } from '@/lib/incentiveStatement'
+import { SPLIT_POLICY_LABELS } from '@/lib/incentiveSchemes'
+import { addDaysToIso, formatDisplayDate, type ColumnMapping } from '@/lib/workbookParser'
+import {
+  DEFAULT_PAY_PERIOD_SPLIT_DAY,
+  formatMonthLabel,
+  formatOrdinal,
+  formatRangeLabel,
+  isWithinRange,
+  monthRange,
+  payPeriodOf,
+  payPeriodRange,
+  precedingRange,
+  previousPayPeriod,
+  shiftMonth,
+  toMonthKey,
+  type DateRange,
+  type PayPeriodHalf,
+} from '@/lib/periods'
+import ColumnMappingWizard from '@/components/ColumnMappingWizard'
+import ImportReportPanel from '@/components/ImportReportPanel'
+import IncentiveCharts from '@/components/IncentiveCharts'
+import PeriodComparison from '@/components/PeriodComparison'
+
+type LockedPeriodInfo = DateRange & {
+  id: string
+  label: string
+  status: IncentivePeriodStatus
 }
 
-const calculateIncentiveForDepartments = (departmentCount: number): number => {
-  if (departmentCount >= 5) return 80
-  if (departmentCount === 4) return 60
-  if (departmentCount === 3) return 40
-  if (departmentCount === 2) return 20
-  return 0
+type IncentivesResponse = IncentiveMetrics & {
+  fileName: string | null
+  lockedPeriods: LockedPeriodInfo[]
+  splitDay: number
 }
 
-const parseWorkbook = (buffer: ArrayBuffer): ParsedWorkbook => {
-  const workbook = XLSX.read(buffer, { type: 'array' })
-  if (workbook.SheetNames.length === 0) {
-    throw new Error('The workbook does not contain any sheets.')
-  }
-
-  const sheet = workbook.Sheets[workbook.SheetNames[0]]
-  if (!sheet) {
-    throw new Error('Unable to read the first worksheet.')
-  }
-
-  const rows = XLSX.utils.sheet_to_json<(string | number | Date | null)[]>(sheet, {
-    header: 1,
-    blankrows: false,
-    defval: null,
-  })
-
-  if (rows.length === 0) {
-    throw new Error('The worksheet is empty.')
-  }
-
-  const HEADER_ROW_NUMBER = 4
-  const headerRowIndex =
-    HEADER_ROW_NUMBER - 1 < rows.length ? HEADER_ROW_NUMBER - 1 : rows.findIndex((row) => row.some((value) => stringifyCell(value) !== ''))
-  if (headerRowIndex === -1) {
-    throw new Error('Unable to locate a header row in the worksheet.')
-  }
-
-  const headerRow = rows[headerRowIndex]
-  const normalizedHeader = headerRow.map((cell) => normalizeQuotes(stringifyCell(cell)).trim())
-  const headerLookup = normalizedHeader.map((label) => label.toLowerCase())
-
-  // Debug: Log detected headers
-  console.log('Detected headers:', normalizedHeader)
-
-  const findHeaderIndex = (needles: string | string[], fromIndex = 0) => {
-    const targets = Array.isArray(needles) ? needles : [needles]
-    const loweredTargets = targets.map((item) => item.toLowerCase())
-    for (let index = fromIndex; index < headerLookup.length; index += 1) {
-      const headerLabel = headerLookup[index]
-      if (!headerLabel) continue
-      if (
-        loweredTargets.some(
-          (target) =>
-            headerLabel === target ||
-            headerLabel.includes(target) ||
-            normalizedHeader[index].toLowerCase() === target
-        )
-      ) {
-        return index
-      }
-    }
-    return -1
-  }
-
-  const voucherNoIndex = findHeaderIndex(['voucher no'])
-  const voucherDateIndex = findHeaderIndex(['voucher date', 'date'])
-  const firstSalesmanIndex = findHeaderIndex(['salesman name', 'sales person'])
-  const departmentNameIndex = findHeaderIndex(['department name', 'department', 'dept name', 'main category'])
-  const itemGroupIndex = findHeaderIndex(['itemgroup name', 'item group name', 'item group', 'sub category', 'subcategory'])
-  const counterIndex = findHeaderIndex(['counter name', 'counter'])
-  const firstMobileIndex = findHeaderIndex(['mobile1', 'customer id', 'customer mobile'])
-  const accountNameIndex = findHeaderIndex(['account name', 'customer name', 'account'])
-  const salesTypeIndex = findHeaderIndex(['sales type', 'type', 'transaction type', 'sale type'])
-
-  // Debug: Log column indices
-  console.log('Column indices:', {
-    voucherNoIndex,
-    voucherDateIndex,
-    firstSalesmanIndex,
-    departmentNameIndex,
-    itemGroupIndex,
-    counterIndex,
-    firstMobileIndex,
-    accountNameIndex,
-    salesTypeIndex,
-    headers: normalizedHeader
-  })
-
-  if (firstSalesmanIndex === -1 || itemGroupIndex === -1 || firstMobileIndex === -1) {
-    const missingColumns = []
-    if (firstSalesmanIndex === -1) missingColumns.push('Salesman Name')
-    if (itemGroupIndex === -1) missingColumns.push('Item Group Name')
-    if (firstMobileIndex === -1) missingColumns.push('Mobile1')
-    throw new Error(
-      `Failed to detect required columns: ${missingColumns.join(', ')}. ` +
-      `Found headers: ${normalizedHeader.filter(h => h).join(', ')}. ` +
-      `Please ensure your Excel file has columns named: "Salesman Name" (or "Sales Person"), "ItemGroup Name" (or "Item Group Name"), and "Mobile1" (or "Customer ID").`
-    )
-  }
-
-  const salesmanDepartments = new Map<string, { name: string; departments: Set<string> }>()
-  const customerVisits = new Map<string, CustomerVisitInfo>()
-  const customerSalesmen = new Map<
-    string,
-    Map<string, { name: string; departments: Set<string> }>
-  >()
-  const breakdownMap = new Map<string, InternalBreakdown>()
-  const availableDates = new Set<string>()
-  const dateLabels = new Map<string, string>()
-
-  // Track all unique Item Group Name values found in the data
-  const uniqueItemGroups = new Set<string>()
-
-  // Debug counters
-  let totalRowsProcessed = 0
-  let rowsSkippedSalesType = 0
-  let rowsProcessedSuccessfully = 0
-
-  for (let rowIndex = headerRowIndex + 1; rowIndex < rows.length; rowIndex += 1) {
-    const row = rows[rowIndex]
-    if (!row || row.every((cell) => stringifyCell(cell) === '')) {
-      continue
-    }
-
-    totalRowsProcessed++
-
-    // Extract Sales Type - ONLY process "Sale" transactions
-    // Make comparison case-insensitive and handle variations
-    const salesTypeRaw = salesTypeIndex !== -1 ? stringifyCell(row[salesTypeIndex]) : ''
-    const salesType = normalizeKey(salesTypeRaw)
-    const isSale = salesType === 'sale' || salesType === 'sales' || salesTypeRaw.toLowerCase() === 'sale'
-
-    // Skip ALL non-sale transactions (Return, Replacement, etc.)
-    // But only if Sales Type column exists and has a value
-    if (salesTypeIndex !== -1 && salesTypeRaw && !isSale) {
-      rowsSkippedSalesType++
-      continue
-    }
-
-    // If Sales Type column doesn't exist or is empty, process all rows (backward compatibility)
-
-    const dateInfo = voucherDateIndex !== -1 ? parseDateCell(row[voucherDateIndex]) : { key: UNKNOWN_DATE_KEY, iso: null, display: null }
-    if (dateInfo.iso) {
-      availableDates.add(dateInfo.iso)
-      if (!dateLabels.has(dateInfo.iso)) {
-        dateLabels.set(dateInfo.iso, dateInfo.display ?? formatDisplayDate(dateInfo.iso))
-      }
-    }
-
-    // Extract all fields
-    const rawSalesman = stringifyCell(row[firstSalesmanIndex])
-    const rawDepartmentName = departmentNameIndex !== -1 ? stringifyCell(row[departmentNameIndex]) : '' // Main category: Mens/Womens
-    const rawItemGroup = stringifyCell(row[itemGroupIndex]) // Sub-category: shutting shirting, men's ethnic, etc.
-    const rawCounter = counterIndex !== -1 ? stringifyCell(row[counterIndex]) : '' // Shop counter (billing location)
-    const rawCustomerFromTable1 = stringifyCell(row[firstMobileIndex])
-    const rawAccountName = accountNameIndex !== -1 ? stringifyCell(row[accountNameIndex]) : null
-    const voucherNo = voucherNoIndex !== -1 ? stringifyCell(row[voucherNoIndex]) : ''
-
-    const salesmanKey = normalizeKey(rawSalesman)
-    const customerKey = normalizeKey(rawCustomerFromTable1)
-
-    // Track unique Item Group Name values (sub-categories) found in the data
-    // Store both original and normalized versions to handle spelling variations
-    if (rawItemGroup && rawItemGroup.trim()) {
-      const trimmed = rawItemGroup.trim()
-      uniqueItemGroups.add(trimmed)
-    }
-
-    // Format department label using Item Group Name (sub-category) and counter
-    // Use the imported formatDepartmentCounter which normalizes department names
-    // For now, we'll use the raw Item Group Name with counter if formatDepartmentCounter doesn't match
-    let departmentLabel = formatDepartmentCounter(rawItemGroup, rawCounter)
-
-    // If formatDepartmentCounter returns empty (no match), use raw Item Group Name
-    if (!departmentLabel && rawItemGroup) {
-      if (rawCounter) {
-        departmentLabel = `${rawItemGroup.trim()} (${rawCounter})`
-      } else {
-        departmentLabel = rawItemGroup.trim()
-      }
-    }
-
-    // Debug: Log first few rows for troubleshooting
-    if (totalRowsProcessed <= 3) {
-      console.log('Sample row data:', {
-        rowIndex: rowIndex + 1,
-        rawSalesman,
-        rawDepartmentName,
-        rawItemGroup,
-        rawCounter,
-        rawCustomerFromTable1,
-        salesTypeRaw,
-        isSale,
-        departmentLabel
-      })
-    }
-
-    // Build salesman-department map (for general incentive calculation)
-    // Process ALL departments found in Item Group Name (no filtering)
-    if (salesmanKey && departmentLabel) {
-      if (!salesmanDepartments.has(salesmanKey)) {
-        salesmanDepartments.set(salesmanKey, {
-          name: rawSalesman || 'Unknown Salesman',
-          departments: new Set(),
-        })
-      }
-      salesmanDepartments.get(salesmanKey)!.departments.add(departmentLabel)
-      rowsProcessedSuccessfully++
-    }
-
-    // For customer-salesman mapping (used in incentive calculation)
-    // Process ALL rows that pass Sales Type filter (no department filtering)
-    if (salesmanKey && customerKey && departmentLabel) {
-      const visitKey = `${customerKey}__${dateInfo.key}`
-      if (!customerSalesmen.has(visitKey)) {
-        customerSalesmen.set(visitKey, new Map())
-      }
-      if (!customerSalesmen.get(visitKey)!.has(salesmanKey)) {
-        customerSalesmen
-          .get(visitKey)!
-          .set(salesmanKey, {
-            name: rawSalesman || 'Unknown Salesman',
-            departments: new Set<string>(),
-          })
-      }
-      customerSalesmen.get(visitKey)!.get(salesmanKey)!.departments.add(departmentLabel)
-    }
-
-    // For customer visits (used in incentive calculation)
-    // Process ALL rows that pass Sales Type filter (no department filtering)
-    if (customerKey && departmentLabel) {
-      const visitKey = `${customerKey}__${dateInfo.key}`
-      if (!customerVisits.has(visitKey)) {
-        customerVisits.set(visitKey, {
-          customerId: rawCustomerFromTable1,
-          customerName: rawAccountName || null,
-          departments: new Set<string>(),
-          dateIso: dateInfo.iso,
-          dateKey: dateInfo.key,
-        })
-      }
-      customerVisits.get(visitKey)!.departments.add(departmentLabel)
-    }
-
-    // Incentive table rows are no longer required; incentives will be calculated after parsing
-  }
-
-  customerVisits.forEach((visitInfo, visitKey) => {
-    const salesmenForVisit = customerSalesmen.get(visitKey)
-    if (!salesmenForVisit || salesmenForVisit.size === 0) {
-      return
-    }
-
-    const uniqueVisitedDepartments = new Set(visitInfo.departments)
-    salesmenForVisit.forEach(({ departments }) => {
-      departments.forEach((dept) => uniqueVisitedDepartments.add(dept))
-    })
-
-    const departmentsVisitedCount = uniqueVisitedDepartments.size
-
-    const incentiveAmount = calculateIncentiveForDepartments(departmentsVisitedCount)
-    if (incentiveAmount === 0) {
-      return
-    }
-
-    const displayDate = visitInfo.dateIso
-      ? dateLabels.get(visitInfo.dateIso) ?? formatDisplayDate(visitInfo.dateIso)
-      : null
-
-    salesmenForVisit.forEach(({ name, departments }, salesmanKey) => {
-      if (!breakdownMap.has(salesmanKey)) {
-        breakdownMap.set(salesmanKey, {
-          name,
-          breakdown: [],
-        })
-      }
-
-      breakdownMap.get(salesmanKey)!.breakdown.push({
-        customerId: visitInfo.customerId,
-        customerName: visitInfo.customerName,
-        amount: incentiveAmount,
-        departmentsVisited: departmentsVisitedCount,
-        visitedDepartments: Array.from(uniqueVisitedDepartments),
-        handledDepartments: Array.from(departments),
-        dateKey: visitInfo.dateKey,
-        dateIso: visitInfo.dateIso,
-        displayDate,
-      })
-    })
-  })
-
-  const metrics: SalespersonMetric[] = []
-
-  breakdownMap.forEach(({ name, breakdown }, key) => {
-    const departments = salesmanDepartments.get(key)?.departments ?? new Set<string>()
-    const sortedBreakdown = breakdown.sort((a, b) => {
-      if (a.dateIso && b.dateIso) {
-        if (a.dateIso !== b.dateIso) {
-          return b.dateIso.localeCompare(a.dateIso)
-        }
-      } else if (a.dateIso) {
-        return -1
-      } else if (b.dateIso) {
-        return 1
-      }
-      return b.amount - a.amount
-    })
-    const total = sortedBreakdown.reduce((sum, entry) => sum + entry.amount, 0)
-    metrics.push({
-      name,
-      departments: Array.from(departments),
-      totalIncentive: total,
-      breakdown: sortedBreakdown,
-    })
-  })
-
-  salesmanDepartments.forEach(({ name, departments }, key) => {
-    if (!breakdownMap.has(key)) {
-      metrics.push({
-        name,
-        departments: Array.from(departments),
-        totalIncentive: 0,
-        breakdown: [],
-      })
-    }
-  })
-
-  const sortedMetrics = metrics.sort((a, b) => b.totalIncentive - a.totalIncentive || a.name.localeCompare(b.name))
-  const availableDatesList = Array.from(availableDates).sort()
-  const dateLabelRecord = Object.fromEntries(dateLabels.entries())
-
-  // Get unique sub-categories (Item Group Names) found in the data
-  const uniqueItemGroupsArray = Array.from(uniqueItemGroups)
-    .filter(item => item && item.trim() !== '') // Remove empty values
-    .sort() // Sort alphabetically
-
-  // Debug logging
-  console.log('=== PARSING STATISTICS ===')
-  console.log('Total rows processed:', totalRowsProcessed)
-  console.log('Rows skipped (non-Sale):', rowsSkippedSalesType)
-  console.log('Rows processed successfully:', rowsProcessedSuccessfully)
-  console.log('Customer visits:', customerVisits.size)
-  console.log('Salesmen found:', salesmanDepartments.size)
-  console.log('Metrics calculated:', sortedMetrics.length)
-  console.log('=== UNIQUE SUB-CATEGORIES (Item Group Names) ===')
-  console.log('Total unique sub-categories found:', uniqueItemGroupsArray.length)
-  console.log('Sub-categories:', uniqueItemGroupsArray)
-  console.log('=== COLUMN DETECTION ===')
-  console.log({
-    itemGroupIndex,
-    salesTypeIndex,
-    departmentNameIndex,
-    firstSalesmanIndex,
-    firstMobileIndex,
-    counterIndex,
-    accountNameIndex,
-    voucherNoIndex,
-    voucherDateIndex
-  })
-
-  // If no data found, throw helpful error
-  if (sortedMetrics.length === 0 && totalRowsProcessed > 0) {
-    throw new Error(
-      `No valid data found. ` +
-      `Processed ${totalRowsProcessed} rows. ` +
-      `Skipped ${rowsSkippedSalesType} rows (non-Sale transactions). ` +
-      `Found ${uniqueItemGroupsArray.length} unique Item Group Names: ${uniqueItemGroupsArray.slice(0, 10).join(', ')}${uniqueItemGroupsArray.length > 10 ? '...' : ''}. ` +
-      `Please check: 1) Sales Type = "Sale" (if column exists), 2) Item Group Name column has values, 3) Salesman Name and Mobile1 columns exist`
-    )
-  }
-
-  return {
-    metrics: sortedMetrics,
-    availableDates: availableDatesList,
-    dateLabels: dateLabelRecord,
-    uniqueSubCategories: uniqueItemGroupsArray,
-  }
-}
-
-type Timeframe = 'all' | 'day' | 'week'
+type Timeframe = 'all' | 'day' | 'week' | 'month' | 'payPeriod' | 'range'
 
 type ComputedMetric = SalespersonMetric & {
   filteredBreakdown: BreakdownEntry[]
@@ -519,14 +56,23 @@ type DetailViewMode = 'departments' | 'incentives'
 
 type ExpandedGroupState = Record<string, boolean>
 
-const toTimestamp = (iso: string) => new Date(`${iso}T00:00:00Z`).getTime()
+const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = fileName
+  link.click()
+  URL.revokeObjectURL(url)
+}
 
 export default function Dashboard() {
   const { user } = useAuth()
-  const router = useRouter()
-  const { setExcelData, fileName: contextFileName } = useExcelData()
+  const canUpload = hasPermission(user?.role, 'UPLOAD_WORKBOOKS')
+  const canViewAll = hasPermission(user?.role, 'VIEW_INCENTIVES')
+  const [fileName, setFileName] = useState<string | null>(null)
   const [rawMetrics, setRawMetrics] = useState<SalespersonMetric[]>([])
   const [availableDates, setAvailableDates] = useState<string[]>([])
+  const [lockedPeriods, setLockedPeriods] = useState<LockedPeriodInfo[]>([])
   const [dateLabels, setDateLabels] = useState<Record<string, string>>({})
   const [uniqueSubCategories, setUniqueSubCategories] = useState<string[]>([])
   const [selectedSalespersonName, setSelectedSalespersonName] = useState<string | null>(null)
@@ -535,79 +81,72 @@ export default function Dashboard() {
   const [timeframe, setTimeframe] = useState<Timeframe>('all')
   const [selectedDay, setSelectedDay] = useState('')
   const [weekStart, setWeekStart] = useState('')
+  const [selectedMonth, setSelectedMonth] = useState('')
+  const [payPeriodHalf, setPayPeriodHalf] = useState<PayPeriodHalf>('first')
+  const [splitDay, setSplitDay] = useState(DEFAULT_PAY_PERIOD_SPLIT_DAY)
+  const [rangeFrom, setRangeFrom] = useState('')
+  const [rangeTo, setRangeTo] = useState('')
   const [isParsing, setIsParsing] = useState(false)
+  const [pendingFiles, setPendingFiles] = useState<File[]>([])
+  const [importReport, setImportReport] = useState<{ report: ImportReport; uploadId: string | null } | null>(null)
   const [error, setError] = useState<string | null>(null)
   const [showCustomerModal, setShowCustomerModal] = useState(false)
-
-  // Protect route - only Admin can access incentive page
-  useEffect(() => {
-    if (user && user.role !== 'ADMIN') {
-      router.push('/customers') // Redirect telecaller to CRM page
-    }
-  }, [user, router])
-
-  // Show access denied if not admin
-  if (user && user.role !== 'ADMIN') {
-    return (
-      <div className="min-h-screen bg-gradient-to-br from-gray-50 to-gray-100 dark:from-gray-900 dark:to-gray-800 flex items-center justify-center">
-        <div className="bg-white dark:bg-gray-800 rounded-lg shadow border border-gray-200 dark:border-gray-700 p-8 max-w-md">
-          <div className="text-center">
-            <svg className="mx-auto h-12 w-12 text-red-500 mb-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-3L13.732 4c-.77-1.333-2.694-1.333-3.464 0L3.34 16c-.77 1.333.192 3 1.732 3z" />
-            </svg>
-            <h2 className="text-xl font-bold text-gray-900 dark:text-white mb-2">Access Denied</h2>
-            <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">
-              This page is only accessible to Administrators.
-            </p>
-            <button
-              onClick={() => router.push('/customers')}
-              className="bg-blue-600 hover:bg-blue-700 text-white font-semibold py-2 px-4 rounded-lg transition-colors"
-            >
-              Go to Customer Details
-            </button>
-          </div>
-        </div>
-      </div>
-    )
-  }
+  const [isBuildingStatements, setIsBuildingStatements] = useState(false)
 
   useEffect(() => {
     if (availableDates.length > 0) {
       const latest = availableDates[availableDates.length - 1]
       setSelectedDay((current) => (current ? current : latest))
       setWeekStart((current) => (current ? current : latest))
+      setSelectedMonth((current) => (current ? current : toMonthKey(latest)))
+      setRangeFrom((current) => (current ? current : availableDates[0]))
+      setRangeTo((current) => (current ? current : latest))
     } else {
       setSelectedDay('')
       setWeekStart('')
+      setSelectedMonth('')
+      setRangeFrom('')
+      setRangeTo('')
     }
   }, [availableDates])
 
-  const filterPredicate = useMemo(() => {
-    if (timeframe === 'all') {
-      return () => true
+  // Inclusive date range of the current timeframe; null means all time or an incomplete selection
+  const selectedRange = useMemo<DateRange | null>(() => {
+    switch (timeframe) {
+      case 'day':
+        return selectedDay ? { from: selectedDay, to: selectedDay } : null
+      case 'week':
+        return weekStart ? { from: weekStart, to: addDaysToIso(weekStart, 6) } : null
+      case 'month':
+        return selectedMonth ? monthRange(selectedMonth) : null
+      case 'payPeriod':
+        return selectedMonth ? payPeriodRange(selectedMonth, payPeriodHalf, splitDay) : null
+      case 'range':
+        return rangeFrom && rangeTo && rangeFrom <= rangeTo ? { from: rangeFrom, to: rangeTo } : null
+      default:
+        return null
     }
+  }, [timeframe, selectedDay, weekStart, selectedMonth, payPeriodHalf, splitDay, rangeFrom, rangeTo])
 
-    if (timeframe === 'day') {
-      return (entry: BreakdownEntry) => {
-        if (!selectedDay) return false
-        return entry.dateIso === selectedDay
-      }
+  // Period the current one is compared with: the previous month or pay period, otherwise the same number of days before
+  const comparisonRange = useMemo<DateRange | null>(() => {
+    if (!selectedRange) return null
+    if (timeframe === 'month') {
+      return monthRange(shiftMonth(selectedMonth, -1))
+    }
+    if (timeframe === 'payPeriod') {
+      const previous = previousPayPeriod(selectedMonth, payPeriodHalf)
+      return payPeriodRange(previous.month, previous.half, splitDay)
     }
+    return precedingRange(selectedRange)
+  }, [selectedRange, timeframe, selectedMonth, payPeriodHalf, splitDay])
 
-    return (entry: BreakdownEntry) => {
-      if (!weekStart) return false
-      if (!entry.dateIso) return false
-      const startTs = toTimestamp(weekStart)
-      if (Number.isNaN(startTs)) return false
-      const endIso = addDaysToIso(weekStart, 6)
-      const endTs = toTimestamp(endIso)
-      const entryTs = toTimestamp(entry.dateIso)
-      if (Number.isNaN(entryTs) || Number.isNaN(endTs)) {
-        return false
-      }
-      return entryTs >= startTs && entryTs <= endTs
+  const filterPredicate = useMemo(() => {
+    if (timeframe === 'all') {
+      return () => true
     }
-  }, [timeframe, selectedDay, weekStart])
+    return (entry: BreakdownEntry) => (selectedRange ? isWithinRange(entry.dateIso, selectedRange) : false)
+  }, [timeframe, selectedRange])
 
   const computedMetrics = useMemo<ComputedMetric[]>(() => {
     return rawMetrics
@@ -631,7 +170,9 @@ export default function Dashboard() {
       metric.filteredBreakdown.forEach((entry) => set.add(entry.customerId))
       return set
     }, new Set<string>())
-    const totalSalespeople = rawMetrics.length
+    const totalSalespeople = timeframe === 'all'
+      ? rawMetrics.length
+      : computedMetrics.filter((metric) => metric.filteredBreakdown.length > 0).length
     const highest = computedMetrics[0]?.filteredTotal ?? 0
     const average = totalSalespeople > 0 ? totalIncentive / totalSalespeople : 0
     return {
@@ -641,7 +182,7 @@ export default function Dashboard() {
       highestIndividual: highest,
       averagePayout: average,
     }
-  }, [computedMetrics, rawMetrics.length])
+  }, [computedMetrics, rawMetrics.length, timeframe])
 
   const topPerformer = computedMetrics[0]
 
@@ -650,45 +191,71 @@ export default function Dashboard() {
     return computedMetrics.find((metric) => metric.name === selectedSalespersonName) ?? null
   }, [computedMetrics, selectedSalespersonName])
 
-  const handleUpload = async (file: File) => {
+  const applyIncentives = (data: IncentivesResponse) => {
+    setRawMetrics(data.metrics)
+    setAvailableDates(data.availableDates)
+    setDateLabels(data.dateLabels)
+    setFileName(data.fileName)
+    setLockedPeriods(data.lockedPeriods)
+    setSplitDay(data.splitDay)
+    setSelectedDay(data.availableDates[data.availableDates.length - 1] ?? '')
+    setWeekStart(data.availableDates[data.availableDates.length - 1] ?? '')
+    setSelectedMonth(data.availableDates.length > 0 ? toMonthKey(data.availableDates[data.availableDates.length - 1]) : '')
+    setRangeFrom(data.availableDates[0] ?? '')
+    setRangeTo(data.availableDates[data.availableDates.length - 1] ?? '')
+  }
+
+  const loadIncentives = async () => {
+    const response = await fetch('/api/incentives')
+    if (!response.ok) {
+      throw new Error('Failed to load incentive data.')
+    }
+    applyIncentives(await response.json())
+  }
+
+  // Load stored incentives on mount
+  useEffect(() => {
+    setIsParsing(true)
+    loadIncentives()
+      .catch((err) => setError(err instanceof Error ? err.message : 'Failed to load incentive data.'))
+      .finally(() => setIsParsing(false))
+  }, [])
+
+  const handleUpload = async (
+    files: File[],
+    mapping: ColumnMapping,
+    sheets: string[][],
+    templateName: string | null
+  ) => {
+    setPendingFiles([])
     setIsParsing(true)
     setError(null)
+    setImportReport(null)
     setSelectedSalespersonName(null)
 
     try {
-      const buffer = await file.arrayBuffer()
-      // Store in context for use in other pages
-      setExcelData(buffer, file.name)
-      // Parse for incentive calculations
-      const parsed = parseWorkbook(buffer)
-
-      // Debug logging
-      console.log('Parsed workbook:', {
-        metricsCount: parsed.metrics.length,
-        availableDates: parsed.availableDates.length,
-        metrics: parsed.metrics.map(m => ({
-          name: m.name,
-          totalIncentive: m.totalIncentive,
-          breakdownCount: m.breakdown.length
-        }))
-      })
-
-      if (parsed.metrics.length === 0) {
-        setError('No data found. Please check: 1) Sales Type column contains "Sale" values, 2) Item Group Name matches the 6 departments (shutting shirting, men\'s ethnic, kurta, men\'s readymade, sarees, women\'s ethnic), 3) Required columns exist (Salesman Name, Item Group Name, Mobile1).')
+      // Parse and persist on the server, then reload the stored totals
+      const formData = new FormData()
+      files.forEach((file) => formData.append('file', file))
+      formData.append('mapping', JSON.stringify(mapping))
+      formData.append('sheets', JSON.stringify(sheets))
+      if (templateName) {
+        formData.append('templateName', templateName)
+      }
+      const response = await fetch('/api/excel/upload', { method: 'POST', body: formData })
+      const result = await response.json()
+      if (result.report) {
+        setImportReport({ report: result.report, uploadId: result.upload?.id ?? null })
+      }
+      if (!response.ok) {
+        throw new Error(result.error ?? 'Failed to upload Excel file.')
       }
 
-      setRawMetrics(parsed.metrics)
-      setAvailableDates(parsed.availableDates)
-      setDateLabels(parsed.dateLabels)
-      setUniqueSubCategories(parsed.uniqueSubCategories)
+      setUniqueSubCategories(result.uniqueSubCategories)
+      await loadIncentives()
       setTimeframe('all')
-      setSelectedDay(parsed.availableDates[parsed.availableDates.length - 1] ?? '')
-      setWeekStart(parsed.availableDates[parsed.availableDates.length - 1] ?? '')
     } catch (err) {
-      console.error('Parse error:', err)
-      setRawMetrics([])
-      setAvailableDates([])
-      setDateLabels({})
+      console.error('Upload error:', err)
       setError(err instanceof Error ? err.message : 'Failed to parse Excel file. Please check the file format and ensure all required columns exist.')
     } finally {
       setIsParsing(false)
@@ -696,11 +263,14 @@ export default function Dashboard() {
   }
 
   const onFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0]
-    if (!file) {
+    const files = Array.from(event.target.files ?? [])
+    event.target.value = ''
+    if (files.length === 0) {
       return
     }
-    handleUpload(file)
+    // Preview and confirm the column mapping and sheets before importing
+    setError(null)
+    setPendingFiles(files)
   }
 
   const timeframeLabel = useMemo(() => {
@@ -711,12 +281,77 @@ export default function Dashboard() {
       if (!selectedDay) return 'Select a day'
       return dateLabels[selectedDay] ?? formatDisplayDate(selectedDay)
     }
-    if (!weekStart) return 'Select a week'
-    const weekEnd = addDaysToIso(weekStart, 6)
-    const startLabel = dateLabels[weekStart] ?? formatDisplayDate(weekStart)
-    const endLabel = dateLabels[weekEnd] ?? formatDisplayDate(weekEnd)
-    return `${startLabel} – ${endLabel}`
-  }, [dateLabels, selectedDay, timeframe, weekStart])
+    if (timeframe === 'week') {
+      if (!weekStart) return 'Select a week'
+      const weekEnd = addDaysToIso(weekStart, 6)
+      const startLabel = dateLabels[weekStart] ?? formatDisplayDate(weekStart)
+      const endLabel = dateLabels[weekEnd] ?? formatDisplayDate(weekEnd)
+      return `${startLabel} – ${endLabel}`
+    }
+    if (timeframe === 'month') {
+      return selectedMonth ? formatMonthLabel(selectedMonth) : 'Select a month'
+    }
+    if (timeframe === 'payPeriod') {
+      if (!selectedRange) return 'Select a pay period'
+      return `${formatMonthLabel(selectedMonth)}, ${payPeriodHalf === 'first' ? '1st' : '2nd'} pay period (${formatRangeLabel(selectedRange)})`
+    }
+    if (!selectedRange) return rangeFrom && rangeTo ? 'The start date must not be after the end date' : 'Select a date range'
+    return formatRangeLabel(selectedRange)
+  }, [dateLabels, selectedDay, timeframe, weekStart, selectedMonth, payPeriodHalf, selectedRange, rangeFrom, rangeTo])
+
+  // File name suffix for exports of the current timeframe
+  const periodSuffix = (() => {
+    switch (timeframe) {
+      case 'all':
+        return 'all-time'
+      case 'day':
+        return selectedDay
+      case 'week':
+        return `week-${weekStart}`
+      case 'month':
+        return selectedMonth
+      case 'payPeriod':
+        return `${selectedMonth}-${payPeriodHalf === 'first' ? 'p1' : 'p2'}`
+      default:
+        return `${rangeFrom}-to-${rangeTo}`
+    }
+  })()
+
+  // Locked periods the current timeframe touches; their amounts are frozen snapshots
+  const lockedInView = lockedPeriods.filter((period) =>
+    timeframe === 'all' || (selectedRange !== null && period.from <= selectedRange.to && period.to >= selectedRange.from)
+  )
+
+  // Exports need a complete selection so the file matches its period label
+  const hasValidPeriod = timeframe === 'all' || selectedRange !== null
+
+  const toPayout = (metric: ComputedMetric): SalespersonPayout => ({
+    name: metric.name,
+    breakdown: metric.filteredBreakdown,
+    total: metric.filteredTotal,
+    customersCount: metric.customersCount,
+  })
+
+  // Download the payouts of the current timeframe for payroll
+  const exportPayouts = () => {
+    const workbook = buildPayoutWorkbook(computedMetrics.map(toPayout), timeframeLabel)
+    XLSX.writeFile(workbook, `incentive-payouts-${periodSuffix}.xlsx`)
+  }
+
+  const downloadStatement = (metric: ComputedMetric) => {
+    const pdf = buildStatementPdf(toPayout(metric), timeframeLabel)
+    downloadBlob(new Blob([pdf], { type: 'application/pdf' }), statementFileName(metric.name, periodSuffix))
+  }
+
+  const downloadAllStatements = async () => {
+    setIsBuildingStatements(true)
+    try {
+      const payouts = computedMetrics.filter((metric) => metric.filteredBreakdown.length > 0).map(toPayout)
+      downloadBlob(await buildStatementZip(payouts, timeframeLabel, periodSuffix), `incentive-statements-${periodSuffix}.zip`)
+    } finally {
+      setIsBuildingStatements(false)
+    }
+  }
 
   const groupedBreakdown = useMemo(() => {
     if (!selectedSalesperson) return []
@@ -763,13 +398,13 @@ export default function Dashboard() {
           <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-6 border border-gray-200 dark:border-gray-700">
             <p className="text-sm font-medium text-gray-600 dark:text-gray-400">Total Incentive</p>
             <p className="text-3xl font-bold text-gray-900 dark:text-white mt-3">₹{stats.totalIncentive.toLocaleString()}</p>
-            <p className="text-xs text-gray-500 dark:text-gray-400 mt-2">Sum of incentives across all filtered salespeople.</p>
+            <p className="text-xs text-gray-500 dark:text-gray-400 mt-2">Sum of incentives across all salespeople in {timeframeLabel}.</p>
           </div>
 
           <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-6 border border-gray-200 dark:border-gray-700">
             <p className="text-sm font-medium text-gray-600 dark:text-gray-400">Salespeople</p>
             <p className="text-3xl font-bold text-gray-900 dark:text-white mt-3">{stats.totalSalespeople}</p>
-            <p className="text-xs text-gray-500 dark:text-gray-400 mt-2">Unique salespersons found in the workbook.</p>
+            <p className="text-xs text-gray-500 dark:text-gray-400 mt-2">{timeframe === 'all' ? 'Unique salespersons found in the workbook.' : 'Salespersons with incentive entries in the selected timeline.'}</p>
           </div>
 
           <div
@@ -797,25 +432,36 @@ export default function Dashboard() {
               </p>
             </div>
             <div className="p-6 space-y-4">
-              <label className="block">
-                <span className="text-sm font-medium text-gray-700 dark:text-gray-300">Select file</span>
-                <input
-                  type="file"
-                  accept=".xlsx,.xls"
-                  onChange={onFileChange}
-                  className="mt-2 block w-full text-sm text-gray-900 dark:text-gray-100 file:mr-4 file:py-2 file:px-4 file:rounded-md file:border-0 file:text-sm file:font-semibold file:bg-blue-50 file:text-blue-700 hover:file:bg-blue-100"
+              {canUpload && pendingFiles.length > 0 && (
+                <ColumnMappingWizard
+                  files={pendingFiles}
+                  onImport={(mapping, sheets, templateName) => handleUpload(pendingFiles, mapping, sheets, templateName)}
+                  onCancel={() => setPendingFiles([])}
                 />
-              </label>
-              {contextFileName && (
-                <p className="text-sm text-gray-600 dark:text-gray-400">Uploaded file: {contextFileName}</p>
               )}
-              {isParsing && <p className="text-sm text-blue-600 dark:text-blue-400">Parsing workbook…</p>}
+              {canUpload && pendingFiles.length === 0 && (
+                <label className="block">
+                  <span className="text-sm font-medium text-gray-700 dark:text-gray-300">Select one or more files</span>
+                  <input
+                    type="file"
+                    accept=".xlsx,.xls"
+                    multiple
+                    onChange={onFileChange}
+                    className="mt-2 block w-full text-sm text-gray-900 dark:text-gray-100 file:mr-4 file:py-2 file:px-4 file:rounded-md file:border-0 file:text-sm file:font-semibold file:bg-blue-50 file:text-blue-700 hover:file:bg-blue-100"
+                  />
+                </label>
+              )}
+              {fileName && (
+                <p className="text-sm text-gray-600 dark:text-gray-400">Last uploaded file: {fileName}</p>
+              )}
+              {isParsing && <p className="text-sm text-blue-600 dark:text-blue-400">Processing workbook…</p>}
               {error && (
                 <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-700 rounded-lg p-4">
                   <p className="text-sm font-semibold text-red-600 dark:text-red-400 mb-2">Error parsing file:</p>
                   <p className="text-sm text-red-600 dark:text-red-400 whitespace-pre-wrap">{error}</p>
                 </div>
               )}
+              {importReport && <ImportReportPanel report={importReport.report} uploadId={importReport.uploadId} />}
               {uniqueSubCategories.length > 0 && (
                 <div className="bg-blue-50 dark:bg-blue-900/20 border border-blue-200 dark:border-blue-700 rounded-lg p-4">
                   <p className="text-sm font-semibold text-blue-800 dark:text-blue-300 mb-2">
@@ -891,12 +537,20 @@ export default function Dashboard() {
                     if (value === 'week' && weekStart === '' && availableDates.length > 0) {
                       setWeekStart(availableDates[availableDates.length - 1])
                     }
+                    if ((value === 'month' || value === 'payPeriod') && selectedMonth === '' && availableDates.length > 0) {
+                      const latest = availableDates[availableDates.length - 1]
+                      setSelectedMonth(toMonthKey(latest))
+                      setPayPeriodHalf(payPeriodOf(latest, splitDay).half)
+                    }
                   }}
                   className="rounded-md border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 px-3 py-2 text-sm text-gray-900 dark:text-gray-100 focus:outline-none focus:ring-2 focus:ring-blue-500"
                 >
                   <option value="all">All time</option>
                   <option value="day">Specific day</option>
                   <option value="week">Specific week</option>
+                  <option value="month">Calendar month</option>
+                  <option value="payPeriod">Pay period</option>
+                  <option value="range">Custom range</option>
                 </select>
                 {timeframe === 'day' && (
                   <input
@@ -914,14 +568,62 @@ export default function Dashboard() {
                     className="rounded-md border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 px-3 py-2 text-sm text-gray-900 dark:text-gray-100 focus:outline-none focus:ring-2 focus:ring-blue-500"
                   />
                 )}
+                {(timeframe === 'month' || timeframe === 'payPeriod') && (
+                  <input
+                    type="month"
+                    value={selectedMonth}
+                    onChange={(event) => setSelectedMonth(event.target.value)}
+                    className="rounded-md border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 px-3 py-2 text-sm text-gray-900 dark:text-gray-100 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                )}
+                {timeframe === 'payPeriod' && (
+                  <select
+                    value={payPeriodHalf}
+                    onChange={(event) => setPayPeriodHalf(event.target.value as PayPeriodHalf)}
+                    className="rounded-md border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 px-3 py-2 text-sm text-gray-900 dark:text-gray-100 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  >
+                    <option value="first">1st – {formatOrdinal(splitDay)}</option>
+                    <option value="second">{formatOrdinal(splitDay + 1)} – month end</option>
+                  </select>
+                )}
+                {timeframe === 'range' && (
+                  <div className="flex items-center gap-2">
+                    <input
+                      type="date"
+                      value={rangeFrom}
+                      max={rangeTo || undefined}
+                      onChange={(event) => setRangeFrom(event.target.value)}
+                      className="rounded-md border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 px-3 py-2 text-sm text-gray-900 dark:text-gray-100 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    />
+                    <span className="text-sm text-gray-500 dark:text-gray-400">to</span>
+                    <input
+                      type="date"
+                      value={rangeTo}
+                      min={rangeFrom || undefined}
+                      onChange={(event) => setRangeTo(event.target.value)}
+                      className="rounded-md border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 px-3 py-2 text-sm text-gray-900 dark:text-gray-100 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    />
+                  </div>
+                )}
               </div>
             </div>
             <div className="px-6 py-4 text-sm text-gray-600 dark:text-gray-400">
               Current view: {timeframeLabel}
+              {lockedInView.length > 0 && (
+                <p className="mt-1 text-xs text-yellow-700 dark:text-yellow-400">
+                  Includes locked {lockedInView.length === 1 ? 'period' : 'periods'}:{' '}
+                  {lockedInView.map((period) => `${period.label} (${INCENTIVE_PERIOD_STATUS_LABELS[period.status]})`).join(', ')}.
+                  Later changes to them appear as adjustments in the following period.
+                </p>
+              )}
             </div>
           </div>
         </div>
 
+        {rawMetrics.length > 0 && hasValidPeriod && (
+          <IncentiveCharts metrics={rawMetrics} range={timeframe === 'all' ? null : selectedRange} />
+        )}
+
         <div className="mt-8 bg-white dark:bg-gray-800 rounded-lg shadow border border-gray-200 dark:border-gray-700">
           <div className="p-6 border-b border-gray-200 dark:border-gray-700 flex flex-col gap-2 sm:flex-row sm:items-center sm:justify-between">
             <div>
@@ -930,8 +632,26 @@ export default function Dashboard() {
                 Click a row to view the detailed incentive breakdown for the selected timeline.
               </p>
             </div>
-            <div className="text-sm text-gray-600 dark:text-gray-400">
-              Showing {computedMetrics.length} salespeople
+            <div className="flex items-center gap-4">
+              <div className="text-sm text-gray-600 dark:text-gray-400">
+                Showing {computedMetrics.length} salespeople
+              </div>
+              <button
+                onClick={exportPayouts}
+                disabled={!hasValidPeriod || computedMetrics.length === 0}
+                className="px-4 py-2 bg-blue-600 text-white text-sm font-medium rounded-lg hover:bg-blue-700 disabled:opacity-50 transition-colors"
+              >
+                Export
+              </button>
+              {canViewAll && (
+                <button
+                  onClick={downloadAllStatements}
+                  disabled={isBuildingStatements || !hasValidPeriod || computedMetrics.length === 0}
+                  className="px-4 py-2 bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 text-sm font-medium rounded-lg hover:bg-gray-200 dark:hover:bg-gray-600 disabled:opacity-50 transition-colors"
+                >
+                  {isBuildingStatements ? 'Preparing…' : 'Statements (zip)'}
+                </button>
+              )}
             </div>
           </div>
 
@@ -985,6 +705,13 @@ export default function Dashboard() {
                                   </p>
                                 </div>
                                 <div className="flex items-center gap-2">
+                                  <button
+                                    type="button"
+                                    onClick={() => downloadStatement(metric)}
+                                    className="rounded-md px-3 py-2 text-xs font-medium bg-white dark:bg-gray-800 text-blue-600 dark:text-blue-400 border border-gray-300 dark:border-gray-600"
+                                  >
+                                    Statement (PDF)
+                                  </button>
                                   <button
                                     type="button"
                                     onClick={() => setDetailViewMode('departments')}
@@ -1073,10 +800,39 @@ export default function Dashboard() {
                                                       )}
                                                     </p>
                                                     <p className="text-xs text-gray-600 dark:text-gray-400">
-                                                      Departments visited: {entry.departmentsVisited ?? 'Unknown'}
+                                                      {entry.kind === 'ADJUSTMENT'
+                                                        ? 'Locked period correction'
+                                                        : `${entry.kind === 'CLAWBACK' ? 'Departments after return' : 'Departments visited'}: ${entry.departmentsVisited ?? 'Unknown'}`}
                                                     </p>
+                                                    {entry.reason && (
+                                                      <p
+                                                        className={`text-xs ${entry.kind === 'CLAWBACK'
+                                                          ? 'text-red-600 dark:text-red-400'
+                                                          : 'text-yellow-700 dark:text-yellow-400'
+                                                          }`}
+                                                      >
+                                                        {BREAKDOWN_KIND_LABELS[entry.kind]}: {entry.reason}
+                                                      </p>
+                                                    )}
+                                                  </div>
+                                                  <div className="sm:text-right">
+                                                    <p
+                                                      className={`text-sm font-semibold ${entry.amount < 0
+                                                        ? 'text-red-600 dark:text-red-400'
+                                                        : 'text-gray-900 dark:text-white'
+                                                        }`}
+                                                    >
+                                                      {entry.amount < 0 ? '−' : ''}₹{Math.abs(entry.amount).toLocaleString()}
+                                                    </p>
+                                                    {entry.kind === 'VISIT' && entry.amount !== entry.visitAmount && (
+                                                      <p className="text-xs text-gray-500 dark:text-gray-400">
+                                                        of ₹{entry.visitAmount.toLocaleString()} ({SPLIT_POLICY_LABELS[entry.splitPolicy]})
+                                                      </p>
+                                                    )}
+                                                    {entry.kind !== 'ADJUSTMENT' && (
+                                                      <p className="text-xs text-gray-500 dark:text-gray-400">Scheme: {entry.schemeName}</p>
+                                                    )}
                                                   </div>
-                                                  <p className="text-sm font-semibold text-gray-900 dark:text-white">₹{entry.amount.toLocaleString()}</p>
                                                 </div>
                                                 {(entry.visitedDepartments.length > 0 || entry.handledDepartments.length > 0) && (
                                                   <div className="mt-3 grid grid-cols-1 md:grid-cols-2 gap-4 text-xs text-gray-600 dark:text-gray-300">
@@ -1121,6 +877,15 @@ export default function Dashboard() {
             </table>
           </div>
         </div>
+
+        {canViewAll && selectedRange && comparisonRange && (
+          <PeriodComparison
+            metrics={rawMetrics}
+            currentRange={selectedRange}
+            currentLabel={timeframeLabel}
+            defaultPreviousRange={comparisonRange}
+          />
+        )}
       </main>
 
       {/* Customer List Modal */}
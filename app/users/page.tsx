@@ -0,0 +1,429 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { useAuth } from '@/contexts/AuthContext'
+import { ROLES, ROLE_LABELS } from '@/lib/permissions'
+import type { UserRole } from '@prisma/client'
+
+type ManagedUser = {
+  id: string
+  email: string
+  name: string
+  phone: string | null
+  role: UserRole
+  salespersonName: string | null
+  isActive: boolean
+  createdAt: string
+}
+
+type UserForm = {
+  name: string
+  email: string
+  phone: string
+  role: UserRole
+  salespersonName: string
+  password: string
+}
+
+const EMPTY_FORM: UserForm = {
+  name: '',
+  email: '',
+  phone: '',
+  role: 'TELECALLER',
+  salespersonName: '',
+  password: '',
+}
+
+const inputClassName = 'w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-sm text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500'
+
+const readError = async (response: Response, fallback: string) => {
+  const data = await response.json().catch(() => null)
+  return data?.error ?? fallback
+}
+
+export default function UsersPage() {
+  const { user: currentUser } = useAuth()
+  const [users, setUsers] = useState<ManagedUser[]>([])
+  const [salespersonNames, setSalespersonNames] = useState<string[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [message, setMessage] = useState<string | null>(null)
+
+  // null = form closed, 'new' = creating, otherwise the id being edited
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [form, setForm] = useState<UserForm>(EMPTY_FORM)
+  const [formError, setFormError] = useState<string | null>(null)
+  const [isSaving, setIsSaving] = useState(false)
+
+  const [resetUser, setResetUser] = useState<ManagedUser | null>(null)
+  const [newPassword, setNewPassword] = useState('')
+  const [resetError, setResetError] = useState<string | null>(null)
+
+  const loadUsers = useCallback(() => {
+    setIsLoading(true)
+    return fetch('/api/users')
+      .then(async (response) => {
+        if (!response.ok) {
+          throw new Error(await readError(response, 'Failed to load users.'))
+        }
+        const data = await response.json()
+        setUsers(data.users)
+        setSalespersonNames(data.salespersonNames)
+        setError(null)
+      })
+      .catch((err) => {
+        console.error(err)
+        setError(err instanceof Error ? err.message : 'Failed to load users.')
+      })
+      .finally(() => setIsLoading(false))
+  }, [])
+
+  useEffect(() => {
+    loadUsers()
+  }, [loadUsers])
+
+  const openCreate = () => {
+    setEditingId('new')
+    setForm(EMPTY_FORM)
+    setFormError(null)
+  }
+
+  const openEdit = (user: ManagedUser) => {
+    setEditingId(user.id)
+    setForm({
+      name: user.name,
+      email: user.email,
+      phone: user.phone ?? '',
+      role: user.role,
+      salespersonName: user.salespersonName ?? '',
+      password: '',
+    })
+    setFormError(null)
+  }
+
+  const closeForm = () => {
+    setEditingId(null)
+    setFormError(null)
+  }
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault()
+    setIsSaving(true)
+    setFormError(null)
+
+    const isNew = editingId === 'new'
+    const { password, ...fields } = form
+    try {
+      const response = await fetch(isNew ? '/api/users' : `/api/users/${editingId}`, {
+        method: isNew ? 'POST' : 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(isNew ? { ...fields, password } : fields),
+      })
+      if (!response.ok) {
+        throw new Error(await readError(response, 'Failed to save user.'))
+      }
+      setMessage(isNew ? `Created ${form.name}.` : `Saved changes to ${form.name}.`)
+      closeForm()
+      await loadUsers()
+    } catch (err) {
+      setFormError(err instanceof Error ? err.message : 'Failed to save user.')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const toggleActive = async (user: ManagedUser) => {
+    const response = await fetch(`/api/users/${user.id}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ isActive: !user.isActive }),
+    })
+    if (!response.ok) {
+      setError(await readError(response, 'Failed to update user.'))
+      return
+    }
+    const { reassignedFollowUps } = await response.json()
+    setMessage(
+      user.isActive
+        ? `Deactivated ${user.name}.${reassignedFollowUps > 0 ? ` Reassigned ${reassignedFollowUps} pending follow-up${reassignedFollowUps === 1 ? '' : 's'}.` : ''}`
+        : `Reactivated ${user.name}.`
+    )
+    await loadUsers()
+  }
+
+  const handleResetPassword = async (event: React.FormEvent) => {
+    event.preventDefault()
+    if (!resetUser) return
+    setResetError(null)
+
+    const response = await fetch(`/api/users/${resetUser.id}/password`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ password: newPassword }),
+    })
+    if (!response.ok) {
+      setResetError(await readError(response, 'Failed to reset password.'))
+      return
+    }
+    setMessage(`Password reset for ${resetUser.name}.`)
+    setResetUser(null)
+    setNewPassword('')
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-gray-50 to-gray-100 dark:from-gray-900 dark:to-gray-800">
+      <header className="bg-white dark:bg-gray-800 shadow-sm border-b border-gray-200 dark:border-gray-700">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-4">
+          <div className="flex flex-col gap-2 sm:flex-row sm:items-center sm:justify-between">
+            <div>
+              <h1 className="text-2xl font-bold text-gray-900 dark:text-white">Users</h1>
+              <p className="text-sm text-gray-600 dark:text-gray-300">
+                Manage logins, roles and the workbook salesperson each login is paid as.
+              </p>
+            </div>
+            <button
+              onClick={openCreate}
+              className="px-4 py-2 bg-blue-600 text-white text-sm font-medium rounded-lg hover:bg-blue-700 transition-colors"
+            >
+              Add User
+            </button>
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {message && (
+          <div className="mb-6 p-4 bg-green-50 dark:bg-green-900/20 border border-green-200 dark:border-green-700 rounded-lg">
+            <p className="text-sm text-green-700 dark:text-green-300">{message}</p>
+          </div>
+        )}
+
+        {error && (
+          <div className="mb-6 p-4 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-700 rounded-lg">
+            <p className="text-sm text-red-600 dark:text-red-400">{error}</p>
+          </div>
+        )}
+
+        {editingId && (
+          <form
+            onSubmit={handleSubmit}
+            className="bg-white dark:bg-gray-800 rounded-lg shadow border border-gray-200 dark:border-gray-700 mb-6 p-6"
+          >
+            <h2 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">
+              {editingId === 'new' ? 'New User' : 'Edit User'}
+            </h2>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <label className="block">
+                <span className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Name</span>
+                <input
+                  type="text"
+                  required
+                  value={form.name}
+                  onChange={(e) => setForm({ ...form, name: e.target.value })}
+                  className={inputClassName}
+                />
+              </label>
+              <label className="block">
+                <span className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Email</span>
+                <input
+                  type="email"
+                  required
+                  value={form.email}
+                  onChange={(e) => setForm({ ...form, email: e.target.value })}
+                  className={inputClassName}
+                />
+              </label>
+              <label className="block">
+                <span className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Phone</span>
+                <input
+                  type="tel"
+                  value={form.phone}
+                  onChange={(e) => setForm({ ...form, phone: e.target.value })}
+                  className={inputClassName}
+                />
+              </label>
+              <label className="block">
+                <span className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Role</span>
+                <select
+                  value={form.role}
+                  onChange={(e) => setForm({ ...form, role: e.target.value as UserRole })}
+                  disabled={editingId === currentUser?.id}
+                  className={inputClassName}
+                >
+                  {ROLES.map((role) => (
+                    <option key={role} value={role}>{ROLE_LABELS[role]}</option>
+                  ))}
+                </select>
+              </label>
+              <label className="block">
+                <span className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                  Salesman Name in workbook
+                </span>
+                <input
+                  type="text"
+                  list="salesperson-names"
+                  value={form.salespersonName}
+                  onChange={(e) => setForm({ ...form, salespersonName: e.target.value })}
+                  placeholder="Not linked"
+                  className={inputClassName}
+                />
+                <datalist id="salesperson-names">
+                  {salespersonNames.map((name) => (
+                    <option key={name} value={name} />
+                  ))}
+                </datalist>
+              </label>
+              {editingId === 'new' && (
+                <label className="block">
+                  <span className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Password</span>
+                  <input
+                    type="password"
+                    required
+                    value={form.password}
+                    onChange={(e) => setForm({ ...form, password: e.target.value })}
+                    className={inputClassName}
+                  />
+                </label>
+              )}
+            </div>
+            {formError && (
+              <p className="mt-4 text-sm text-red-600 dark:text-red-400">{formError}</p>
+            )}
+            <div className="mt-6 flex gap-3">
+              <button
+                type="submit"
+                disabled={isSaving}
+                className="px-4 py-2 bg-blue-600 text-white text-sm font-medium rounded-lg hover:bg-blue-700 disabled:opacity-50 transition-colors"
+              >
+                {isSaving ? 'Saving…' : 'Save'}
+              </button>
+              <button
+                type="button"
+                onClick={closeForm}
+                className="px-4 py-2 bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 text-sm font-medium rounded-lg hover:bg-gray-200 dark:hover:bg-gray-600 transition-colors"
+              >
+                Cancel
+              </button>
+            </div>
+          </form>
+        )}
+
+        {resetUser && (
+          <form
+            onSubmit={handleResetPassword}
+            className="bg-white dark:bg-gray-800 rounded-lg shadow border border-gray-200 dark:border-gray-700 mb-6 p-6"
+          >
+            <h2 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">
+              Reset password for {resetUser.name}
+            </h2>
+            <input
+              type="password"
+              required
+              value={newPassword}
+              onChange={(e) => setNewPassword(e.target.value)}
+              placeholder="New password"
+              className={`${inputClassName} max-w-sm`}
+            />
+            {resetError && (
+              <p className="mt-4 text-sm text-red-600 dark:text-red-400">{resetError}</p>
+            )}
+            <div className="mt-4 flex gap-3">
+              <button
+                type="submit"
+                className="px-4 py-2 bg-blue-600 text-white text-sm font-medium rounded-lg hover:bg-blue-700 transition-colors"
+              >
+                Reset Password
+              </button>
+              <button
+                type="button"
+                onClick={() => {
+                  setResetUser(null)
+                  setNewPassword('')
+                  setResetError(null)
+                }}
+                className="px-4 py-2 bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 text-sm font-medium rounded-lg hover:bg-gray-200 dark:hover:bg-gray-600 transition-colors"
+              >
+                Cancel
+              </button>
+            </div>
+          </form>
+        )}
+
+        {isLoading && users.length === 0 && (
+          <div className="bg-white dark:bg-gray-800 rounded-lg shadow border border-gray-200 dark:border-gray-700 p-8">
+            <div className="text-center">
+              <p className="text-sm text-blue-600 dark:text-blue-400">Loading users…</p>
+            </div>
+          </div>
+        )}
+
+        {users.length > 0 && (
+          <div className="bg-white dark:bg-gray-800 rounded-lg shadow border border-gray-200 dark:border-gray-700 overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
+              <thead className="bg-gray-50 dark:bg-gray-700">
+                <tr>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">Name</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">Email</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">Phone</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">Role</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">Salesman Name</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">Status</th>
+                  <th className="px-4 py-3" />
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                {users.map((user) => {
+                  const isSelf = user.id === currentUser?.id
+                  return (
+                    <tr key={user.id} className={user.isActive ? '' : 'opacity-60'}>
+                      <td className="px-4 py-3 text-sm font-medium text-gray-900 dark:text-white">{user.name}</td>
+                      <td className="px-4 py-3 text-sm text-gray-600 dark:text-gray-400">{user.email}</td>
+                      <td className="px-4 py-3 text-sm text-gray-600 dark:text-gray-400">{user.phone || '—'}</td>
+                      <td className="px-4 py-3 text-sm text-gray-600 dark:text-gray-400">{ROLE_LABELS[user.role]}</td>
+                      <td className="px-4 py-3 text-sm text-gray-600 dark:text-gray-400">{user.salespersonName || '—'}</td>
+                      <td className="px-4 py-3 text-sm">
+                        <span
+                          className={`px-2 py-1 rounded text-xs font-medium ${user.isActive
+                            ? 'bg-green-100 dark:bg-green-900/30 text-green-700 dark:text-green-300'
+                            : 'bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-400'
+                            }`}
+                        >
+                          {user.isActive ? 'Active' : 'Inactive'}
+                        </span>
+                      </td>
+                      <td className="px-4 py-3 text-sm text-right whitespace-nowrap space-x-3">
+                        <button onClick={() => openEdit(user)} className="text-blue-600 dark:text-blue-400 hover:underline">
+                          Edit
+                        </button>
+                        <button
+                          onClick={() => {
+                            setResetUser(user)
+                            setNewPassword('')
+                            setResetError(null)
+                          }}
+                          className="text-blue-600 dark:text-blue-400 hover:underline"
+                        >
+                          Reset Password
+                        </button>
+                        {!isSelf && (
+                          <button
+                            onClick={() => toggleActive(user)}
+                            className={user.isActive
+                              ? 'text-red-600 dark:text-red-400 hover:underline'
+                              : 'text-green-600 dark:text-green-400 hover:underline'}
+                          >
+                            {user.isActive ? 'Deactivate' : 'Activate'}
+                          </button>
+                        )}
+                      </td>
+                    </tr>
+                  )
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </main>
+    </div>
+  )
+}
@@ -0,0 +1,303 @@
+'use client'
+
+import { useEffect, useMemo, useState } from 'react'
+import type { MappingTemplate } from '@/lib/mappingTemplateStore'
+import {
+  COLUMN_FIELDS,
+  COLUMN_FIELD_LABELS,
+  REQUIRED_COLUMN_FIELDS,
+  proposeColumnMapping,
+  type ColumnMapping,
+  type SheetSummary,
+  type WorkbookPreview,
+} from '@/lib/workbookParser'
+
+type ColumnMappingWizardProps = {
+  files: File[]
+  onImport: (mapping: ColumnMapping, sheets: string[][], templateName: string | null) => void
+  onCancel: () => void
+}
+
+type PreviewResponse = WorkbookPreview & {
+  files: Array<{ fileName: string; sheets: SheetSummary[] }>
+  templates: MappingTemplate[]
+}
+
+const selectClassName = 'w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-sm text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500'
+
+const headerCellsOf = (rows: string[][], headerRow: number) => rows[headerRow - 1] ?? []
+
+/**
+ * A template fits when every column it names exists in its header row
+ */
+const templateFits = (template: MappingTemplate, rows: string[][]) => {
+  const headers = headerCellsOf(rows, template.headerRow).map((cell) => cell.trim().toLowerCase())
+  return Object.values(template.columns).every((label) => label && headers.includes(label.trim().toLowerCase()))
+}
+
+export default function ColumnMappingWizard({ files, onImport, onCancel }: ColumnMappingWizardProps) {
+  const [preview, setPreview] = useState<PreviewResponse | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [headerRow, setHeaderRow] = useState(1)
+  const [columns, setColumns] = useState<ColumnMapping['columns']>({})
+  const [templateId, setTemplateId] = useState('')
+  const [templateName, setTemplateName] = useState('')
+  // Selected sheet names, one list per file
+  const [sheets, setSheets] = useState<string[][]>([])
+
+  useEffect(() => {
+    const formData = new FormData()
+    files.forEach((file) => formData.append('file', file))
+    fetch('/api/excel/preview', { method: 'POST', body: formData })
+      .then(async (response) => {
+        const data = await response.json()
+        if (!response.ok) {
+          throw new Error(data.error ?? 'Failed to read Excel file.')
+        }
+        setPreview(data)
+        // Include every sheet that looks like a sales register, or the first one
+        setSheets(
+          (data as PreviewResponse).files.map((item) => {
+            const recognised = item.sheets.filter((sheet) => sheet.recognised).map((sheet) => sheet.name)
+            return recognised.length > 0 ? recognised : item.sheets.slice(0, 1).map((sheet) => sheet.name)
+          })
+        )
+
+        // Reuse the first saved template that matches this file, otherwise the detected layout
+        const template = (data as PreviewResponse).templates.find((item) => templateFits(item, data.rows))
+        if (template) {
+          setTemplateId(template.id)
+          setTemplateName(template.name)
+          setHeaderRow(template.headerRow)
+          setColumns(template.columns)
+        } else {
+          setHeaderRow(data.proposedMapping.headerRow)
+          setColumns(data.proposedMapping.columns)
+        }
+      })
+      .catch((err) => {
+        console.error(err)
+        setError(err instanceof Error ? err.message : 'Failed to read Excel file.')
+      })
+  }, [files])
+
+  const headerOptions = useMemo(
+    () => (preview ? headerCellsOf(preview.rows, headerRow).filter((cell) => cell.trim() !== '') : []),
+    [preview, headerRow]
+  )
+
+  const missingFields = REQUIRED_COLUMN_FIELDS.filter((field) => !columns[field])
+  const hasSheets = sheets.length > 0 && sheets.every((names) => names.length > 0)
+
+  const toggleSheet = (fileIndex: number, sheetName: string) => {
+    setSheets(sheets.map((names, index) => {
+      if (index !== fileIndex) return names
+      return names.includes(sheetName) ? names.filter((name) => name !== sheetName) : [...names, sheetName]
+    }))
+  }
+
+  const changeHeaderRow = (row: number) => {
+    if (!preview || row < 1 || row > preview.rows.length) return
+    setHeaderRow(row)
+    setColumns(proposeColumnMapping(headerCellsOf(preview.rows, row), row).columns)
+    setTemplateId('')
+  }
+
+  const selectTemplate = (id: string) => {
+    setTemplateId(id)
+    const template = preview?.templates.find((item) => item.id === id)
+    if (!template) {
+      if (preview) {
+        setHeaderRow(preview.proposedMapping.headerRow)
+        setColumns(preview.proposedMapping.columns)
+      }
+      setTemplateName('')
+      return
+    }
+    setHeaderRow(template.headerRow)
+    setColumns(template.columns)
+    setTemplateName(template.name)
+  }
+
+  const deleteTemplate = async () => {
+    if (!preview || !templateId) return
+    const template = preview.templates.find((item) => item.id === templateId)
+    if (!template || !window.confirm(`Delete template "${template.name}"?`)) return
+
+    const response = await fetch(`/api/column-mappings/${templateId}`, { method: 'DELETE' })
+    if (!response.ok) {
+      setError('Failed to delete template.')
+      return
+    }
+    setPreview({ ...preview, templates: preview.templates.filter((item) => item.id !== templateId) })
+    selectTemplate('')
+  }
+
+  if (error) {
+    return (
+      <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-700 rounded-lg p-4">
+        <p className="text-sm text-red-600 dark:text-red-400">{error}</p>
+        <button onClick={onCancel} className="mt-3 text-sm font-medium text-red-700 dark:text-red-300 hover:underline">
+          Choose other files
+        </button>
+      </div>
+    )
+  }
+
+  if (!preview) {
+    return (
+      <p className="text-sm text-blue-600 dark:text-blue-400">
+        Reading {files.map((file) => file.name).join(', ')}…
+      </p>
+    )
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <span className="block text-sm font-medium text-gray-700 dark:text-gray-300">Sheets to import</span>
+        {preview.files.map((item, fileIndex) => (
+          <div key={`${item.fileName}-${fileIndex}`} className="text-sm">
+            <p className="font-medium text-gray-900 dark:text-white">{item.fileName}</p>
+            <div className="flex flex-wrap gap-x-4 gap-y-1 mt-1">
+              {item.sheets.map((sheet) => (
+                <label key={sheet.name} className="inline-flex items-center gap-2 text-gray-700 dark:text-gray-300">
+                  <input
+                    type="checkbox"
+                    checked={sheets[fileIndex]?.includes(sheet.name) ?? false}
+                    onChange={() => toggleSheet(fileIndex, sheet.name)}
+                  />
+                  {sheet.name}
+                  {!sheet.recognised && <span className="text-xs text-gray-400 dark:text-gray-500">(columns not detected)</span>}
+                </label>
+              ))}
+            </div>
+          </div>
+        ))}
+        <p className="text-xs text-gray-500 dark:text-gray-400">
+          The mapping below is previewed on sheet &quot;{preview.sheetName}&quot; of {preview.files[0]?.fileName} and applied to every selected sheet
+          with the same header row. Columns of sheets laid out differently are detected automatically.
+          Rows repeated across sheets or files (same voucher number and item) are imported once.
+        </p>
+      </div>
+
+      <div className="flex flex-col gap-3 sm:flex-row sm:items-end">
+        <label className="block flex-1">
+          <span className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Mapping template</span>
+          <select value={templateId} onChange={(e) => selectTemplate(e.target.value)} className={selectClassName}>
+            <option value="">Detected automatically</option>
+            {preview.templates.map((template) => (
+              <option key={template.id} value={template.id}>{template.name}</option>
+            ))}
+          </select>
+        </label>
+        {templateId && (
+          <button onClick={deleteTemplate} className="text-sm text-red-600 dark:text-red-400 hover:underline sm:mb-2">
+            Delete template
+          </button>
+        )}
+        <label className="block">
+          <span className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Header row</span>
+          <input
+            type="number"
+            min={1}
+            max={preview.rows.length}
+            value={headerRow}
+            onChange={(e) => changeHeaderRow(Number(e.target.value))}
+            className={`${selectClassName} w-24`}
+          />
+        </label>
+      </div>
+
+      <div className="overflow-x-auto border border-gray-200 dark:border-gray-700 rounded-lg max-h-64">
+        <table className="min-w-full text-xs">
+          <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+            {preview.rows.map((row, index) => {
+              const isHeader = index + 1 === headerRow
+              return (
+                <tr
+                  key={index}
+                  onClick={() => changeHeaderRow(index + 1)}
+                  className={`cursor-pointer ${isHeader
+                    ? 'bg-blue-50 dark:bg-blue-900/30 font-semibold text-blue-900 dark:text-blue-200'
+                    : 'text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700/50'
+                    }`}
+                >
+                  <td className="px-2 py-1 text-gray-400 dark:text-gray-500">{index + 1}</td>
+                  {row.map((cell, cellIndex) => (
+                    <td key={cellIndex} className="px-2 py-1 whitespace-nowrap">{cell}</td>
+                  ))}
+                </tr>
+              )
+            })}
+          </tbody>
+        </table>
+      </div>
+      <p className="text-xs text-gray-500 dark:text-gray-400">Click a row to use it as the header row.</p>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+        {COLUMN_FIELDS.map((field) => {
+          const isRequired = REQUIRED_COLUMN_FIELDS.includes(field)
+          return (
+            <label key={field} className="block">
+              <span className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                {COLUMN_FIELD_LABELS[field]}
+                {isRequired && <span className="text-red-500"> *</span>}
+              </span>
+              <select
+                value={columns[field] ?? ''}
+                onChange={(e) => {
+                  setColumns({ ...columns, [field]: e.target.value || undefined })
+                }}
+                className={selectClassName}
+              >
+                <option value="">{isRequired ? 'Select a column' : 'Not in this file'}</option>
+                {headerOptions.map((label, index) => (
+                  <option key={`${label}-${index}`} value={label}>{label}</option>
+                ))}
+              </select>
+            </label>
+          )
+        })}
+      </div>
+
+      <label className="block">
+        <span className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+          Save mapping as template (optional)
+        </span>
+        <input
+          type="text"
+          value={templateName}
+          onChange={(e) => setTemplateName(e.target.value)}
+          placeholder="e.g. POS export 2026"
+          className={selectClassName}
+        />
+      </label>
+
+      {missingFields.length > 0 && (
+        <p className="text-sm text-red-600 dark:text-red-400">
+          Map a column for: {missingFields.map((field) => COLUMN_FIELD_LABELS[field]).join(', ')}
+        </p>
+      )}
+      {!hasSheets && (
+        <p className="text-sm text-red-600 dark:text-red-400">Select at least one sheet from each file.</p>
+      )}
+
+      <div className="flex gap-3">
+        <button
+          onClick={() => onImport({ headerRow, columns }, sheets, templateName.trim() || null)}
+          disabled={missingFields.length > 0 || !hasSheets}
+          className="px-4 py-2 bg-blue-600 text-white text-sm font-medium rounded-lg hover:bg-blue-700 disabled:opacity-50 transition-colors"
+        >
+          Import
+        </button>
+        <button
+          onClick={onCancel}
+          className="px-4 py-2 bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 text-sm font-medium rounded-lg hover:bg-gray-200 dark:hover:bg-gray-600 transition-colors"
+        >
+          Cancel
+        </button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,64 @@
+'use client'
+
+import { CUSTOMER_MOOD_LABELS, FEEDBACK_QUESTIONS, MAX_RATING, RATING_LABELS, type CallFeedbackRecord } from '@/lib/callFeedback'
+import { NON_VISIT_REASON_LABELS } from '@/lib/nonVisitReasons'
+
+type FeedbackAnswersProps = {
+  feedback: CallFeedbackRecord
+}
+
+/**
+ * Rating, mood, yes/no answers, non-visit reasons and comments of one call feedback
+ */
+export default function FeedbackAnswers({ feedback }: FeedbackAnswersProps) {
+  const answered = FEEDBACK_QUESTIONS.filter(({ key }) => feedback.answers[key] !== null)
+
+  return (
+    <div className="space-y-2">
+      {(feedback.rating !== null || feedback.customerMood !== 'UNKNOWN') && (
+        <div className="flex flex-wrap items-center gap-3 text-sm">
+          {feedback.rating !== null && (
+            <span className="text-yellow-500" title={`${RATING_LABELS[feedback.rating - 1]} (${feedback.rating} of ${MAX_RATING})`}>
+              {'★'.repeat(feedback.rating)}
+              <span className="text-gray-300 dark:text-gray-600">{'★'.repeat(MAX_RATING - feedback.rating)}</span>
+            </span>
+          )}
+          {feedback.customerMood !== 'UNKNOWN' && (
+            <span className="text-gray-600 dark:text-gray-400">Mood: {CUSTOMER_MOOD_LABELS[feedback.customerMood]}</span>
+          )}
+        </div>
+      )}
+      {answered.length > 0 && (
+        <div className="flex flex-wrap gap-1.5">
+          {answered.map(({ key, label, shortLabel }) => (
+            <span
+              key={key}
+              title={label}
+              className={`inline-flex px-2 py-0.5 rounded-md text-xs font-medium ${feedback.answers[key]
+                ? 'bg-green-50 dark:bg-green-900/20 text-green-700 dark:text-green-300'
+                : 'bg-red-50 dark:bg-red-900/20 text-red-700 dark:text-red-300'
+                }`}
+            >
+              {shortLabel}: {feedback.answers[key] ? 'Yes' : 'No'}
+            </span>
+          ))}
+        </div>
+      )}
+      {feedback.nonVisitReasons.length > 0 && (
+        <ul className="space-y-0.5 text-xs text-gray-600 dark:text-gray-400">
+          {feedback.nonVisitReasons.map((reason) => (
+            <li key={reason.department}>
+              Skipped <span className="font-medium text-gray-900 dark:text-white capitalize">{reason.department}</span>:{' '}
+              {NON_VISIT_REASON_LABELS[reason.reason]}
+              {reason.reasonDetails && <> &ndash; {reason.reasonDetails}</>}
+              {reason.salespersonMentioned && <> (salesperson mentioned it)</>}
+            </li>
+          ))}
+        </ul>
+      )}
+      {feedback.improvementComments && (
+        <p className="text-sm text-gray-700 dark:text-gray-300 italic">&ldquo;{feedback.improvementComments}&rdquo;</p>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,151 @@
+'use client'
+
+import { useState } from 'react'
+import {
+  FOLLOW_UP_URGENCY_LABELS,
+  SNOOZE_DAYS,
+  businessToday,
+  followUpUrgency,
+  type FollowUpAction,
+  type FollowUpReminderRecord,
+  type FollowUpUrgency,
+} from '@/lib/followUps'
+import { addDaysToIso, formatDisplayDate } from '@/lib/workbookParser'
+
+type FollowUpQueueProps = {
+  followUps: FollowUpReminderRecord[]
+  onUpdate: (followUps: FollowUpReminderRecord[]) => void
+  onCall: (customerId: string) => void
+}
+
+const URGENCY_ORDER: FollowUpUrgency[] = ['overdue', 'due', 'upcoming']
+
+const URGENCY_CLASSES: Record<FollowUpUrgency, string> = {
+  overdue: 'bg-red-50 text-red-700 border-red-200 dark:bg-red-900/20 dark:text-red-300 dark:border-red-800',
+  due: 'bg-yellow-50 text-yellow-800 border-yellow-200 dark:bg-yellow-900/20 dark:text-yellow-300 dark:border-yellow-800',
+  upcoming: 'bg-gray-50 text-gray-600 border-gray-200 dark:bg-gray-700 dark:text-gray-300 dark:border-gray-600',
+}
+
+/**
+ * Pending follow-ups of the signed-in telecaller, grouped by how soon they are due
+ */
+export default function FollowUpQueue({ followUps, onUpdate, onCall }: FollowUpQueueProps) {
+  const [updatingId, setUpdatingId] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const today = businessToday()
+
+  const update = async (followUp: FollowUpReminderRecord, action: FollowUpAction, until?: string) => {
+    if (action === 'dismiss' && !window.confirm(`Dismiss the follow-up with ${followUp.customerName ?? followUp.customerId}?`)) {
+      return
+    }
+    setUpdatingId(followUp.id)
+    setError(null)
+    try {
+      const response = await fetch(`/api/follow-ups/${followUp.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action, until }),
+      })
+      const data = await response.json().catch(() => null)
+      if (!response.ok) {
+        throw new Error(data?.error ?? 'Failed to update the follow-up.')
+      }
+      onUpdate(data.followUps)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update the follow-up.')
+    } finally {
+      setUpdatingId(null)
+    }
+  }
+
+  if (followUps.length === 0) {
+    return (
+      <div className="flex flex-col items-center justify-center py-12 text-gray-500">
+        <svg className="w-16 h-16 text-gray-300 mb-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 7V3m8 4V3m-9 8h10M5 21h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v12a2 2 0 002 2z" />
+        </svg>
+        <p className="text-lg font-medium">No follow-ups scheduled.</p>
+        <p className="text-sm">Follow-ups requested on your calls show up here.</p>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-8">
+      {error && (
+        <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg p-4 text-red-700 dark:text-red-300">
+          {error}
+        </div>
+      )}
+      {URGENCY_ORDER.map((urgency) => {
+        const group = followUps.filter((followUp) => followUpUrgency(followUp.reminderDate, today) === urgency)
+        if (group.length === 0) return null
+        return (
+          <section key={urgency}>
+            <h2 className="text-sm font-semibold uppercase tracking-wider text-gray-500 dark:text-gray-400 mb-3">
+              {FOLLOW_UP_URGENCY_LABELS[urgency]} ({group.length})
+            </h2>
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+              {group.map((followUp) => (
+                <div
+                  key={followUp.id}
+                  className="bg-white dark:bg-gray-800 rounded-xl shadow-sm border border-gray-200 dark:border-gray-700 p-5"
+                >
+                  <div className="flex justify-between items-start gap-3 mb-4">
+                    <div>
+                      <h3 className="font-bold text-gray-900 dark:text-white">{followUp.customerId}</h3>
+                      {followUp.customerName && (
+                        <p className="text-xs text-gray-600 dark:text-gray-400 mt-0.5 truncate max-w-[180px]">{followUp.customerName}</p>
+                      )}
+                      <span className={`inline-block mt-2 px-2 py-1 rounded-md text-[10px] uppercase font-bold tracking-wider border ${URGENCY_CLASSES[urgency]}`}>
+                        {formatDisplayDate(followUp.reminderDate)}
+                      </span>
+                    </div>
+                    <button
+                      onClick={() => onCall(followUp.customerId)}
+                      className="flex items-center gap-2 px-4 py-2 bg-green-600 hover:bg-green-700 text-white text-sm font-medium rounded-lg transition-colors shadow-sm"
+                    >
+                      Call
+                    </button>
+                  </div>
+                  <div className="space-y-1 text-xs text-gray-500 dark:text-gray-400 pb-4 border-b border-gray-100 dark:border-gray-700">
+                    {followUp.notes && <p>After: <span className="font-medium text-gray-700 dark:text-gray-200">{followUp.notes}</span></p>}
+                    <p>Scheduled by {followUp.createdByName}</p>
+                  </div>
+                  <div className="pt-4 flex flex-wrap items-center gap-2">
+                    <span className="text-xs text-gray-500 dark:text-gray-400">Snooze</span>
+                    {SNOOZE_DAYS.map((days) => (
+                      <button
+                        key={days}
+                        disabled={updatingId === followUp.id}
+                        onClick={() => update(followUp, 'snooze', addDaysToIso(followUp.reminderDate > today ? followUp.reminderDate : today, days))}
+                        className="px-2 py-1 text-xs font-medium rounded-md border border-gray-200 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-50"
+                      >
+                        +{days}d
+                      </button>
+                    ))}
+                    <span className="flex-1" />
+                    <button
+                      disabled={updatingId === followUp.id}
+                      onClick={() => update(followUp, 'complete')}
+                      className="px-2 py-1 text-xs font-medium rounded-md text-green-700 dark:text-green-400 hover:bg-green-50 dark:hover:bg-green-900/20 disabled:opacity-50"
+                    >
+                      Complete
+                    </button>
+                    <button
+                      disabled={updatingId === followUp.id}
+                      onClick={() => update(followUp, 'dismiss')}
+                      className="px-2 py-1 text-xs font-medium rounded-md text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/20 disabled:opacity-50"
+                    >
+                      Dismiss
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </section>
+        )
+      })}
+    </div>
+  )
+}
@@ -0,0 +1,105 @@
+'use client'
+
+import { useState } from 'react'
+import type { ImportReport } from '@/lib/importReport'
+import { COLUMN_FIELDS, COLUMN_FIELD_LABELS } from '@/lib/workbookParser'
+
+type ImportReportPanelProps = {
+  report: ImportReport
+  uploadId: string | null // Stored upload the Excel report can be downloaded from
+}
+
+// Rows listed per reason; the downloaded sheet has all of them
+const VISIBLE_ROW_COUNT = 50
+
+export default function ImportReportPanel({ report, uploadId }: ImportReportPanelProps) {
+  const [expandedReason, setExpandedReason] = useState<string | null>(null)
+
+  return (
+    <div className="border border-gray-200 dark:border-gray-700 rounded-lg">
+      <div className="flex flex-col gap-2 sm:flex-row sm:items-center sm:justify-between p-4 border-b border-gray-200 dark:border-gray-700">
+        <div>
+          <p className="text-sm font-semibold text-gray-900 dark:text-white">Import report</p>
+          <p className="text-xs text-gray-600 dark:text-gray-400">
+            {report.rowsRead} rows read · {report.rowsAccepted} accepted · {report.rowsSkipped} skipped
+          </p>
+        </div>
+        {uploadId && report.groups.length > 0 && (
+          <a
+            href={`/api/excel/uploads/${uploadId}/report`}
+            className="text-sm font-medium text-blue-600 dark:text-blue-400 hover:underline"
+          >
+            Download as Excel
+          </a>
+        )}
+      </div>
+
+      {report.groups.length === 0 ? (
+        <p className="p-4 text-sm text-green-700 dark:text-green-300">Every row was imported without problems.</p>
+      ) : (
+        <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+          {report.groups.map((group) => {
+            const isExpanded = expandedReason === group.reason
+            const fields = COLUMN_FIELDS.filter((field) => group.rows.some((row) => row.cells[field]))
+            return (
+              <li key={group.reason}>
+                <button
+                  onClick={() => setExpandedReason(isExpanded ? null : group.reason)}
+                  className="flex w-full items-center justify-between px-4 py-3 text-left hover:bg-gray-50 dark:hover:bg-gray-700/50"
+                >
+                  <span className="text-sm text-gray-900 dark:text-white">{group.label}</span>
+                  <span className="flex items-center gap-3">
+                    <span
+                      className={`px-2 py-1 rounded text-xs font-medium ${group.skipped
+                        ? 'bg-red-100 dark:bg-red-900/30 text-red-700 dark:text-red-300'
+                        : 'bg-yellow-100 dark:bg-yellow-900/30 text-yellow-800 dark:text-yellow-300'
+                        }`}
+                    >
+                      {group.rows.length} {group.skipped ? 'skipped' : 'flagged'}
+                    </span>
+                    <span className="text-xs font-medium text-blue-600 dark:text-blue-300">
+                      {isExpanded ? 'Hide rows' : 'Show rows'}
+                    </span>
+                  </span>
+                </button>
+                {isExpanded && (
+                  <div className="overflow-x-auto px-4 pb-4">
+                    <table className="min-w-full text-xs">
+                      <thead>
+                        <tr className="text-left text-gray-500 dark:text-gray-400">
+                          <th className="px-2 py-1 font-medium">File / Sheet</th>
+                          <th className="px-2 py-1 font-medium">Row</th>
+                          {fields.map((field) => (
+                            <th key={field} className="px-2 py-1 font-medium whitespace-nowrap">{COLUMN_FIELD_LABELS[field]}</th>
+                          ))}
+                        </tr>
+                      </thead>
+                      <tbody className="divide-y divide-gray-200 dark:divide-gray-700 text-gray-700 dark:text-gray-300">
+                        {group.rows.slice(0, VISIBLE_ROW_COUNT).map((row, index) => (
+                          <tr key={`${row.fileName}-${row.sheetName}-${row.rowNumber}-${index}`}>
+                            <td className="px-2 py-1 whitespace-nowrap">
+                              {row.fileName ? `${row.fileName} / ` : ''}{row.sheetName}
+                            </td>
+                            <td className="px-2 py-1">{row.rowNumber}</td>
+                            {fields.map((field) => (
+                              <td key={field} className="px-2 py-1 whitespace-nowrap">{row.cells[field] || '—'}</td>
+                            ))}
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                    {group.rows.length > VISIBLE_ROW_COUNT && (
+                      <p className="mt-2 text-xs text-gray-500 dark:text-gray-400">
+                        Showing {VISIBLE_ROW_COUNT} of {group.rows.length} rows. Download the report for the full list.
+                      </p>
+                    )}
+                  </div>
+                )}
+              </li>
+            )
+          })}
+        </ul>
+      )}
+    </div>
+  )
+}
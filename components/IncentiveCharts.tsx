@@ -0,0 +1,174 @@
+'use client'
+
+import { useMemo } from 'react'
+import {
+  Bar,
+  BarChart,
+  CartesianGrid,
+  Legend,
+  Line,
+  LineChart,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from 'recharts'
+import type { SalespersonMetric } from '@/lib/incentiveParser'
+import {
+  CORRECTIONS_SERIES,
+  buildCoOccurrence,
+  buildDailyTrend,
+  buildDepartmentCountDistribution,
+  buildSlabBreakdown,
+} from '@/lib/incentiveCharts'
+import type { DateRange } from '@/lib/periods'
+
+type IncentiveChartsProps = {
+  metrics: SalespersonMetric[]
+  range: DateRange | null // null shows all time
+}
+
+// Light to dark so bigger baskets stand out
+const SLAB_COLORS = ['#bfdbfe', '#93c5fd', '#60a5fa', '#3b82f6', '#2563eb', '#1d4ed8']
+const CORRECTIONS_COLOR = '#ef4444'
+const AXIS_COLOR = '#9ca3af'
+
+const formatCurrency = (value: number) => `₹${value.toLocaleString(undefined, { maximumFractionDigits: 2 })}`
+
+function ChartCard({ title, description, children }: { title: string; description: string; children: React.ReactNode }) {
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow border border-gray-200 dark:border-gray-700">
+      <div className="p-6 border-b border-gray-200 dark:border-gray-700">
+        <h2 className="text-lg font-semibold text-gray-900 dark:text-white">{title}</h2>
+        <p className="text-sm text-gray-600 dark:text-gray-400">{description}</p>
+      </div>
+      <div className="p-6">{children}</div>
+    </div>
+  )
+}
+
+function EmptyChart() {
+  return <p className="py-16 text-center text-sm text-gray-500 dark:text-gray-400">No data in the selected timeline.</p>
+}
+
+export default function IncentiveCharts({ metrics, range }: IncentiveChartsProps) {
+  const trend = useMemo(() => buildDailyTrend(metrics, range), [metrics, range])
+  const distribution = useMemo(() => buildDepartmentCountDistribution(metrics, range), [metrics, range])
+  const slabs = useMemo(() => buildSlabBreakdown(metrics, range), [metrics, range])
+  const coOccurrence = useMemo(() => buildCoOccurrence(metrics, range), [metrics, range])
+
+  const hasVisits = distribution.some((bucket) => bucket.visits > 0)
+  const maxPairCount = Math.max(
+    1,
+    ...coOccurrence.counts.flatMap((row, i) => row.filter((_, j) => j !== i))
+  )
+
+  return (
+    <div className="mt-8 grid grid-cols-1 lg:grid-cols-2 gap-6">
+      <ChartCard title="Daily Incentive" description="Incentive earned per day, net of clawbacks and adjustments.">
+        {trend.length === 0 ? (
+          <EmptyChart />
+        ) : (
+          <ResponsiveContainer width="100%" height={280}>
+            <LineChart data={trend}>
+              <CartesianGrid strokeDasharray="3 3" stroke={AXIS_COLOR} strokeOpacity={0.3} />
+              <XAxis dataKey="label" stroke={AXIS_COLOR} fontSize={12} />
+              <YAxis stroke={AXIS_COLOR} fontSize={12} tickFormatter={formatCurrency} width={80} />
+              <Tooltip formatter={(value) => formatCurrency(Number(value))} />
+              <Line type="monotone" dataKey="amount" name="Incentive" stroke="#2563eb" strokeWidth={2} dot={trend.length <= 31} />
+            </LineChart>
+          </ResponsiveContainer>
+        )}
+      </ChartCard>
+
+      <ChartCard title="Visits by Department Count" description="Customer visits by how many departments they covered.">
+        {!hasVisits ? (
+          <EmptyChart />
+        ) : (
+          <ResponsiveContainer width="100%" height={280}>
+            <BarChart data={distribution}>
+              <CartesianGrid strokeDasharray="3 3" stroke={AXIS_COLOR} strokeOpacity={0.3} />
+              <XAxis dataKey="bucket" stroke={AXIS_COLOR} fontSize={12} label={{ value: 'Departments', position: 'insideBottom', offset: -4, fill: AXIS_COLOR, fontSize: 12 }} />
+              <YAxis stroke={AXIS_COLOR} fontSize={12} allowDecimals={false} />
+              <Tooltip />
+              <Bar dataKey="visits" name="Visits" fill="#2563eb" radius={[4, 4, 0, 0]} />
+            </BarChart>
+          </ResponsiveContainer>
+        )}
+      </ChartCard>
+
+      <ChartCard
+        title="Incentive by Slab"
+        description="Each salesperson's incentive split by the department count of the visits that earned it."
+      >
+        {slabs.rows.length === 0 ? (
+          <EmptyChart />
+        ) : (
+          <ResponsiveContainer width="100%" height={Math.max(280, slabs.rows.length * 32)}>
+            <BarChart data={slabs.rows} layout="vertical" stackOffset="sign">
+              <CartesianGrid strokeDasharray="3 3" stroke={AXIS_COLOR} strokeOpacity={0.3} />
+              <XAxis type="number" stroke={AXIS_COLOR} fontSize={12} tickFormatter={formatCurrency} />
+              <YAxis type="category" dataKey="name" stroke={AXIS_COLOR} fontSize={12} width={110} />
+              <Tooltip formatter={(value) => formatCurrency(Number(value))} />
+              <Legend />
+              {slabs.series.map((series, index) => (
+                <Bar
+                  key={series}
+                  dataKey={series}
+                  stackId="slabs"
+                  fill={series === CORRECTIONS_SERIES ? CORRECTIONS_COLOR : SLAB_COLORS[Math.min(index, SLAB_COLORS.length - 1)]}
+                />
+              ))}
+            </BarChart>
+          </ResponsiveContainer>
+        )}
+      </ChartCard>
+
+      <ChartCard
+        title="Department Co-occurrence"
+        description="Visits covering both departments; the diagonal counts all visits to a department."
+      >
+        {coOccurrence.departments.length === 0 ? (
+          <EmptyChart />
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="text-xs">
+              <thead>
+                <tr>
+                  <th />
+                  {coOccurrence.departments.map((department) => (
+                    <th key={department} className="px-1 pb-2 font-medium text-gray-600 dark:text-gray-400 capitalize align-bottom">
+                      <span className="block max-w-[5rem] truncate" title={department}>{department}</span>
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {coOccurrence.departments.map((department, i) => (
+                  <tr key={department}>
+                    <th className="pr-2 text-right font-medium text-gray-600 dark:text-gray-400 capitalize whitespace-nowrap">{department}</th>
+                    {coOccurrence.counts[i].map((count, j) => (
+                      <td
+                        key={j}
+                        title={`${department} + ${coOccurrence.departments[j]}: ${count} visits`}
+                        className={`w-12 h-10 text-center border border-white dark:border-gray-800 ${i === j
+                          ? 'bg-gray-100 dark:bg-gray-700 text-gray-500 dark:text-gray-400'
+                          : count / maxPairCount > 0.5
+                            ? 'text-white'
+                            : 'text-gray-900 dark:text-gray-100'
+                          }`}
+                        style={i === j ? undefined : { backgroundColor: `rgba(37, 99, 235, ${count / maxPairCount})` }}
+                      >
+                        {count || ''}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </ChartCard>
+    </div>
+  )
+}
@@ -3,9 +3,11 @@
 import { useAuth } from '@/contexts/AuthContext'
 import { usePathname } from 'next/navigation'
 import Sidebar from '@/components/Sidebar'
+import AccessDenied from '@/components/AccessDenied'
+import { canAccessPage } from '@/lib/permissions'
 
 export default function LayoutContent({ children }: { children: React.ReactNode }) {
-  const { isAuthenticated } = useAuth()
+  const { user, isAuthenticated } = useAuth()
   const pathname = usePathname()
 
   // Don't show sidebar on login page
@@ -13,13 +15,13 @@ export default function LayoutContent({ children }: { children: React.ReactNode
     return <>{children}</>
   }
 
-  // Show sidebar for authenticated users
+  // Show sidebar for authenticated users, guarding pages their role cannot access
   if (isAuthenticated) {
     return (
       <div className="flex">
         <Sidebar />
         <div className="flex-1 min-h-screen">
-          {children}
+          {canAccessPage(user?.role, pathname) ? children : <AccessDenied />}
         </div>
       </div>
     )
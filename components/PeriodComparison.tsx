@@ -0,0 +1,192 @@
+'use client'
+
+import { useEffect, useMemo, useState } from 'react'
+import type { SalespersonMetric } from '@/lib/incentiveParser'
+import { comparePeriods, type ComparisonRow } from '@/lib/periodComparison'
+import { formatRangeLabel, type DateRange } from '@/lib/periods'
+
+type PeriodComparisonProps = {
+  metrics: SalespersonMetric[]
+  currentRange: DateRange
+  currentLabel: string
+  defaultPreviousRange: DateRange // Period before the current one, e.g. the previous month
+}
+
+type SortKey = 'rank' | 'incentiveChange' | 'multiDepartmentChange' | 'averageDepartmentsChange'
+
+const SORT_LABELS: Record<SortKey, string> = {
+  rank: 'Current rank',
+  incentiveChange: 'Incentive change',
+  multiDepartmentChange: 'Multi-department rate change',
+  averageDepartmentsChange: 'Departments per visit change',
+}
+
+const inputClassName = 'rounded-md border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 px-3 py-2 text-sm text-gray-900 dark:text-gray-100 focus:outline-none focus:ring-2 focus:ring-blue-500'
+
+// Difference between two optional values; null when either side is missing
+const change = (current: number | null, previous: number | null) =>
+  current !== null && previous !== null ? current - previous : null
+
+const SORT_VALUES: Record<Exclude<SortKey, 'rank'>, (row: ComparisonRow) => number | null> = {
+  incentiveChange: (row) => row.current.incentive - row.previous.incentive,
+  multiDepartmentChange: (row) => change(row.current.multiDepartmentRate, row.previous.multiDepartmentRate),
+  averageDepartmentsChange: (row) => change(row.current.averageDepartments, row.previous.averageDepartments),
+}
+
+const formatCurrency = (value: number) => `₹${value.toLocaleString(undefined, { maximumFractionDigits: 2 })}`
+const formatDepartments = (value: number) => value.toFixed(2)
+const formatRate = (value: number) => `${Math.round(value * 100)}%`
+
+function Delta({ value, format }: { value: number | null; format: (value: number) => string }) {
+  if (value === null || Math.abs(value) < 0.005) {
+    return <span className="text-xs text-gray-400 dark:text-gray-500">—</span>
+  }
+  return (
+    <span className={`text-xs font-medium ${value > 0 ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'}`}>
+      {value > 0 ? '+' : '−'}{format(Math.abs(value))}
+    </span>
+  )
+}
+
+function ComparedValue({
+  current,
+  previous,
+  format,
+}: {
+  current: number | null
+  previous: number | null
+  format: (value: number) => string
+}) {
+  return (
+    <div>
+      <p className="text-sm font-semibold text-gray-900 dark:text-white">{current === null ? '—' : format(current)}</p>
+      <p className="text-xs text-gray-500 dark:text-gray-400">
+        was {previous === null ? '—' : format(previous)} <Delta value={change(current, previous)} format={format} />
+      </p>
+    </div>
+  )
+}
+
+export default function PeriodComparison({ metrics, currentRange, currentLabel, defaultPreviousRange }: PeriodComparisonProps) {
+  const [previousFrom, setPreviousFrom] = useState(defaultPreviousRange.from)
+  const [previousTo, setPreviousTo] = useState(defaultPreviousRange.to)
+  const [sortKey, setSortKey] = useState<SortKey>('rank')
+
+  // Follow the dashboard timeframe until the comparison period is picked by hand
+  useEffect(() => {
+    setPreviousFrom(defaultPreviousRange.from)
+    setPreviousTo(defaultPreviousRange.to)
+  }, [defaultPreviousRange.from, defaultPreviousRange.to])
+
+  const previousRange = useMemo<DateRange | null>(
+    () => (previousFrom && previousTo && previousFrom <= previousTo ? { from: previousFrom, to: previousTo } : null),
+    [previousFrom, previousTo]
+  )
+
+  const rows = useMemo(() => {
+    if (!previousRange) return []
+    const compared = comparePeriods(metrics, currentRange, previousRange)
+    if (sortKey === 'rank') return compared
+    const valueOf = SORT_VALUES[sortKey]
+    return [...compared].sort((a, b) => (valueOf(b) ?? -Infinity) - (valueOf(a) ?? -Infinity))
+  }, [metrics, currentRange, previousRange, sortKey])
+
+  return (
+    <div className="mt-8 bg-white dark:bg-gray-800 rounded-lg shadow border border-gray-200 dark:border-gray-700">
+      <div className="p-6 border-b border-gray-200 dark:border-gray-700 flex flex-col gap-4 lg:flex-row lg:items-center lg:justify-between">
+        <div>
+          <h2 className="text-xl font-semibold text-gray-900 dark:text-white">Period Comparison</h2>
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            {currentLabel} compared with {previousRange ? formatRangeLabel(previousRange) : 'the chosen period'}. Ranks are by incentive.
+          </p>
+        </div>
+        <div className="flex flex-col gap-3 sm:flex-row sm:items-center">
+          <div className="flex items-center gap-2">
+            <input
+              type="date"
+              value={previousFrom}
+              max={previousTo || undefined}
+              onChange={(event) => setPreviousFrom(event.target.value)}
+              className={inputClassName}
+            />
+            <span className="text-sm text-gray-500 dark:text-gray-400">to</span>
+            <input
+              type="date"
+              value={previousTo}
+              min={previousFrom || undefined}
+              onChange={(event) => setPreviousTo(event.target.value)}
+              className={inputClassName}
+            />
+          </div>
+          <select value={sortKey} onChange={(event) => setSortKey(event.target.value as SortKey)} className={inputClassName}>
+            {(Object.keys(SORT_LABELS) as SortKey[]).map((key) => (
+              <option key={key} value={key}>Sort by {SORT_LABELS[key].toLowerCase()}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {rows.length === 0 ? (
+        <p className="p-6 text-sm text-gray-500 dark:text-gray-400">
+          {previousRange ? 'No salesperson has visits in either period.' : 'Choose a start date on or before the end date.'}
+        </p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
+            <thead className="bg-gray-50 dark:bg-gray-900/40">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-gray-500 dark:text-gray-400">Rank</th>
+                <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-gray-500 dark:text-gray-400">Salesperson</th>
+                <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-gray-500 dark:text-gray-400">Incentive</th>
+                <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-gray-500 dark:text-gray-400">Customers</th>
+                <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-gray-500 dark:text-gray-400">Depts / Visit</th>
+                <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-gray-500 dark:text-gray-400">Multi-Dept Visits</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+              {rows.map((row) => (
+                <tr key={row.name}>
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <p className="text-sm font-semibold text-gray-900 dark:text-white">{row.currentRank ?? '—'}</p>
+                    <p className="text-xs">
+                      {row.rankChange === null ? (
+                        <span className="text-gray-500 dark:text-gray-400">{row.previousRank === null ? 'New' : `was ${row.previousRank}`}</span>
+                      ) : row.rankChange === 0 ? (
+                        <span className="text-gray-500 dark:text-gray-400">No change</span>
+                      ) : (
+                        <span className={row.rankChange > 0 ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'}>
+                          {row.rankChange > 0 ? '▲' : '▼'} {Math.abs(row.rankChange)}
+                        </span>
+                      )}
+                    </p>
+                  </td>
+                  <td className="px-6 py-4 text-sm font-medium text-gray-900 dark:text-white">{row.name}</td>
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <ComparedValue current={row.current.incentive} previous={row.previous.incentive} format={formatCurrency} />
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <ComparedValue current={row.current.customers} previous={row.previous.customers} format={String} />
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <ComparedValue
+                      current={row.current.averageDepartments}
+                      previous={row.previous.averageDepartments}
+                      format={formatDepartments}
+                    />
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <ComparedValue
+                      current={row.current.multiDepartmentRate}
+                      previous={row.previous.multiDepartmentRate}
+                      format={formatRate}
+                    />
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -2,7 +2,8 @@
 
 import Link from 'next/link'
 import { usePathname } from 'next/navigation'
-import { useAuth, type UserRole } from '@/contexts/AuthContext'
+import { useAuth } from '@/contexts/AuthContext'
+import { hasAnyPermission, ROLE_LABELS, type Permission } from '@/lib/permissions'
 
 export default function Sidebar() {
   const pathname = usePathname()
@@ -18,7 +19,7 @@ export default function Sidebar() {
           <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8c-1.657 0-3 .895-3 2s1.343 2 3 2 3 .895 3 2-1.343 2-3 2m0-8c1.11 0 2.08.402 2.599 1M12 8V7m0 1v8m0 0v1m0-1c-1.11 0-2.08-.402-2.599-1M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
         </svg>
       ),
-      roles: ['ADMIN'] as UserRole[], // Only Admin can see this
+      permissions: ['VIEW_INCENTIVES', 'VIEW_OWN_INCENTIVE'] as Permission[],
     },
     {
       name: 'Customer Details',
@@ -28,7 +29,7 @@ export default function Sidebar() {
           <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17 20h5v-2a3 3 0 00-5.356-1.857M17 20H7m10 0v-2c0-.656-.126-1.283-.356-1.857M7 20H2v-2a3 3 0 015.356-1.857M7 20v-2c0-.656.126-1.283.356-1.857m0 0a5.002 5.002 0 019.288 0M15 7a3 3 0 11-6 0 3 3 0 016 0zm6 3a2 2 0 11-4 0 2 2 0 014 0zM7 10a2 2 0 11-4 0 2 2 0 014 0z" />
         </svg>
       ),
-      roles: ['ADMIN', 'TELECALLER'] as UserRole[], // Both can see this (CRM part)
+      permissions: ['VIEW_CUSTOMERS'] as Permission[],
     },
     {
       name: 'Calling',
@@ -38,16 +39,96 @@ export default function Sidebar() {
           <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 5a2 2 0 012-2h3.28a1 1 0 01.948.684l1.498 4.493a1 1 0 01-.502 1.21l-2.257 1.13a11.042 11.042 0 005.516 5.516l1.13-2.257a1 1 0 011.21-.502l4.493 1.498a1 1 0 01.684.949V19a2 2 0 01-2 2h-1C9.716 21 3 14.284 3 6V5z" />
         </svg>
       ),
-      roles: ['ADMIN', 'TELECALLER'] as UserRole[], // Both can see this (CRM part)
+      permissions: ['MAKE_CALLS'] as Permission[],
+    },
+    {
+      name: 'Basket Analysis',
+      href: '/basket-analysis',
+      icon: (
+        <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 3h2l.4 2M7 13h10l4-8H5.4M7 13L5.4 5M7 13l-2.293 2.293c-.63.63-.184 1.707.707 1.707H17m0 0a2 2 0 100 4 2 2 0 000-4zm-8 2a2 2 0 11-4 0 2 2 0 014 0z" />
+        </svg>
+      ),
+      permissions: ['VIEW_CUSTOMERS', 'MAKE_CALLS'] as Permission[],
+    },
+    {
+      name: 'Call Feedback',
+      href: '/call-feedback',
+      icon: (
+        <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 10h.01M12 10h.01M16 10h.01M9 16H5a2 2 0 01-2-2V6a2 2 0 012-2h14a2 2 0 012 2v8a2 2 0 01-2 2h-5l-5 5v-5z" />
+        </svg>
+      ),
+      permissions: ['VIEW_CALL_FEEDBACK'] as Permission[],
+    },
+    {
+      name: 'Non-visit Reasons',
+      href: '/non-visit-reasons',
+      icon: (
+        <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8.228 9c.549-1.165 2.03-2 3.772-2 2.21 0 4 1.343 4 3 0 1.4-1.278 2.575-3.006 2.907-.542.104-.994.54-.994 1.093m0 3h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
+        </svg>
+      ),
+      permissions: ['VIEW_CALL_FEEDBACK'] as Permission[],
+    },
+    {
+      name: 'Users',
+      href: '/users',
+      icon: (
+        <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4.354a4 4 0 110 5.292M15 21H3v-1a6 6 0 0112 0v1zm0 0h6v-1a6 6 0 00-9-5.197M13 7a4 4 0 11-8 0 4 4 0 018 0z" />
+        </svg>
+      ),
+      permissions: ['MANAGE_USERS'] as Permission[],
+    },
+    {
+      name: 'Incentive Schemes',
+      href: '/incentive-schemes',
+      icon: (
+        <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 7h6m0 10v-3m-3 3h.01M9 17h.01M9 14h.01M12 14h.01M15 11h.01M12 11h.01M9 11h.01M7 21h10a2 2 0 002-2V5a2 2 0 00-2-2H7a2 2 0 00-2 2v14a2 2 0 002 2z" />
+        </svg>
+      ),
+      permissions: ['MANAGE_INCENTIVE_SCHEMES'] as Permission[],
+    },
+    {
+      name: 'Pay Periods',
+      href: '/incentive-periods',
+      icon: (
+        <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 15v2m-6 4h12a2 2 0 002-2v-6a2 2 0 00-2-2H6a2 2 0 00-2 2v6a2 2 0 002 2zm10-10V7a4 4 0 00-8 0v4h8z" />
+        </svg>
+      ),
+      permissions: ['MANAGE_INCENTIVE_PERIODS'] as Permission[],
+    },
+    {
+      name: 'Departments',
+      href: '/departments',
+      icon: (
+        <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 21V5a2 2 0 00-2-2H7a2 2 0 00-2 2v16m14 0h2m-2 0h-5m-9 0H3m2 0h5M9 7h1m-1 4h1m4-4h1m-1 4h1m-5 10v-5a1 1 0 011-1h2a1 1 0 011 1v5m-4 0h4" />
+        </svg>
+      ),
+      permissions: ['MANAGE_DEPARTMENTS'] as Permission[],
+    },
+    {
+      name: 'Item Groups',
+      href: '/departments/item-groups',
+      icon: (
+        <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M7 7h.01M7 3h5c.512 0 1.024.195 1.414.586l7 7a2 2 0 010 2.828l-7 7a2 2 0 01-2.828 0l-7-7A1.994 1.994 0 013 12V7a4 4 0 014-4z" />
+        </svg>
+      ),
+      permissions: ['MANAGE_DEPARTMENTS'] as Permission[],
     },
   ]
 
-  // Filter nav items based on user role
+  // Filter nav items based on the permissions of the user's role
   const navItems = user
-    ? allNavItems.filter((item) => item.roles.includes(user.role))
+    ? allNavItems.filter((item) => hasAnyPermission(user.role, item.permissions))
     : []
 
-  const roleDisplayName = user?.role === 'ADMIN' ? 'Admin' : 'Telecaller'
+  const roleDisplayName = user ? ROLE_LABELS[user.role] : ''
 
   return (
     <aside className="w-64 bg-white dark:bg-gray-800 border-r border-gray-200 dark:border-gray-700 min-h-screen flex flex-col">
@@ -56,7 +137,7 @@ export default function Sidebar() {
         {user && (
           <div className="mt-2">
             <p className="text-xs text-gray-600 dark:text-gray-400">
-              Logged in as: <span className="font-semibold">{user.username}</span>
+              Logged in as: <span className="font-semibold">{user.name}</span>
             </p>
             <p className="text-xs text-blue-600 dark:text-blue-400 font-medium">
               {roleDisplayName}
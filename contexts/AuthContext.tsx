@@ -1,104 +1,67 @@
 'use client'
 
-import { createContext, useContext, useState, useEffect, ReactNode } from 'react'
+import { createContext, useContext, useEffect, ReactNode } from 'react'
 import { useRouter, usePathname } from 'next/navigation'
+import { SessionProvider, signIn, signOut, useSession } from 'next-auth/react'
+import type { UserRole } from '@prisma/client'
+import { getHomePath } from '@/lib/permissions'
 
-export type UserRole = 'ADMIN' | 'TELECALLER'
+export type { UserRole }
 
 export type User = {
-  username: string
+  id: string
+  name: string
+  email: string
   role: UserRole
 }
 
 type AuthContextType = {
   user: User | null
-  login: (username: string, password: string) => boolean
+  login: (email: string, password: string) => Promise<boolean>
   logout: () => void
   isAuthenticated: boolean
+  isLoading: boolean
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined)
 
-// Simple credentials storage (hardcoded)
-const CREDENTIALS = {
-  admin: {
-    username: 'admin',
-    password: 'admin123',
-    role: 'ADMIN' as UserRole,
-  },
-  telecaller: {
-    username: 'telecaller',
-    password: 'telecaller123',
-    role: 'TELECALLER' as UserRole,
-  },
-}
-
-export function AuthProvider({ children }: { children: ReactNode }) {
-  const [user, setUser] = useState<User | null>(null)
+function AuthStateProvider({ children }: { children: ReactNode }) {
+  const { data: session, status } = useSession()
   const router = useRouter()
   const pathname = usePathname()
 
-  // Check if user is logged in on mount
-  useEffect(() => {
-    const storedUser = localStorage.getItem('user')
-    if (storedUser) {
-      try {
-        setUser(JSON.parse(storedUser))
-      } catch (e) {
-        localStorage.removeItem('user')
+  const user: User | null = session?.user
+    ? {
+        id: session.user.id,
+        name: session.user.name ?? '',
+        email: session.user.email ?? '',
+        role: session.user.role,
       }
-    }
-  }, [])
+    : null
 
   // Protect routes based on authentication
   useEffect(() => {
+    if (status === 'loading') return
     const isLoginPage = pathname === '/login'
-    
+
     if (!user && !isLoginPage) {
       router.push('/login')
     } else if (user && isLoginPage) {
-      router.push('/')
-    }
-  }, [user, pathname, router])
-
-  const login = (username: string, password: string): boolean => {
-    const normalizedUsername = username.toLowerCase().trim()
-    
-    // Check admin credentials
-    if (
-      normalizedUsername === CREDENTIALS.admin.username &&
-      password === CREDENTIALS.admin.password
-    ) {
-      const userData: User = {
-        username: CREDENTIALS.admin.username,
-        role: CREDENTIALS.admin.role,
-      }
-      setUser(userData)
-      localStorage.setItem('user', JSON.stringify(userData))
-      return true
+      router.push(getHomePath(user.role))
     }
+  }, [user, status, pathname, router])
 
-    // Check telecaller credentials
-    if (
-      normalizedUsername === CREDENTIALS.telecaller.username &&
-      password === CREDENTIALS.telecaller.password
-    ) {
-      const userData: User = {
-        username: CREDENTIALS.telecaller.username,
-        role: CREDENTIALS.telecaller.role,
-      }
-      setUser(userData)
-      localStorage.setItem('user', JSON.stringify(userData))
-      return true
-    }
-
-    return false
+  const login = async (email: string, password: string): Promise<boolean> => {
+    const result = await signIn('credentials', {
+      email: email.toLowerCase().trim(),
+      password,
+      redirect: false,
+    })
+    return !!result?.ok && !result.error
   }
 
   const logout = () => {
-    setUser(null)
-    localStorage.removeItem('user')
-    router.push('/login')
+    signOut({ callbackUrl: '/login' })
   }
 
   return (
@@ -108,6 +71,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         login,
         logout,
         isAuthenticated: !!user,
+        isLoading: status === 'loading',
       }}
     >
       {children}
@@ -115,6 +79,14 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   )
 }
 
+export function AuthProvider({ children }: { children: ReactNode }) {
+  return (
+    <SessionProvider>
+      <AuthStateProvider>{children}</AuthStateProvider>
+    </SessionProvider>
+  )
+}
+
 export function useAuth() {
   const context = useContext(AuthContext)
   if (context === undefined) {
@@ -0,0 +1,64 @@
+import { strict as assert } from 'node:assert'
+import { describe, it } from 'node:test'
+import { analyzeBaskets, MIN_RULE_VISITS, recommendDepartments } from '../basketAnalysis'
+
+describe('analyzeBaskets', () => {
+  const analysis = analyzeBaskets([
+    ['sarees', 'kurtas'],
+    ['sarees', 'kurtas', 'kurtas'],
+    ['kurtas', 'sarees', 'kids'],
+    ['sarees'],
+    ['kids'],
+    [],
+  ])
+
+  it('counts each department once per visit and skips empty visits', () => {
+    assert.equal(analysis.totalVisits, 5)
+    assert.deepEqual(analysis.departmentVisits, { kurtas: 3, sarees: 4, kids: 2 })
+  })
+
+  it('scores pairs by support, confidence in both directions and lift', () => {
+    const pair = analysis.pairs[0]
+    assert.deepEqual(pair.departments, ['kurtas', 'sarees'])
+    assert.equal(pair.visits, 3)
+    assert.equal(pair.support, 3 / 5)
+    assert.deepEqual(pair.confidence, [3 / 3, 3 / 4])
+    assert.equal(pair.lift, (3 / 5) / ((3 / 5) * (4 / 5)))
+  })
+
+  it('finds triples', () => {
+    assert.deepEqual(analysis.triples.map((triple) => [triple.departments, triple.visits]), [[['kids', 'kurtas', 'sarees'], 1]])
+    assert.equal(analysis.triples[0].lift, (1 / 5) / ((2 / 5) * (3 / 5) * (4 / 5)))
+  })
+
+  it(`only draws rules from pairs seen at least ${MIN_RULE_VISITS} times, strongest first`, () => {
+    assert.deepEqual(
+      analysis.rules.map(({ from, to, confidence }) => [from, to, confidence]),
+      [['kurtas', 'sarees', 1], ['sarees', 'kurtas', 0.75]]
+    )
+  })
+
+  it('handles no visits at all', () => {
+    assert.deepEqual(analyzeBaskets([]), { totalVisits: 0, departmentVisits: {}, pairs: [], triples: [], rules: [] })
+  })
+})
+
+describe('recommendDepartments', () => {
+  const analysis = analyzeBaskets([
+    ['sarees', 'kurtas'],
+    ['sarees', 'kurtas'],
+    ['sarees', 'kurtas'],
+    ['mens'],
+    ['mens'],
+  ])
+
+  it('pitches departments not visited yet from rules with a lift above 1', () => {
+    assert.deepEqual(recommendDepartments(analysis, ['sarees'], ['kurtas', 'mens']), [
+      { department: 'kurtas', basedOn: 'sarees', confidence: 1, lift: (3 / 5) / ((3 / 5) * (3 / 5)) },
+    ])
+  })
+
+  it('pitches nothing without a supporting rule', () => {
+    assert.deepEqual(recommendDepartments(analysis, ['mens'], ['sarees', 'kurtas']), [])
+  })
+})
@@ -0,0 +1,134 @@
+import { strict as assert } from 'node:assert'
+import { describe, it } from 'node:test'
+import { CALL_DISPOSITIONS, DISPOSITIONS, dispositionOf, parseDisposition } from '../callDispositions'
+import { CallInputError, parseFeedback, parseNonVisitReasons } from '../callInput'
+
+const FUTURE_DATE = '2099-01-15'
+
+const connectedFeedback = {
+  customerMood: 'HAPPY',
+  rating: 4,
+  likedStore: true,
+  staffHelpful: false,
+  improvementNeeded: true,
+  improvementComments: '  More trial rooms  ',
+}
+
+const rejects = (input: Record<string, unknown>, message: RegExp, disposition = DISPOSITIONS.CONNECTED) =>
+  assert.throws(() => parseFeedback(input, disposition), (err: unknown) => err instanceof CallInputError && message.test(err.message))
+
+describe('call dispositions', () => {
+  it('maps every disposition to a status and outcome pair that maps back to it', () => {
+    CALL_DISPOSITIONS.forEach((key) => {
+      assert.equal(dispositionOf(DISPOSITIONS[key].callStatus, DISPOSITIONS[key].outcome), key)
+    })
+    assert.equal(dispositionOf('COMPLETED', null), null)
+  })
+
+  it('reads canonical keys and the original form labels, and nothing else', () => {
+    assert.equal(parseDisposition('BUSY'), 'BUSY')
+    assert.equal(parseDisposition(' Call Back '), 'CALL_BACK')
+    assert.equal(parseDisposition('Hung up'), null)
+    assert.equal(parseDisposition('toString'), null)
+    assert.equal(parseDisposition('constructor'), null)
+  })
+})
+
+describe('parseFeedback', () => {
+  it('keeps mood, rating, answers and trimmed comments of a connected call', () => {
+    const feedback = parseFeedback(connectedFeedback, DISPOSITIONS.CONNECTED)
+    assert.equal(feedback.outcome, 'SUCCESSFUL')
+    assert.equal(feedback.customerMood, 'HAPPY')
+    assert.equal(feedback.rating, 4)
+    assert.equal(feedback.likedStore, true)
+    assert.equal(feedback.staffHelpful, false)
+    assert.equal(feedback.revisitStore, null)
+    assert.equal(feedback.improvementComments, 'More trial rooms')
+    assert.equal(feedback.requiresFollowUp, false)
+    assert.equal(feedback.followUpDate, null)
+    assert.equal(feedback.followUpReason, null)
+  })
+
+  it('drops everything but the outcome and follow-up when the customer was not reached', () => {
+    const feedback = parseFeedback(
+      { ...connectedFeedback, requiresFollowUp: true, followUpDate: FUTURE_DATE, followUpReason: 'Try in the evening' },
+      DISPOSITIONS.BUSY
+    )
+    assert.equal(feedback.outcome, 'BUSY')
+    assert.equal(feedback.customerMood, 'UNKNOWN')
+    assert.equal(feedback.rating, null)
+    assert.equal(feedback.likedStore, null)
+    assert.equal(feedback.improvementComments, null)
+    assert.deepEqual(feedback.followUpDate, new Date(`${FUTURE_DATE}T00:00:00Z`))
+    assert.equal(feedback.followUpReason, 'Try in the evening')
+  })
+
+  it('requires a date that is not in the past and a reason for a follow-up', () => {
+    const followUp = { requiresFollowUp: true, followUpDate: FUTURE_DATE, followUpReason: 'Wants new arrivals' }
+    rejects({ ...followUp, followUpDate: '' }, /follow-up date/)
+    rejects({ ...followUp, followUpDate: '2000-01-01' }, /cannot be in the past/)
+    rejects({ ...followUp, followUpReason: '   ' }, /reason for the follow-up/)
+    rejects({ ...followUp, followUpReason: 'x'.repeat(201) }, /at most 200 characters/)
+  })
+
+  it('ignores follow-up fields when no follow-up was requested', () => {
+    const feedback = parseFeedback({ followUpDate: '2000-01-01', followUpReason: 'Old' }, DISPOSITIONS.WRONG_NUMBER)
+    assert.equal(feedback.followUpDate, null)
+    assert.equal(feedback.followUpReason, null)
+  })
+
+  it('rejects unknown or malformed values', () => {
+    rejects({ customerMood: 'ECSTATIC' }, /mood/)
+    rejects({ customerMood: 'toString' }, /mood/)
+    rejects({ customerMood: '__proto__' }, /mood/)
+    rejects({ rating: 6 }, /Rating/)
+    rejects({ rating: 2.5 }, /Rating/)
+    rejects({ likedStore: 'yes' }, /answered yes or no/)
+    rejects({ improvementNeeded: true }, /would like us to improve/)
+    rejects({ nonVisitedReasons: 'sarees' }, /must be a list/)
+  })
+})
+
+describe('parseNonVisitReasons', () => {
+  const rejectsReasons = (value: unknown, message: RegExp) =>
+    assert.throws(() => parseNonVisitReasons(value), (err: unknown) => err instanceof CallInputError && message.test(err.message))
+
+  it('trims departments and details and keeps only the fields given', () => {
+    assert.deepEqual(
+      parseNonVisitReasons([
+        { department: ' Sarees ', reason: 'no_time' },
+        { department: 'Kids', reason: 'other', reasonDetails: ' Came with a friend ', salespersonMentioned: true },
+      ]),
+      [
+        { department: 'Sarees', reason: 'no_time' },
+        { department: 'Kids', reason: 'other', reasonDetails: 'Came with a friend', salespersonMentioned: true },
+      ]
+    )
+    assert.deepEqual(parseNonVisitReasons(undefined), [])
+  })
+
+  it('rejects unknown reasons, including keys inherited from Object.prototype', () => {
+    ;['toString', 'constructor', '__proto__', 'hasOwnProperty', 'bored'].forEach((reason) => {
+      rejectsReasons([{ department: 'Sarees', reason }], /Choose why/)
+    })
+  })
+
+  it('needs one reason per department and details for "other"', () => {
+    rejectsReasons([{ reason: 'no_time' }], /needs a department/)
+    rejectsReasons(
+      [
+        { department: 'Sarees', reason: 'no_time' },
+        { department: 'Sarees', reason: 'not_interested' },
+      ],
+      /one reason for "Sarees"/
+    )
+    rejectsReasons([{ department: 'Sarees', reason: 'other' }], /Describe why/)
+  })
+
+  it('rejects a department both mentioned and not informed by the salesperson', () => {
+    rejectsReasons(
+      [{ department: 'Sarees', reason: 'not_informed_by_salesperson', salespersonMentioned: true }],
+      /both mentioned and not informed/
+    )
+  })
+})
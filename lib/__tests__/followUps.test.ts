@@ -0,0 +1,30 @@
+import { strict as assert } from 'node:assert'
+import { describe, it } from 'node:test'
+import { businessToday, followUpUrgency } from '../followUps'
+
+describe('businessToday', () => {
+  it('turns to the next day at midnight in India, 18:30 UTC', () => {
+    assert.equal(businessToday(new Date('2026-10-19T18:29:59Z')), '2026-10-19')
+    assert.equal(businessToday(new Date('2026-10-19T18:30:00Z')), '2026-10-20')
+    assert.equal(businessToday(new Date('2026-10-19T23:30:00Z')), '2026-10-20')
+  })
+
+  it('is still the same day in India just after UTC midnight', () => {
+    assert.equal(businessToday(new Date('2026-10-20T00:30:00Z')), '2026-10-20')
+  })
+
+  it('rolls over months and years', () => {
+    assert.equal(businessToday(new Date('2026-10-31T20:00:00Z')), '2026-11-01')
+    assert.equal(businessToday(new Date('2026-12-31T19:00:00Z')), '2027-01-01')
+  })
+})
+
+describe('followUpUrgency', () => {
+  it('compares the reminder date with the business day', () => {
+    // 23:30 UTC on the 19th is already the 20th at the store
+    const today = businessToday(new Date('2026-10-19T23:30:00Z'))
+    assert.equal(followUpUrgency('2026-10-19', today), 'overdue')
+    assert.equal(followUpUrgency('2026-10-20', today), 'due')
+    assert.equal(followUpUrgency('2026-10-21', today), 'upcoming')
+  })
+})
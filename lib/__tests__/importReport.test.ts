@@ -0,0 +1,56 @@
+import { strict as assert } from 'node:assert'
+import { describe, it } from 'node:test'
+import { buildImportReport, type ImportIssue, type ImportIssueReason } from '../importReport'
+
+const issue = (
+  reason: ImportIssueReason,
+  rowNumber: number,
+  fileName: string | null = 'sales.xlsx',
+  sheetName = 'Sales'
+): ImportIssue => ({
+  fileName,
+  sheetName,
+  rowNumber,
+  cells: {},
+  reason,
+})
+
+describe('buildImportReport', () => {
+  it('counts a row skipped for several reasons once', () => {
+    const report = buildImportReport(10, [issue('MISSING_MOBILE', 4), issue('DUPLICATE', 4), issue('NON_SALE', 5)])
+    assert.equal(report.rowsSkipped, 2)
+    assert.equal(report.rowsAccepted, 8)
+    assert.deepEqual(
+      report.groups.map((group) => [group.reason, group.rows.length]),
+      [
+        ['NON_SALE', 1],
+        ['MISSING_MOBILE', 1],
+        ['DUPLICATE', 1],
+      ]
+    )
+  })
+
+  it('tells apart rows with the same number in other sheets or files', () => {
+    const report = buildImportReport(10, [
+      issue('NON_SALE', 4),
+      issue('NON_SALE', 4, 'sales.xlsx', 'Returns'),
+      issue('NON_SALE', 4, 'older.xlsx'),
+      issue('NON_SALE', 4, null),
+    ])
+    assert.equal(report.rowsSkipped, 4)
+  })
+
+  it('does not count rows that were only warned about as skipped', () => {
+    const report = buildImportReport(3, [issue('BLANK_SALESMAN', 2), issue('UNKNOWN_DEPARTMENT', 2), issue('DUPLICATE', 3)])
+    assert.equal(report.rowsSkipped, 1)
+    assert.equal(report.rowsAccepted, 2)
+    assert.deepEqual(
+      report.groups.map((group) => [group.reason, group.skipped]),
+      [
+        ['DUPLICATE', true],
+        ['BLANK_SALESMAN', false],
+        ['UNKNOWN_DEPARTMENT', false],
+      ]
+    )
+  })
+})
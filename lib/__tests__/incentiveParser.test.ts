@@ -0,0 +1,187 @@
+import { strict as assert } from 'node:assert'
+import { describe, it } from 'node:test'
+import { buildIncentiveMetrics, type IncentiveMetrics } from '../incentiveParser'
+import type { IncentiveScheme, SplitPolicy } from '../incentiveSchemes'
+import type { SaleRow, SalesType } from '../workbookParser'
+
+const VISIT_DATE = '2026-10-01'
+
+const row = (
+  salesType: SalesType,
+  salesman: string,
+  itemGroup: string,
+  dateIso = VISIT_DATE,
+  voucherNo = 'V1',
+  customerId = '9876543210'
+): SaleRow => ({
+  salesType,
+  voucherNo,
+  dateInfo: { key: dateIso, iso: dateIso, display: null },
+  salesman,
+  itemGroup,
+  item: '',
+  department: itemGroup,
+  counter: '',
+  departmentLabel: itemGroup,
+  customerId,
+  customerName: null,
+})
+
+const sale = (salesman: string, itemGroup: string) => row('SALE', salesman, itemGroup)
+
+const metricOf = (result: IncentiveMetrics, name: string) => {
+  const metric = result.metrics.find((m) => m.name === name)
+  assert.ok(metric, `no metric for ${name}`)
+  return metric
+}
+
+const scheme = (splitPolicy: SplitPolicy): IncentiveScheme => ({
+  id: `scheme-${splitPolicy}`,
+  name: `Split ${splitPolicy}`,
+  effectiveFrom: '2026-01-01',
+  slabs: [
+    { minDepartments: 2, amount: 100 },
+    { minDepartments: 3, amount: 150 },
+  ],
+  splitPolicy,
+})
+
+describe('buildIncentiveMetrics visit splits', () => {
+  // Three departments: Asha handles two and Ravi one
+  const visit = [sale('Asha', 'Sarees'), sale('Asha', 'Kurtas'), sale('Ravi', 'Kids')]
+
+  const sharesOf = (result: IncentiveMetrics) =>
+    Object.fromEntries(result.metrics.map((m) => [m.name, m.breakdown.map((line) => line.amount)]))
+
+  it('pays each handler their share of the slab under the scheme in force', () => {
+    assert.deepEqual(sharesOf(buildIncentiveMetrics(visit, [scheme('FULL')])), { Asha: [150], Ravi: [150] })
+    assert.deepEqual(sharesOf(buildIncentiveMetrics(visit, [scheme('EQUAL')])), { Asha: [75], Ravi: [75] })
+    assert.deepEqual(sharesOf(buildIncentiveMetrics(visit, [scheme('PROPORTIONAL')])), { Asha: [100], Ravi: [50] })
+    assert.deepEqual(sharesOf(buildIncentiveMetrics(visit, [scheme('PRIMARY')])), { Asha: [150], Ravi: [] })
+  })
+
+  it('records the whole visit amount, scheme and split policy on each share', () => {
+    const result = buildIncentiveMetrics(visit, [scheme('PROPORTIONAL')])
+    const ravi = metricOf(result, 'Ravi').breakdown[0]
+    assert.equal(ravi.amount, 50)
+    assert.equal(ravi.visitAmount, 150)
+    assert.equal(ravi.schemeId, 'scheme-PROPORTIONAL')
+    assert.equal(ravi.schemeName, 'Split PROPORTIONAL')
+    assert.equal(ravi.splitPolicy, 'PROPORTIONAL')
+    assert.equal(ravi.departmentsVisited, 3)
+    assert.deepEqual(ravi.handledDepartments, ['Kids'])
+    assert.deepEqual(metricOf(result, 'Asha').breakdown[0].handledDepartments, ['Sarees', 'Kurtas'])
+  })
+
+  it('counts departments sold without a salesperson but pays nothing for visits nobody handled', () => {
+    const withUnhandledLine = buildIncentiveMetrics([...visit.slice(0, 1), sale('', 'Kids')], [scheme('FULL')])
+    assert.deepEqual(
+      metricOf(withUnhandledLine, 'Asha').breakdown.map(({ amount, visitAmount }) => ({ amount, visitAmount })),
+      [{ amount: 100, visitAmount: 100 }]
+    )
+
+    const unhandled = buildIncentiveMetrics([sale('', 'Sarees'), sale('', 'Kurtas')], [scheme('FULL')])
+    assert.deepEqual(unhandled.metrics, [])
+  })
+
+  it('uses the default scheme for visits before the first stored scheme', () => {
+    const early = visit.map((line) => ({ ...line, dateInfo: { key: '2025-12-31', iso: '2025-12-31', display: null } }))
+    const line = metricOf(buildIncentiveMetrics(early, [scheme('EQUAL')]), 'Ravi').breakdown[0]
+    assert.equal(line.schemeId, 'default')
+    assert.equal(line.splitPolicy, 'FULL')
+    assert.equal(line.amount, 40)
+  })
+})
+
+describe('buildIncentiveMetrics clawbacks', () => {
+  // Asha sells three departments and Ravi one; four departments pay 60 to each under the default scheme
+  const visit = [sale('Asha', 'Sarees'), sale('Asha', 'Kurtas'), sale('Asha', 'Dupattas'), sale('Ravi', 'Kids')]
+
+  it('re-prices a partly returned visit and charges each handler the difference on the return date', () => {
+    const result = buildIncentiveMetrics([...visit, row('RETURN', 'Ravi', 'Kids', '2026-10-05')])
+
+    const asha = metricOf(result, 'Asha')
+    assert.deepEqual(
+      asha.breakdown.map(({ kind, amount, dateIso, visitAmount }) => ({ kind, amount, dateIso, visitAmount })),
+      [
+        { kind: 'CLAWBACK', amount: -20, dateIso: '2026-10-05', visitAmount: 40 },
+        { kind: 'VISIT', amount: 60, dateIso: VISIT_DATE, visitAmount: 60 },
+      ]
+    )
+    assert.equal(asha.totalIncentive, 40)
+    assert.equal(asha.breakdown[0].reason, 'Returned Kids from voucher V1 (visit on 01 Oct 2026)')
+    assert.deepEqual(asha.breakdown[0].visitedDepartments, ['Sarees', 'Kurtas', 'Dupattas'])
+
+    // Ravi no longer handles any department of the visit, so his whole share is reversed
+    const ravi = metricOf(result, 'Ravi')
+    assert.deepEqual(
+      ravi.breakdown.map(({ kind, amount, handledDepartments }) => ({ kind, amount, handledDepartments })),
+      [
+        { kind: 'CLAWBACK', amount: -60, handledDepartments: [] },
+        { kind: 'VISIT', amount: 60, handledDepartments: ['Kids'] },
+      ]
+    )
+    assert.equal(ravi.totalIncentive, 0)
+  })
+
+  it('keeps handlers whose departments were all returned on later return days and visits', () => {
+    const result = buildIncentiveMetrics([
+      ...visit,
+      row('RETURN', 'Ravi', 'Kids', '2026-10-05'),
+      row('REPLACEMENT', 'Asha', 'Dupattas', '2026-10-07'),
+    ])
+
+    const asha = metricOf(result, 'Asha')
+    assert.deepEqual(
+      asha.breakdown.map(({ amount, dateIso }) => ({ amount, dateIso })),
+      [
+        { amount: -20, dateIso: '2026-10-07' },
+        { amount: -20, dateIso: '2026-10-05' },
+        { amount: 60, dateIso: VISIT_DATE },
+      ]
+    )
+    assert.equal(asha.breakdown[0].reason, 'Replaced Dupattas from voucher V1 (visit on 01 Oct 2026)')
+
+    // Nothing more to reverse for Ravi on the second day, but the visit still counts as one he handled
+    const ravi = metricOf(result, 'Ravi')
+    assert.equal(ravi.breakdown.length, 2)
+    assert.deepEqual(ravi.visits, [
+      { customerId: '9876543210', dateIso: VISIT_DATE, visitedDepartments: ['Sarees', 'Kurtas'] },
+    ])
+    assert.deepEqual(ravi.visits, asha.visits)
+  })
+
+  it('reverses the whole visit when everything is returned on one day', () => {
+    const result = buildIncentiveMetrics([
+      sale('Asha', 'Sarees'),
+      sale('Asha', 'Kurtas'),
+      row('RETURN', 'Asha', 'Sarees', '2026-10-03'),
+      row('RETURN', 'Asha', 'Kurtas', '2026-10-03'),
+    ])
+
+    const asha = metricOf(result, 'Asha')
+    assert.deepEqual(
+      asha.breakdown.map(({ kind, amount, departmentsVisited }) => ({ kind, amount, departmentsVisited })),
+      [
+        { kind: 'CLAWBACK', amount: -20, departmentsVisited: 0 },
+        { kind: 'VISIT', amount: 20, departmentsVisited: 2 },
+      ]
+    )
+    assert.equal(asha.breakdown[0].reason, 'Returned Sarees, Returned Kurtas from voucher V1 (visit on 01 Oct 2026)')
+    assert.equal(asha.totalIncentive, 0)
+    assert.deepEqual(asha.visits, [])
+  })
+
+  it('raises no clawback when a return does not lower the slab', () => {
+    const result = buildIncentiveMetrics([
+      sale('Asha', 'Sarees'),
+      sale('Asha', 'Sarees'),
+      sale('Asha', 'Kurtas'),
+      row('RETURN', 'Asha', 'Sarees', '2026-10-03'),
+    ])
+    assert.deepEqual(
+      metricOf(result, 'Asha').breakdown.map(({ kind, amount }) => ({ kind, amount })),
+      [{ kind: 'VISIT', amount: 20 }]
+    )
+  })
+})
@@ -0,0 +1,123 @@
+import { strict as assert } from 'node:assert'
+import { describe, it } from 'node:test'
+import type { BreakdownEntry, IncentiveMetrics, SalespersonMetric } from '../incentiveParser'
+import { applyLockedPeriods, snapshotPayouts, type LockedPeriod } from '../incentivePeriods'
+
+const entry = (customerId: string, dateIso: string, amount: number): BreakdownEntry => ({
+  customerId,
+  customerName: null,
+  amount,
+  departmentsVisited: 2,
+  visitedDepartments: ['sarees', 'kurtas'],
+  handledDepartments: ['sarees', 'kurtas'],
+  dateKey: dateIso,
+  dateIso,
+  displayDate: dateIso,
+  schemeId: 'default',
+  schemeName: 'Default',
+  visitAmount: amount,
+  splitPolicy: 'FULL',
+  kind: 'VISIT',
+  reason: null,
+})
+
+const metric = (name: string, breakdown: BreakdownEntry[]): SalespersonMetric => ({
+  name,
+  departments: [],
+  totalIncentive: breakdown.reduce((sum, line) => sum + line.amount, 0),
+  breakdown,
+  visits: [],
+})
+
+const incentivesOf = (metrics: SalespersonMetric[]): IncentiveMetrics => ({
+  metrics,
+  availableDates: Array.from(new Set(metrics.flatMap((m) => m.breakdown.map((line) => line.dateIso!)))).sort(),
+  dateLabels: {},
+})
+
+const lock = (from: string, to: string, metrics: SalespersonMetric[]): LockedPeriod => ({
+  id: `${from}-${to}`,
+  label: `${from} to ${to}`,
+  from,
+  to,
+  status: 'LOCKED',
+  payouts: snapshotPayouts(metrics, { from, to }),
+})
+
+const adjustmentsOf = (result: IncentiveMetrics, name: string) =>
+  result.metrics.find((m) => m.name === name)!.breakdown.filter((line) => line.kind === 'ADJUSTMENT')
+
+describe('snapshotPayouts', () => {
+  it('keeps the entries inside the range with their total and customers', () => {
+    const metrics = [
+      metric('Asha', [entry('c1', '2026-03-02', 100), entry('c1', '2026-03-09', 50), entry('c2', '2026-03-20', 70)]),
+      metric('Bala', [entry('c3', '2026-03-25', 40)]),
+    ]
+    const payouts = snapshotPayouts(metrics, { from: '2026-03-01', to: '2026-03-15' })
+    assert.equal(payouts.length, 1)
+    assert.equal(payouts[0].name, 'Asha')
+    assert.equal(payouts[0].total, 150)
+    assert.equal(payouts[0].customersCount, 1)
+  })
+})
+
+describe('applyLockedPeriods', () => {
+  const atLock = [metric('Asha', [entry('c1', '2026-03-02', 100), entry('c2', '2026-03-10', 200)])]
+  const period = lock('2026-03-01', '2026-03-15', atLock)
+
+  it('returns the incentives untouched without locked periods', () => {
+    const incentives = incentivesOf(atLock)
+    assert.equal(applyLockedPeriods(incentives, []), incentives)
+  })
+
+  it('adds no adjustment while the live figures match the snapshot', () => {
+    const result = applyLockedPeriods(incentivesOf(atLock), [period])
+    assert.deepEqual(adjustmentsOf(result, 'Asha'), [])
+    assert.equal(result.metrics[0].totalIncentive, 300)
+  })
+
+  it('pays later changes per customer the day after the period ends', () => {
+    const live = [metric('Asha', [entry('c1', '2026-03-02', 100), entry('c2', '2026-03-10', 150), entry('c3', '2026-03-12', 80)])]
+    const result = applyLockedPeriods(incentivesOf(live), [period])
+    const asha = result.metrics[0]
+
+    const adjustments = adjustmentsOf(result, 'Asha')
+    assert.deepEqual(
+      adjustments.map((line) => [line.customerId, line.dateIso, line.amount]).sort(),
+      [['c2', '2026-03-16', -50], ['c3', '2026-03-16', 80]]
+    )
+    assert.ok(adjustments.every((line) => line.reason?.includes(period.label)))
+    // The frozen lines are paid as locked, not the live ones
+    assert.deepEqual(
+      asha.breakdown.filter((line) => line.kind === 'VISIT').map((line) => [line.customerId, line.amount]).sort(),
+      [['c1', 100], ['c2', 200]]
+    )
+    assert.equal(asha.totalIncentive, 330)
+    assert.ok(result.availableDates.includes('2026-03-16'))
+    assert.ok(result.dateLabels['2026-03-16'])
+  })
+
+  it('recovers the snapshot of a salesperson who dropped out of the live figures', () => {
+    const live = [metric('Bala', [entry('c9', '2026-03-20', 60)])]
+    const result = applyLockedPeriods(incentivesOf(live), [period])
+    const asha = result.metrics.find((m) => m.name === 'Asha')!
+    assert.deepEqual(adjustmentsOf(result, 'Asha').map((line) => line.amount).sort((a, b) => a - b), [-200, -100])
+    assert.equal(asha.totalIncentive, 0)
+  })
+
+  it('ignores rounding noise below half a paisa', () => {
+    const live = [metric('Asha', [entry('c1', '2026-03-02', 100.004), entry('c2', '2026-03-10', 200)])]
+    assert.deepEqual(adjustmentsOf(applyLockedPeriods(incentivesOf(live), [period]), 'Asha'), [])
+  })
+
+  it('settles an adjustment that falls inside a later locked period in that period', () => {
+    const second = lock('2026-03-16', '2026-03-31', [metric('Asha', [entry('c4', '2026-03-20', 40)])])
+    const live = [metric('Asha', [entry('c1', '2026-03-02', 100), entry('c2', '2026-03-10', 230), entry('c4', '2026-03-20', 40)])]
+    const result = applyLockedPeriods(incentivesOf(live), [second, period])
+    assert.deepEqual(
+      adjustmentsOf(result, 'Asha').map((line) => [line.customerId, line.dateIso, line.amount]),
+      [['c2', '2026-04-01', 30]]
+    )
+    assert.equal(result.metrics[0].totalIncentive, 370)
+  })
+})
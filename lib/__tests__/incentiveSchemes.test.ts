@@ -0,0 +1,54 @@
+import { strict as assert } from 'node:assert'
+import { describe, it } from 'node:test'
+import { splitVisitAmount, type VisitHandler } from '../incentiveSchemes'
+
+const total = (shares: Map<string, number>) =>
+  Math.round(Array.from(shares.values()).reduce((sum, share) => sum + share, 0) * 100) / 100
+
+describe('splitVisitAmount', () => {
+  const handlers: VisitHandler[] = [
+    { key: 'asha', departmentsHandled: 1 },
+    { key: 'bala', departmentsHandled: 2 },
+  ]
+
+  it('returns no shares for a visit without handlers', () => {
+    assert.equal(splitVisitAmount(500, [], 'EQUAL').size, 0)
+  })
+
+  it('pays every handler the whole amount under FULL', () => {
+    assert.deepEqual(Object.fromEntries(splitVisitAmount(500, handlers, 'FULL')), { asha: 500, bala: 500 })
+  })
+
+  it('pays only the handler with the most departments under PRIMARY', () => {
+    assert.deepEqual(Object.fromEntries(splitVisitAmount(500, handlers, 'PRIMARY')), { asha: 0, bala: 500 })
+  })
+
+  it('breaks a PRIMARY tie alphabetically', () => {
+    const tied = [{ key: 'chitra', departmentsHandled: 2 }, { key: 'bala', departmentsHandled: 2 }]
+    assert.deepEqual(Object.fromEntries(splitVisitAmount(300, tied, 'PRIMARY')), { chitra: 0, bala: 300 })
+  })
+
+  it('splits EQUAL shares and gives the rounding remainder to the primary handler', () => {
+    const three = [...handlers, { key: 'chitra', departmentsHandled: 1 }]
+    const shares = splitVisitAmount(100, three, 'EQUAL')
+    assert.deepEqual(Object.fromEntries(shares), { asha: 33.33, bala: 33.34, chitra: 33.33 })
+    assert.equal(total(shares), 100)
+  })
+
+  it('splits PROPORTIONAL shares by departments handled', () => {
+    const shares = splitVisitAmount(300, handlers, 'PROPORTIONAL')
+    assert.deepEqual(Object.fromEntries(shares), { asha: 100, bala: 200 })
+  })
+
+  it('takes back a rounding excess from the primary handler', () => {
+    const three = ['asha', 'bala', 'chitra'].map((key) => ({ key, departmentsHandled: 1 }))
+    const shares = splitVisitAmount(200, three, 'PROPORTIONAL')
+    assert.deepEqual(Object.fromEntries(shares), { asha: 66.66, bala: 66.67, chitra: 66.67 })
+    assert.equal(total(shares), 200)
+  })
+
+  it('falls back to equal shares when no departments were handled', () => {
+    const none = handlers.map(({ key }) => ({ key, departmentsHandled: 0 }))
+    assert.deepEqual(Object.fromEntries(splitVisitAmount(100, none, 'PROPORTIONAL')), { asha: 50, bala: 50 })
+  })
+})
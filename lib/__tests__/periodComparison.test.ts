@@ -0,0 +1,78 @@
+import { strict as assert } from 'node:assert'
+import { describe, it } from 'node:test'
+import type { BreakdownEntry, HandledVisit, SalespersonMetric } from '../incentiveParser'
+import { comparePeriods } from '../periodComparison'
+
+const current = { from: '2026-03-16', to: '2026-03-31' }
+const previous = { from: '2026-03-01', to: '2026-03-15' }
+
+const visit = (customerId: string, dateIso: string, visitedDepartments: string[]): HandledVisit => ({
+  customerId,
+  dateIso,
+  visitedDepartments,
+})
+
+const metric = (name: string, visits: HandledVisit[], amounts: Array<[string, number]>): SalespersonMetric => ({
+  name,
+  departments: [],
+  totalIncentive: 0,
+  breakdown: amounts.map(([dateIso, amount]) => ({ dateIso, amount, customerId: 'c' }) as BreakdownEntry),
+  visits,
+})
+
+describe('comparePeriods', () => {
+  const metrics = [
+    metric(
+      'Asha',
+      [
+        visit('c1', '2026-03-02', ['sarees']),
+        visit('c2', '2026-03-18', ['sarees', 'kurtas', 'kids']),
+        visit('c2', '2026-03-25', ['sarees']),
+      ],
+      [['2026-03-18', 300], ['2026-03-28', -50]]
+    ),
+    metric('Bala', [visit('c3', '2026-03-05', ['sarees', 'kurtas'])], [['2026-03-05', 200]]),
+    metric('Chitra', [visit('c4', '2026-03-20', ['kids', 'mens'])], [['2026-03-20', 400]]),
+    metric('Dev', [], []),
+  ]
+  const rows = comparePeriods(metrics, current, previous)
+
+  it('summarizes each period per salesperson, net of clawbacks', () => {
+    const asha = rows.find((row) => row.name === 'Asha')!
+    assert.deepEqual(asha.current, {
+      incentive: 250,
+      customers: 1,
+      visits: 2,
+      averageDepartments: 2,
+      multiDepartmentRate: 0.5,
+    })
+    assert.deepEqual(asha.previous, {
+      incentive: 0,
+      customers: 1,
+      visits: 1,
+      averageDepartments: 1,
+      multiDepartmentRate: 0,
+    })
+  })
+
+  it('ranks by incentive and reports how far each salesperson moved', () => {
+    assert.deepEqual(
+      rows.map(({ name, currentRank, previousRank, rankChange }) => [name, currentRank, previousRank, rankChange]),
+      [
+        ['Chitra', 1, null, null],
+        ['Asha', 2, 2, 0],
+        ['Bala', null, 1, null],
+      ]
+    )
+  })
+
+  it('leaves out salespersons with nothing in either period', () => {
+    assert.equal(rows.some((row) => row.name === 'Dev'), false)
+  })
+
+  it('has no averages for a period without visits', () => {
+    const bala = rows.find((row) => row.name === 'Bala')!
+    assert.equal(bala.current.averageDepartments, null)
+    assert.equal(bala.current.multiDepartmentRate, null)
+  })
+})
@@ -0,0 +1,49 @@
+import { strict as assert } from 'node:assert'
+import { describe, it } from 'node:test'
+import {
+  MAX_PAY_PERIOD_SPLIT_DAY,
+  monthRange,
+  payPeriodOf,
+  payPeriodRange,
+  precedingRange,
+  previousPayPeriod,
+  rangeLength,
+  shiftMonth,
+} from '../periods'
+
+describe('periods', () => {
+  it('covers whole months, leap days included', () => {
+    assert.deepEqual(monthRange('2024-02'), { from: '2024-02-01', to: '2024-02-29' })
+    assert.deepEqual(monthRange('2026-02'), { from: '2026-02-01', to: '2026-02-28' })
+  })
+
+  it('shifts months across years', () => {
+    assert.equal(shiftMonth('2026-01', -1), '2025-12')
+    assert.equal(shiftMonth('2025-12', 1), '2026-01')
+  })
+
+  it('cuts a month into two pay periods at the split day', () => {
+    assert.deepEqual(payPeriodRange('2026-03', 'first', 15), { from: '2026-03-01', to: '2026-03-15' })
+    assert.deepEqual(payPeriodRange('2026-03', 'second', 15), { from: '2026-03-16', to: '2026-03-31' })
+  })
+
+  it('keeps at least one day in the second pay period of February', () => {
+    assert.deepEqual(payPeriodRange('2026-02', 'second', 31), {
+      from: `2026-02-${MAX_PAY_PERIOD_SPLIT_DAY + 1}`,
+      to: '2026-02-28',
+    })
+  })
+
+  it('finds the pay period of a date and the one before it', () => {
+    assert.deepEqual(payPeriodOf('2026-03-15', 15), { month: '2026-03', half: 'first' })
+    assert.deepEqual(payPeriodOf('2026-03-16', 15), { month: '2026-03', half: 'second' })
+    assert.deepEqual(previousPayPeriod('2026-03', 'second'), { month: '2026-03', half: 'first' })
+    assert.deepEqual(previousPayPeriod('2026-01', 'first'), { month: '2025-12', half: 'second' })
+  })
+
+  it('finds the range of the same length just before another', () => {
+    const range = { from: '2026-03-01', to: '2026-03-10' }
+    assert.equal(rangeLength(range), 10)
+    assert.deepEqual(precedingRange(range), { from: '2026-02-19', to: '2026-02-28' })
+  })
+})
@@ -0,0 +1,63 @@
+import { strict as assert } from 'node:assert'
+import { describe, it } from 'node:test'
+import { matchReturns, type ReturnMatchRow } from '../returns'
+
+const row = (salesType: ReturnMatchRow['salesType'], itemGroup: string, voucherNo = 'V1', customerId = '9876543210') => ({
+  salesType,
+  voucherNo,
+  customerId,
+  itemGroup,
+})
+
+describe('matchReturns', () => {
+  it('reverses one sale line per return, leaving the rest of a partly returned voucher', () => {
+    const firstSaree = row('SALE', 'Sarees')
+    const secondSaree = row('SALE', 'Sarees')
+    const kurta = row('SALE', 'Kurtas')
+    const sareeReturn = row('RETURN', 'Sarees')
+
+    const { returnedBy, unmatched } = matchReturns([firstSaree, secondSaree, kurta, sareeReturn])
+    assert.equal(returnedBy.size, 1)
+    assert.equal(returnedBy.get(firstSaree), sareeReturn)
+    assert.equal(returnedBy.has(secondSaree), false)
+    assert.equal(returnedBy.has(kurta), false)
+    assert.deepEqual(unmatched, [])
+  })
+
+  it('matches replacements like returns', () => {
+    const sale = row('SALE', 'Sarees')
+    const replacement = row('REPLACEMENT', 'Sarees')
+    assert.equal(matchReturns([replacement, sale]).returnedBy.get(sale), replacement)
+  })
+
+  it('ignores case and spacing differences in the match key', () => {
+    const sale = row('SALE', 'Silk  Sarees', 'v1')
+    const saleReturn = row('RETURN', 'silk sarees ', ' V1')
+    assert.equal(matchReturns([sale, saleReturn]).returnedBy.get(sale), saleReturn)
+  })
+
+  it('leaves returns without a sale of the same voucher, customer and item group unmatched', () => {
+    const sale = row('SALE', 'Sarees')
+    const otherGroup = row('RETURN', 'Kurtas')
+    const otherVoucher = row('RETURN', 'Sarees', 'V2')
+    const otherCustomer = row('RETURN', 'Sarees', 'V1', '9000000000')
+    const { returnedBy, unmatched } = matchReturns([sale, otherGroup, otherVoucher, otherCustomer])
+    assert.equal(returnedBy.size, 0)
+    assert.deepEqual(unmatched, [otherGroup, otherVoucher, otherCustomer])
+  })
+
+  it('does not reverse more sale lines than there were', () => {
+    const sale = row('SALE', 'Sarees')
+    const firstReturn = row('RETURN', 'Sarees')
+    const secondReturn = row('RETURN', 'Sarees')
+    const { returnedBy, unmatched } = matchReturns([sale, firstReturn, secondReturn])
+    assert.equal(returnedBy.get(sale), firstReturn)
+    assert.deepEqual(unmatched, [secondReturn])
+  })
+
+  it('never matches sale lines without a voucher number', () => {
+    const sale = row('SALE', 'Sarees', '')
+    const saleReturn = row('RETURN', 'Sarees', '')
+    assert.deepEqual(matchReturns([sale, saleReturn]).unmatched, [saleReturn])
+  })
+})
@@ -0,0 +1,213 @@
+import { strict as assert } from 'node:assert'
+import { describe, it } from 'node:test'
+import * as XLSX from 'xlsx'
+import {
+  mergeSaleRows,
+  previewWorkbook,
+  readSaleRows,
+  tagFileName,
+  type ColumnMapping,
+  type SaleRowsResult,
+} from '../workbookParser'
+
+type Cell = string | number | null
+
+const HEADER = ['Voucher No', 'Voucher Date', 'Salesman Name', 'Item Group Name', 'Item Name', 'Mobile1', 'Sales Type']
+
+const workbookOf = (sheets: Record<string, Cell[][]>): ArrayBuffer => {
+  const workbook = XLSX.utils.book_new()
+  Object.entries(sheets).forEach(([name, rows]) => {
+    XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet(rows), name)
+  })
+  return XLSX.write(workbook, { type: 'array', bookType: 'xlsx' }) as ArrayBuffer
+}
+
+describe('previewWorkbook', () => {
+  it('finds the header row below report titles and proposes a mapping from its labels', () => {
+    const preview = previewWorkbook(
+      workbookOf({
+        Sales: [
+          ['Sales Register'],
+          ['Period: October 2026', null, 'Printed by: admin'],
+          HEADER,
+          ['V1', '2026-10-01', 'Asha', 'Sarees', 'Silk saree', '9876543210', 'Sale'],
+        ],
+      })
+    )
+
+    assert.equal(preview.sheetName, 'Sales')
+    assert.equal(preview.detectedHeaderRow, 3)
+    assert.deepEqual(preview.proposedMapping, {
+      headerRow: 3,
+      columns: {
+        voucherNo: 'Voucher No',
+        voucherDate: 'Voucher Date',
+        salesman: 'Salesman Name',
+        itemGroup: 'Item Group Name',
+        item: 'Item Name',
+        mobile: 'Mobile1',
+        salesType: 'Sales Type',
+      },
+    })
+    assert.equal(preview.rows.length, 4)
+    assert.equal(preview.rows[0][0], 'Sales Register')
+    assert.deepEqual(preview.rows[3], ['V1', '2026-10-01', 'Asha', 'Sarees', 'Silk saree', '9876543210', 'Sale'])
+  })
+
+  it('counts rows without blank lines and prefers the row with the required columns', () => {
+    const preview = previewWorkbook(
+      workbookOf({
+        Sales: [
+          ['Type', 'Date', 'Account'],
+          [],
+          ['Salesman Name', 'Item Group', 'Customer ID'],
+          ['Asha', 'Sarees', '9876543210'],
+        ],
+      })
+    )
+    assert.equal(preview.detectedHeaderRow, 2)
+    assert.deepEqual(preview.proposedMapping.columns, {
+      salesman: 'Salesman Name',
+      itemGroup: 'Item Group',
+      mobile: 'Customer ID',
+    })
+  })
+
+  it('previews the first recognised sheet and falls back to the first row without known labels', () => {
+    const buffer = workbookOf({
+      Notes: [['Exported from the billing system'], ['Do not edit']],
+      Sales: [HEADER, ['V1', '2026-10-01', 'Asha', 'Sarees', 'Silk saree', '9876543210', 'Sale']],
+    })
+    const preview = previewWorkbook(buffer)
+    assert.deepEqual(preview.sheets, [
+      { name: 'Notes', recognised: false },
+      { name: 'Sales', recognised: true },
+    ])
+    assert.equal(preview.sheetName, 'Sales')
+    assert.equal(preview.detectedHeaderRow, 1)
+
+    const unrecognised = previewWorkbook(workbookOf({ Notes: [['Exported from the billing system'], ['Do not edit']] }))
+    assert.equal(unrecognised.sheetName, 'Notes')
+    assert.equal(unrecognised.detectedHeaderRow, 1)
+    assert.deepEqual(unrecognised.proposedMapping, { headerRow: 1, columns: {} })
+  })
+})
+
+describe('readSaleRows with a saved mapping', () => {
+  // Labels no needle would find, so rows can only be read through the mapping
+  const customHeader = ['Bill', 'Bill Date', 'Staff', 'Section', 'Product', 'Phone', 'Kind']
+  const mapping: ColumnMapping = {
+    headerRow: 2,
+    columns: {
+      voucherNo: 'Bill',
+      voucherDate: 'Bill Date',
+      salesman: 'Staff',
+      itemGroup: 'Section',
+      item: 'Product',
+      mobile: 'phone ',
+      salesType: 'Kind',
+    },
+  }
+
+  it('reads columns through the mapping when its header row holds every mapped label', () => {
+    const { rows } = readSaleRows(
+      workbookOf({
+        Sales: [['Sales Register'], customHeader, ['V1', '2026-10-01', 'Asha', 'Sarees', 'Silk saree', '9876543210', 'Sale']],
+      }),
+      undefined,
+      mapping
+    )
+    assert.equal(rows.length, 1)
+    assert.equal(rows[0].salesman, 'Asha')
+    assert.equal(rows[0].customerId, '9876543210')
+    assert.equal(rows[0].dateInfo.iso, '2026-10-01')
+    assert.equal(rows[0].source?.rowNumber, 3)
+  })
+
+  it('detects columns on sheets the mapping does not fit', () => {
+    const { rows } = readSaleRows(
+      workbookOf({
+        Custom: [['Sales Register'], customHeader, ['V1', '2026-10-01', 'Asha', 'Sarees', 'Silk saree', '9876543210', 'Sale']],
+        Standard: [HEADER, ['V2', '2026-10-02', 'Ravi', 'Kurtas', 'Cotton kurta', '9000000000', 'Sale']],
+      }),
+      undefined,
+      mapping,
+      ['Custom', 'Standard']
+    )
+    assert.deepEqual(
+      rows.map((row) => [row.voucherNo, row.salesman, row.source?.sheetName]),
+      [
+        ['V1', 'Asha', 'Custom'],
+        ['V2', 'Ravi', 'Standard'],
+      ]
+    )
+  })
+
+  it('names the sheet whose columns cannot be found', () => {
+    assert.throws(
+      () =>
+        readSaleRows(
+          workbookOf({
+            Custom: [['Sales Register'], customHeader, ['V1', '2026-10-01', 'Asha', 'Sarees', 'Silk saree', '9876543210', 'Sale']],
+            Shifted: [customHeader.slice(1), ['2026-10-02', 'Ravi', 'Kurtas', 'Cotton kurta', '9000000000', 'Sale']],
+          }),
+          undefined,
+          mapping,
+          ['Custom', 'Shifted']
+        ),
+      /^Error: Sheet "Shifted": Failed to detect required columns/
+    )
+  })
+})
+
+describe('mergeSaleRows', () => {
+  const line = (voucherNo: string, item: string, salesType = 'Sale', itemGroup = 'Sarees'): Cell[] =>
+    [voucherNo, '2026-10-01', 'Asha', itemGroup, item, '9876543210', salesType]
+
+  const fileOf = (fileName: string, rows: Cell[][]): SaleRowsResult =>
+    tagFileName(readSaleRows(workbookOf({ Sales: [HEADER, ...rows] })), fileName)
+
+  it('keeps a voucher line once across overlapping files and reports the repeat', () => {
+    const merged = mergeSaleRows([
+      fileOf('week-1.xlsx', [line('V1', 'Silk saree'), line('V2', 'Cotton kurta', 'Sale', 'Kurtas')]),
+      fileOf('week-2.xlsx', [line(' v1', 'silk  saree'), line('V3', 'Silk saree')]),
+    ])
+
+    assert.deepEqual(
+      merged.rows.map((row) => [row.voucherNo, row.source?.fileName]),
+      [
+        ['V1', 'week-1.xlsx'],
+        ['V2', 'week-1.xlsx'],
+        ['V3', 'week-2.xlsx'],
+      ]
+    )
+    assert.equal(merged.rowsDuplicate, 1)
+    assert.equal(merged.totalRowsProcessed, 4)
+    assert.deepEqual(
+      merged.issues.map(({ fileName, rowNumber, reason }) => ({ fileName, rowNumber, reason })),
+      [{ fileName: 'week-2.xlsx', rowNumber: 2, reason: 'DUPLICATE' }]
+    )
+  })
+
+  it('keys lines by sales type, so a return of a merged sale is kept', () => {
+    const merged = mergeSaleRows([
+      fileOf('sales.xlsx', [line('V1', 'Silk saree')]),
+      fileOf('returns.xlsx', [line('V1', 'Silk saree', 'Sales Return')]),
+    ])
+    assert.deepEqual(
+      merged.rows.map((row) => row.salesType),
+      ['SALE', 'RETURN']
+    )
+    assert.equal(merged.rowsDuplicate, 0)
+    assert.equal(merged.rowsReturned, 1)
+  })
+
+  it('never drops repeated lines within one sheet or lines without a voucher number or item', () => {
+    const merged = mergeSaleRows([
+      fileOf('week-1.xlsx', [line('V1', 'Silk saree'), line('V1', 'Silk saree'), line('', 'Silk saree'), line('V2', '')]),
+      fileOf('week-2.xlsx', [line('', 'Silk saree'), line('V2', '')]),
+    ])
+    assert.equal(merged.rows.length, 6)
+    assert.equal(merged.rowsDuplicate, 0)
+  })
+})
@@ -0,0 +1,46 @@
+import { NextResponse } from 'next/server'
+
+/**
+ * API Request Helpers
+ * Body parsing and record ids checked the same way by every API route
+ */
+
+/**
+ * Thrown by stores when the record a request addresses does not exist; API routes turn it into a 404 response
+ */
+export class NotFoundError extends Error {}
+
+// MongoDB ObjectId as a 24 character hex string
+export const isObjectId = (id: string): boolean => /^[0-9a-f]{24}$/i.test(id)
+
+/**
+ * A 400 response when a route's `[id]` cannot be a record id, so Prisma never sees it
+ */
+export const rejectInvalidId = (id: string): NextResponse | undefined =>
+  isObjectId(id) ? undefined : NextResponse.json({ error: 'Invalid id.' }, { status: 400 })
+
+/**
+ * The request body as a JSON object, or a 400 response when it is not one
+ */
+export const readJsonBody = async (
+  request: Request
+): Promise<{ body: Record<string, unknown>; response?: undefined } | { body?: undefined; response: NextResponse }> => {
+  const body = await request.json().catch(() => null)
+  if (!body || typeof body !== 'object' || Array.isArray(body)) {
+    return { response: NextResponse.json({ error: 'The request body must be a JSON object.' }, { status: 400 }) }
+  }
+  return { body }
+}
+
+/**
+ * The request body as form data, or a 400 response when it cannot be parsed as a form
+ */
+export const readFormData = async (
+  request: Request
+): Promise<{ formData: FormData; response?: undefined } | { formData?: undefined; response: NextResponse }> => {
+  const formData = await request.formData().catch(() => null)
+  if (!formData) {
+    return { response: NextResponse.json({ error: 'The request body must be a form upload.' }, { status: 400 }) }
+  }
+  return { formData }
+}
@@ -0,0 +1,109 @@
+import { getServerSession, type NextAuthOptions } from 'next-auth'
+import CredentialsProvider from 'next-auth/providers/credentials'
+import bcrypt from 'bcryptjs'
+import { NextResponse } from 'next/server'
+import type { UserRole } from '@prisma/client'
+import { prisma } from './prisma'
+import { hasAnyPermission, type Permission } from './permissions'
+
+export const authOptions: NextAuthOptions = {
+  session: {
+    strategy: 'jwt',
+  },
+  pages: {
+    signIn: '/login',
+  },
+  providers: [
+    CredentialsProvider({
+      name: 'Credentials',
+      credentials: {
+        email: { label: 'Email', type: 'email' },
+        password: { label: 'Password', type: 'password' },
+      },
+      async authorize(credentials) {
+        const email = credentials?.email?.toLowerCase().trim()
+        const password = credentials?.password
+        if (!email || !password) return null
+
+        const user = await prisma.user.findUnique({ where: { email } })
+        if (!user || !user.isActive) return null
+
+        const isValid = await bcrypt.compare(password, user.passwordHash)
+        if (!isValid) return null
+
+        return {
+          id: user.id,
+          name: user.name,
+          email: user.email,
+          role: user.role,
+        }
+      },
+    }),
+  ],
+  callbacks: {
+    /**
+     * Re-read the account on every session check so deactivation and role
+     * changes apply to signed-in users straight away. Throwing makes next-auth
+     * clear the session cookie.
+     */
+    async jwt({ token, user }) {
+      if (user) {
+        token.id = user.id
+        token.role = user.role
+        return token
+      }
+
+      const account = await prisma.user.findUnique({
+        where: { id: token.id },
+        select: { name: true, role: true, isActive: true },
+      })
+      if (!account || !account.isActive) {
+        throw new Error('The account has been deactivated or removed.')
+      }
+      token.role = account.role
+      token.name = account.name
+      return token
+    },
+    async session({ session, token }) {
+      session.user.id = token.id
+      session.user.role = token.role
+      return session
+    },
+  },
+}
+
+export type SessionUser = {
+  id: string
+  name: string
+  email: string
+  role: UserRole
+}
+
+export const getSessionUser = async (): Promise<SessionUser | null> => {
+  const session = await getServerSession(authOptions)
+  if (!session?.user) return null
+  return {
+    id: session.user.id,
+    name: session.user.name ?? '',
+    email: session.user.email ?? '',
+    role: session.user.role,
+  }
+}
+
+/**
+ * Resolve the signed-in user for an API route.
+ * Returns an error response when there is no session or the role lacks every given permission.
+ */
+export const requireUser = async (
+  permissions?: Permission | Permission[]
+): Promise<{ user: SessionUser; response?: undefined } | { user?: undefined; response: NextResponse }> => {
+  const user = await getSessionUser()
+  if (!user) {
+    return { response: NextResponse.json({ error: 'Not authenticated.' }, { status: 401 }) }
+  }
+  const required = typeof permissions === 'string' ? [permissions] : permissions
+  if (required && !hasAnyPermission(user.role, required)) {
+    return { response: NextResponse.json({ error: 'You do not have access to this resource.' }, { status: 403 }) }
+  }
+  return { user }
+}
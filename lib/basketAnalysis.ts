@@ -0,0 +1,143 @@
+/**
+ * Department Basket Analysis
+ * Which departments customers combine in one visit. Support is the share of all
+ * visits containing a combination; confidence of X → Y is the share of visits to X
+ * that also include Y; lift compares that with how often Y is visited at all, so
+ * values above 1 mean X buyers pick Y more than the average customer.
+ */
+
+export type DepartmentPair = {
+  departments: [string, string]
+  visits: number
+  support: number
+  confidence: [number, number] // First → second, second → first
+  lift: number
+}
+
+export type DepartmentTriple = {
+  departments: [string, string, string]
+  visits: number
+  support: number
+  lift: number
+}
+
+export type BasketRule = {
+  from: string
+  to: string
+  visits: number // Visits including both
+  confidence: number
+  lift: number
+}
+
+export type BasketAnalysis = {
+  totalVisits: number
+  departmentVisits: Record<string, number>
+  pairs: DepartmentPair[] // Most frequent first
+  triples: DepartmentTriple[]
+  rules: BasketRule[] // Strongest first
+}
+
+export type DepartmentRecommendation = {
+  department: string // Not visited yet
+  basedOn: string // Department the customer did visit
+  confidence: number
+  lift: number
+}
+
+// Combinations seen fewer times than this are too thin to pitch on
+export const MIN_RULE_VISITS = 3
+
+const combinationKey = (departments: string[]) => departments.join('|')
+
+export const analyzeBaskets = (baskets: string[][]): BasketAnalysis => {
+  const visits = baskets
+    .map((departments) => Array.from(new Set(departments)).sort())
+    .filter((departments) => departments.length > 0)
+  const totalVisits = visits.length
+
+  const singles = new Map<string, number>()
+  const pairCounts = new Map<string, number>()
+  const tripleCounts = new Map<string, number>()
+  const increment = (counts: Map<string, number>, key: string) => counts.set(key, (counts.get(key) ?? 0) + 1)
+
+  visits.forEach((departments) => {
+    departments.forEach((a, i) => {
+      increment(singles, a)
+      departments.slice(i + 1).forEach((b, j) => {
+        increment(pairCounts, combinationKey([a, b]))
+        departments.slice(i + j + 2).forEach((c) => increment(tripleCounts, combinationKey([a, b, c])))
+      })
+    })
+  })
+
+  const supportOf = (count: number) => (totalVisits > 0 ? count / totalVisits : 0)
+  const singleSupport = (department: string) => supportOf(singles.get(department) ?? 0)
+
+  const pairs: DepartmentPair[] = Array.from(pairCounts.entries()).map(([key, count]) => {
+    const [a, b] = key.split('|')
+    const support = supportOf(count)
+    return {
+      departments: [a, b],
+      visits: count,
+      support,
+      confidence: [count / singles.get(a)!, count / singles.get(b)!],
+      lift: support / (singleSupport(a) * singleSupport(b)),
+    }
+  })
+
+  const triples: DepartmentTriple[] = Array.from(tripleCounts.entries()).map(([key, count]) => {
+    const [a, b, c] = key.split('|')
+    const support = supportOf(count)
+    return {
+      departments: [a, b, c],
+      visits: count,
+      support,
+      lift: support / (singleSupport(a) * singleSupport(b) * singleSupport(c)),
+    }
+  })
+
+  const rules: BasketRule[] = pairs
+    .filter((pair) => pair.visits >= MIN_RULE_VISITS)
+    .flatMap(({ departments: [a, b], visits: count, confidence, lift }) => [
+      { from: a, to: b, visits: count, confidence: confidence[0], lift },
+      { from: b, to: a, visits: count, confidence: confidence[1], lift },
+    ])
+
+  const byFrequency = (a: { visits: number; lift: number }, b: { visits: number; lift: number }) =>
+    b.visits - a.visits || b.lift - a.lift
+
+  return {
+    totalVisits,
+    departmentVisits: Object.fromEntries(singles.entries()),
+    pairs: pairs.sort(byFrequency),
+    triples: triples.sort(byFrequency),
+    rules: rules.sort((a, b) => b.confidence - a.confidence || b.lift - a.lift),
+  }
+}
+
+/**
+ * Departments to pitch, each backed by the strongest rule from a department the
+ * customer already visits. Only rules with a lift above 1 are used.
+ */
+export const recommendDepartments = (
+  analysis: BasketAnalysis,
+  visited: string[],
+  notVisited: string[]
+): DepartmentRecommendation[] => {
+  const candidates = new Set(notVisited)
+  const bought = new Set(visited)
+  const best = new Map<string, DepartmentRecommendation>()
+
+  analysis.rules.forEach((rule) => {
+    if (!bought.has(rule.from) || !candidates.has(rule.to) || rule.lift <= 1) return
+    const current = best.get(rule.to)
+    if (!current || rule.confidence > current.confidence) {
+      best.set(rule.to, { department: rule.to, basedOn: rule.from, confidence: rule.confidence, lift: rule.lift })
+    }
+  })
+
+  return Array.from(best.values()).sort((a, b) => b.confidence - a.confidence)
+}
+
+export const describeRecommendation = (recommendation: DepartmentRecommendation): string =>
+  `${Math.round(recommendation.confidence * 100)}% of ${recommendation.basedOn} customers also visit ${recommendation.department}`
@@ -0,0 +1,59 @@
+import type { CallOutcome } from './callFeedback'
+import type { CallStatus } from './calls'
+
+/**
+ * Call Dispositions
+ * What the telecaller picks when a call ends. Each disposition is stored as a
+ * call status plus a feedback outcome, so reports can group on the enums
+ * directly; the pair maps back to exactly one disposition.
+ */
+
+export const CALL_DISPOSITIONS = ['CONNECTED', 'CALL_BACK', 'RINGING', 'BUSY', 'NOT_CONNECTED', 'WRONG_NUMBER'] as const
+
+export type CallDisposition = typeof CALL_DISPOSITIONS[number]
+
+export type DispositionDetails = {
+  label: string
+  callStatus: CallStatus
+  outcome: CallOutcome
+  connected: boolean // The customer was reached and can answer the feedback questions
+  requiresFollowUp: boolean // Default of the follow-up checkbox
+}
+
+export const DISPOSITIONS: Record<CallDisposition, DispositionDetails> = {
+  CONNECTED: { label: 'Connected', callStatus: 'COMPLETED', outcome: 'SUCCESSFUL', connected: true, requiresFollowUp: false },
+  CALL_BACK: { label: 'Call back', callStatus: 'ANSWERED', outcome: 'OTHER', connected: false, requiresFollowUp: true },
+  RINGING: { label: 'Ringing, no answer', callStatus: 'NO_ANSWER', outcome: 'NO_ANSWER', connected: false, requiresFollowUp: true },
+  BUSY: { label: 'Busy', callStatus: 'FAILED', outcome: 'BUSY', connected: false, requiresFollowUp: true },
+  NOT_CONNECTED: { label: 'Not connected', callStatus: 'FAILED', outcome: 'NO_ANSWER', connected: false, requiresFollowUp: true },
+  WRONG_NUMBER: { label: 'Wrong number', callStatus: 'FAILED', outcome: 'INVALID_NUMBER', connected: false, requiresFollowUp: false },
+}
+
+// Call status options of the original feedback form
+const LEGACY_LABELS: Record<string, CallDisposition> = {
+  'call back': 'CALL_BACK',
+  'connected': 'CONNECTED',
+  'not connected': 'NOT_CONNECTED',
+  'ringing': 'RINGING',
+  'busy': 'BUSY',
+  'wrong number': 'WRONG_NUMBER',
+}
+
+/**
+ * Disposition for a canonical key or one of the original form labels ('CALL BACK', 'busy', ...)
+ */
+export const parseDisposition = (value: string): CallDisposition | null => {
+  if ((CALL_DISPOSITIONS as readonly string[]).includes(value)) return value as CallDisposition
+  const label = value.trim().toLowerCase()
+  return Object.hasOwn(LEGACY_LABELS, label) ? LEGACY_LABELS[label] : null
+}
+
+/**
+ * Disposition of a stored call; null for calls saved without feedback
+ */
+export const dispositionOf = (callStatus: CallStatus, outcome: CallOutcome | null): CallDisposition | null => {
+  if (outcome === null) return null
+  return CALL_DISPOSITIONS.find((key) =>
+    DISPOSITIONS[key].callStatus === callStatus && DISPOSITIONS[key].outcome === outcome
+  ) ?? null
+}
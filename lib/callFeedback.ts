@@ -0,0 +1,78 @@
+import type { CallOutcome, CustomerMood } from '@prisma/client'
+import type { CallDisposition } from './callDispositions'
+import type { CallStatus } from './calls'
+import type { NonVisitReason } from './nonVisitReasons'
+
+/**
+ * Call Feedback
+ * What the customer said on a call, saved together with the call itself.
+ */
+
+export type { CallOutcome, CustomerMood }
+
+export const CALL_OUTCOME_LABELS: Record<CallOutcome, string> = {
+  SUCCESSFUL: 'Successful',
+  NO_ANSWER: 'No answer',
+  BUSY: 'Busy',
+  INVALID_NUMBER: 'Invalid number',
+  OTHER: 'Other',
+}
+
+export const CUSTOMER_MOODS: CustomerMood[] = ['HAPPY', 'NEUTRAL', 'UNHAPPY', 'ANGRY', 'UNKNOWN']
+
+export const CUSTOMER_MOOD_LABELS: Record<CustomerMood, string> = {
+  HAPPY: 'Happy',
+  NEUTRAL: 'Neutral',
+  UNHAPPY: 'Unhappy',
+  ANGRY: 'Angry',
+  UNKNOWN: 'Unknown',
+}
+
+// Moods a telecaller can pick; UNKNOWN is stored when none was captured
+export const CAPTURED_MOODS: CustomerMood[] = ['HAPPY', 'NEUTRAL', 'UNHAPPY', 'ANGRY']
+
+export type FeedbackAnswerKey =
+  | 'likedStore'
+  | 'staffHelpful'
+  | 'satisfiedService'
+  | 'revisitStore'
+  | 'crossSellAsked'
+  | 'improvementNeeded'
+
+// Yes/no questions asked on a connected call, in form order
+export const FEEDBACK_QUESTIONS: Array<{ key: FeedbackAnswerKey; label: string; shortLabel: string }> = [
+  { key: 'likedStore', label: 'Did you like our store & collection?', shortLabel: 'Liked store' },
+  { key: 'staffHelpful', label: 'Was our staff helpful, polite & knowledgeable?', shortLabel: 'Staff helpful' },
+  { key: 'satisfiedService', label: 'Are you satisfied with the service you received?', shortLabel: 'Satisfied' },
+  { key: 'revisitStore', label: 'Would you like to revisit our store?', shortLabel: 'Will revisit' },
+  { key: 'crossSellAsked', label: "Did our salesman ask about women's / men's collection?", shortLabel: 'Cross-sell asked' },
+  { key: 'improvementNeeded', label: 'Is there anything specific you would like us to improve?', shortLabel: 'Wants improvement' },
+]
+
+// Rating n is labelled RATING_LABELS[n - 1]
+export const RATING_LABELS = ['Very poor', 'Poor', 'Average', 'Good', 'Excellent']
+export const MAX_RATING = RATING_LABELS.length
+export const MAX_FEEDBACK_COMMENT_LENGTH = 1000
+export const MAX_FOLLOW_UP_REASON_LENGTH = 200
+
+export type FeedbackAnswers = Record<FeedbackAnswerKey, boolean | null>
+
+export type CallFeedbackRecord = {
+  id: string
+  callId: string
+  callStatus: CallStatus
+  disposition: CallDisposition | null
+  customerId: string // Mobile number as in the workbook
+  customerName: string | null
+  submittedByName: string
+  outcome: CallOutcome
+  customerMood: CustomerMood
+  rating: number | null // 1 to MAX_RATING
+  answers: FeedbackAnswers
+  improvementComments: string | null
+  requiresFollowUp: boolean
+  followUpDate: string | null // YYYY-MM-DD
+  followUpReason: string | null
+  nonVisitReasons: NonVisitReason[]
+  createdAt: string
+}
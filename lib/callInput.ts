@@ -0,0 +1,185 @@
+import {
+  CUSTOMER_MOODS,
+  FEEDBACK_QUESTIONS,
+  MAX_FEEDBACK_COMMENT_LENGTH,
+  MAX_FOLLOW_UP_REASON_LENGTH,
+  MAX_RATING,
+  type CallOutcome,
+  type CustomerMood,
+  type FeedbackAnswers,
+} from './callFeedback'
+import type { DispositionDetails } from './callDispositions'
+import { businessToday } from './followUps'
+import {
+  MAX_REASON_DETAILS_LENGTH,
+  NON_VISIT_REASONS,
+  type NonVisitReason,
+  type NonVisitReasonKey,
+} from './nonVisitReasons'
+
+/**
+ * Call Input
+ * Validation of a recorded call and its feedback form, before anything is stored.
+ */
+
+/**
+ * Thrown for invalid call input; API routes turn it into a 400 response
+ */
+export class CallInputError extends Error {}
+
+export const parseTimestamp = (value: unknown, field: string): Date => {
+  const date = typeof value === 'string' ? new Date(value) : null
+  if (!date || Number.isNaN(date.getTime())) {
+    throw new CallInputError(`${field} must be a timestamp.`)
+  }
+  return date
+}
+
+export type FeedbackData = FeedbackAnswers & {
+  outcome: CallOutcome
+  customerMood: CustomerMood
+  rating: number | null
+  improvementComments: string | null
+  requiresFollowUp: boolean
+  followUpDate: Date | null
+  followUpReason: string | null
+  nonVisitedDepartmentsDiscussed: string[]
+  nonVisitedReasons: NonVisitReason[]
+}
+
+const parseAnswer = (value: unknown, label: string): boolean | null => {
+  if (value === null || value === undefined) return null
+  if (typeof value !== 'boolean') {
+    throw new CallInputError(`"${label}" must be answered yes or no.`)
+  }
+  return value
+}
+
+/**
+ * Validate the reasons given for departments skipped on the latest visit, one per department
+ */
+export const parseNonVisitReasons = (value: unknown): NonVisitReason[] => {
+  if (value === null || value === undefined) return []
+  if (!Array.isArray(value)) {
+    throw new CallInputError('Non-visit reasons must be a list.')
+  }
+
+  const departments = new Set<string>()
+  return value.map((item): NonVisitReason => {
+    const entry = (typeof item === 'object' && item !== null ? item : {}) as Record<string, unknown>
+    const department = typeof entry.department === 'string' ? entry.department.trim() : ''
+    if (!department) {
+      throw new CallInputError('Each non-visit reason needs a department.')
+    }
+    if (departments.has(department)) {
+      throw new CallInputError(`Give one reason for "${department}".`)
+    }
+    departments.add(department)
+
+    const reason = entry.reason
+    if (typeof reason !== 'string' || !NON_VISIT_REASONS.includes(reason as NonVisitReasonKey)) {
+      throw new CallInputError(`Choose why the customer skipped "${department}".`)
+    }
+    const reasonDetails = typeof entry.reasonDetails === 'string' ? entry.reasonDetails.trim() : ''
+    if (reasonDetails.length > MAX_REASON_DETAILS_LENGTH) {
+      throw new CallInputError(`Details for "${department}" must be at most ${MAX_REASON_DETAILS_LENGTH} characters.`)
+    }
+    if (reason === 'other' && !reasonDetails) {
+      throw new CallInputError(`Describe why the customer skipped "${department}".`)
+    }
+    const salespersonMentioned = entry.salespersonMentioned ?? undefined
+    if (salespersonMentioned !== undefined && typeof salespersonMentioned !== 'boolean') {
+      throw new CallInputError(`Whether a salesperson mentioned "${department}" must be yes or no.`)
+    }
+    if (reason === 'not_informed_by_salesperson' && salespersonMentioned) {
+      throw new CallInputError(`"${department}" cannot be both mentioned and not informed by the salesperson.`)
+    }
+
+    return {
+      department,
+      reason: reason as NonVisitReasonKey,
+      ...(reasonDetails && { reasonDetails }),
+      ...(salespersonMentioned !== undefined && { salespersonMentioned }),
+    }
+  })
+}
+
+/**
+ * Validate the feedback form sent with a call. Mood, rating, answers and
+ * non-visit reasons are only kept when the customer was reached.
+ */
+export const parseFeedback = (input: Record<string, unknown>, disposition: DispositionDetails): FeedbackData => {
+  const customerMood = input.customerMood ?? 'UNKNOWN'
+  if (typeof customerMood !== 'string' || !CUSTOMER_MOODS.includes(customerMood as CustomerMood)) {
+    throw new CallInputError('Customer mood is not valid.')
+  }
+
+  const rating = input.rating ?? null
+  if (rating !== null && (typeof rating !== 'number' || !Number.isInteger(rating) || rating < 1 || rating > MAX_RATING)) {
+    throw new CallInputError(`Rating must be a whole number from 1 to ${MAX_RATING}.`)
+  }
+
+  const answers = Object.fromEntries(
+    FEEDBACK_QUESTIONS.map(({ key, label }) => [key, parseAnswer(input[key], label)])
+  ) as FeedbackAnswers
+
+  const comments = typeof input.improvementComments === 'string' ? input.improvementComments.trim() : ''
+  if (comments.length > MAX_FEEDBACK_COMMENT_LENGTH) {
+    throw new CallInputError(`Improvement comments must be at most ${MAX_FEEDBACK_COMMENT_LENGTH} characters.`)
+  }
+  if (answers.improvementNeeded && !comments) {
+    throw new CallInputError('Describe what the customer would like us to improve.')
+  }
+
+  const nonVisitedReasons = parseNonVisitReasons(input.nonVisitedReasons)
+
+  const requiresFollowUp = input.requiresFollowUp === true
+  let followUpDate: Date | null = null
+  let followUpReason: string | null = null
+  if (requiresFollowUp) {
+    const iso = input.followUpDate
+    if (typeof iso !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(iso) || Number.isNaN(Date.parse(iso))) {
+      throw new CallInputError('Choose a follow-up date.')
+    }
+    if (iso < businessToday()) {
+      throw new CallInputError('The follow-up date cannot be in the past.')
+    }
+    followUpDate = new Date(`${iso}T00:00:00Z`)
+
+    const reason = typeof input.followUpReason === 'string' ? input.followUpReason.trim() : ''
+    if (!reason) {
+      throw new CallInputError('Give a reason for the follow-up.')
+    }
+    if (reason.length > MAX_FOLLOW_UP_REASON_LENGTH) {
+      throw new CallInputError(`The follow-up reason must be at most ${MAX_FOLLOW_UP_REASON_LENGTH} characters.`)
+    }
+    followUpReason = reason
+  }
+
+  if (!disposition.connected) {
+    return {
+      outcome: disposition.outcome,
+      customerMood: 'UNKNOWN',
+      rating: null,
+      ...(Object.fromEntries(FEEDBACK_QUESTIONS.map(({ key }) => [key, null])) as FeedbackAnswers),
+      improvementComments: null,
+      requiresFollowUp,
+      followUpDate,
+      followUpReason,
+      nonVisitedDepartmentsDiscussed: [],
+      nonVisitedReasons: [],
+    }
+  }
+  return {
+    outcome: disposition.outcome,
+    customerMood: customerMood as CustomerMood,
+    rating: rating as number | null,
+    ...answers,
+    improvementComments: answers.improvementNeeded ? comments : null,
+    requiresFollowUp,
+    followUpDate,
+    followUpReason,
+    nonVisitedDepartmentsDiscussed: nonVisitedReasons.map((reason) => reason.department),
+    nonVisitedReasons,
+  }
+}
@@ -0,0 +1,213 @@
+import { prisma } from './prisma'
+import type { SessionUser } from './auth'
+import {
+  FEEDBACK_QUESTIONS,
+  type CallFeedbackRecord,
+  type CallOutcome,
+  type FeedbackAnswers,
+} from './callFeedback'
+import { DISPOSITIONS, dispositionOf, parseDisposition } from './callDispositions'
+import { CallInputError, parseFeedback, parseTimestamp, type FeedbackData } from './callInput'
+import type { CallRecord, CallStatus } from './calls'
+import { completeCustomerFollowUps, scheduleFollowUp } from './followUpStore'
+import { summarizeNonVisitReasons, type NonVisitReason, type NonVisitReasonReport } from './nonVisitReasons'
+import { normalizeKey, toIsoDate } from './workbookParser'
+
+const callInclude = {
+  customer: { select: { customerId: true, name: true } },
+  initiatedByUser: { select: { name: true } },
+  feedback: { select: { outcome: true } },
+} as const
+
+type StoredCall = {
+  id: string
+  status: CallStatus
+  startedAt: Date
+  endedAt: Date | null
+  duration: number | null
+  initiatedBy: string
+  customer: { customerId: string; name: string | null }
+  initiatedByUser: { name: string }
+  feedback: { outcome: CallOutcome } | null
+}
+
+const toCallRecord = (call: StoredCall): CallRecord => ({
+  id: call.id,
+  customerId: call.customer.customerId,
+  customerName: call.customer.name,
+  status: call.status,
+  disposition: dispositionOf(call.status, call.feedback?.outcome ?? null),
+  startedAt: call.startedAt.toISOString(),
+  endedAt: call.endedAt?.toISOString() ?? null,
+  duration: call.duration,
+  initiatedById: call.initiatedBy,
+  initiatedByName: call.initiatedByUser.name,
+})
+
+const feedbackInclude = {
+  call: { select: { status: true } },
+  customer: { select: { customerId: true, name: true } },
+  submittedByUser: { select: { name: true } },
+} as const
+
+type StoredFeedback = Omit<FeedbackData, 'nonVisitedReasons'> & {
+  nonVisitedReasons: unknown
+  id: string
+  callId: string
+  createdAt: Date
+  call: { status: CallStatus }
+  customer: { customerId: string; name: string | null }
+  submittedByUser: { name: string }
+}
+
+// Stored as JSON; feedback saved before reasons were asked has none
+const toNonVisitReasons = (value: unknown): NonVisitReason[] => (Array.isArray(value) ? (value as NonVisitReason[]) : [])
+
+const toFeedbackRecord = (feedback: StoredFeedback): CallFeedbackRecord => ({
+  id: feedback.id,
+  callId: feedback.callId,
+  callStatus: feedback.call.status,
+  disposition: dispositionOf(feedback.call.status, feedback.outcome),
+  customerId: feedback.customer.customerId,
+  customerName: feedback.customer.name,
+  submittedByName: feedback.submittedByUser.name,
+  outcome: feedback.outcome,
+  customerMood: feedback.customerMood,
+  rating: feedback.rating,
+  answers: Object.fromEntries(FEEDBACK_QUESTIONS.map(({ key }) => [key, feedback[key]])) as FeedbackAnswers,
+  improvementComments: feedback.improvementComments,
+  requiresFollowUp: feedback.requiresFollowUp,
+  followUpDate: feedback.followUpDate ? toIsoDate(feedback.followUpDate) : null,
+  followUpReason: feedback.followUpReason,
+  nonVisitReasons: toNonVisitReasons(feedback.nonVisitedReasons),
+  createdAt: feedback.createdAt.toISOString(),
+})
+
+/**
+ * Saved call feedback, newest first; limited to one customer when an ID is given
+ */
+export const listFeedback = async (customerId?: string): Promise<CallFeedbackRecord[]> => {
+  const feedback = await prisma.callFeedback.findMany({
+    where: customerId ? { customer: { normalizedCustomerId: normalizeKey(customerId) } } : {},
+    include: feedbackInclude,
+    orderBy: { createdAt: 'desc' },
+  })
+  return feedback.map(toFeedbackRecord)
+}
+
+/**
+ * Non-visit reasons from every call, each attributed to the salespersons of the
+ * customer's latest visit before the call, which is the visit they were asked about
+ */
+export const loadNonVisitReasonReport = async (): Promise<NonVisitReasonReport> => {
+  const feedback = await prisma.callFeedback.findMany({
+    where: { nonVisitedDepartmentsDiscussed: { isEmpty: false } },
+    select: { customerId: true, createdAt: true, nonVisitedReasons: true },
+  })
+  const visits = await prisma.customerVisit.findMany({
+    where: {
+      customerId: { in: Array.from(new Set(feedback.map((entry) => entry.customerId))) },
+      departmentsVisited: { isEmpty: false },
+    },
+    select: { customerId: true, visitDate: true, salespersons: true },
+    orderBy: { visitDate: 'desc' },
+  })
+
+  return summarizeNonVisitReasons(
+    feedback.map((entry) => ({
+      reasons: toNonVisitReasons(entry.nonVisitedReasons),
+      salespersons: visits.find((visit) => visit.customerId === entry.customerId && visit.visitDate <= entry.createdAt)
+        ?.salespersons ?? [],
+    }))
+  )
+}
+
+/**
+ * Every call, newest first
+ */
+export const listCalls = async (): Promise<CallRecord[]> => {
+  const calls = await prisma.call.findMany({ include: callInclude, orderBy: { startedAt: 'desc' } })
+  return calls.map(toCallRecord)
+}
+
+/**
+ * Record a finished call to a customer, with the feedback form when one was
+ * filled in. The disposition (canonical or an original form label) sets the call
+ * status and feedback outcome. The call ends now; its duration runs from
+ * `startedAt`, when the telecaller opened the call. A requested follow-up is
+ * queued for the caller, and reaching the customer completes the caller's
+ * earlier reminders for them. Non-visit reasons must be for departments the
+ * customer skipped on their latest visit.
+ */
+export const recordCall = async (
+  input: { customerId?: unknown; disposition?: unknown; startedAt?: unknown; feedback?: unknown },
+  user: SessionUser
+): Promise<CallRecord> => {
+  if (typeof input.customerId !== 'string' || !input.customerId.trim()) {
+    throw new CallInputError('Customer ID is required.')
+  }
+  const dispositionKey = typeof input.disposition === 'string' ? parseDisposition(input.disposition) : null
+  if (!dispositionKey) {
+    throw new CallInputError('Call disposition is not valid.')
+  }
+  const disposition = DISPOSITIONS[dispositionKey]
+  const endedAt = new Date()
+  const startedAt = parseTimestamp(input.startedAt, 'Start time')
+  if (startedAt > endedAt) {
+    throw new CallInputError('The call cannot start in the future.')
+  }
+  if (input.feedback !== undefined && (typeof input.feedback !== 'object' || input.feedback === null)) {
+    throw new CallInputError('Feedback must be an object.')
+  }
+  const feedback = input.feedback ? parseFeedback(input.feedback as Record<string, unknown>, disposition) : null
+
+  const customer = await prisma.customer.findUnique({
+    where: { normalizedCustomerId: normalizeKey(input.customerId) },
+    select: { id: true },
+  })
+  if (!customer) {
+    throw new CallInputError(`Customer with ID "${input.customerId}" not found.`)
+  }
+  if (feedback && feedback.nonVisitedReasons.length > 0) {
+    const latestVisit = await prisma.customerVisit.findFirst({
+      where: { customerId: customer.id, departmentsVisited: { isEmpty: false } },
+      select: { departmentsNotVisited: true },
+      orderBy: { visitDate: 'desc' },
+    })
+    const skipped = feedback.nonVisitedReasons.find(
+      (reason) => !latestVisit?.departmentsNotVisited.includes(reason.department)
+    )
+    if (skipped) {
+      throw new CallInputError(`"${skipped.department}" was not skipped on the customer's latest visit.`)
+    }
+  }
+
+  const call = await prisma.call.create({
+    data: {
+      customerId: customer.id,
+      initiatedBy: user.id,
+      status: disposition.callStatus,
+      startedAt,
+      endedAt,
+      duration: Math.round((endedAt.getTime() - startedAt.getTime()) / 1000),
+      ...(feedback && {
+        feedback: { create: { ...feedback, customerId: customer.id, submittedBy: user.id } },
+      }),
+    },
+    include: callInclude,
+  })
+
+  if (disposition.connected) {
+    await completeCustomerFollowUps(customer.id, user.id)
+  }
+  if (feedback?.followUpDate) {
+    await scheduleFollowUp({
+      customerId: customer.id,
+      callId: call.id,
+      reminderDate: feedback.followUpDate,
+      notes: feedback.followUpReason ? `${disposition.label}: ${feedback.followUpReason}` : disposition.label,
+      userId: user.id,
+    })
+  }
+  return toCallRecord(call)
+}
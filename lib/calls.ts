@@ -0,0 +1,40 @@
+import type { CallStatus } from '@prisma/client'
+import type { CallDisposition } from './callDispositions'
+
+/**
+ * Telecaller Calls
+ * Calls are stored on the server so every telecaller sees who has already been
+ * called, and by whom.
+ */
+
+export type { CallStatus }
+
+export const CALL_STATUS_LABELS: Record<CallStatus, string> = {
+  INITIATED: 'Initiated',
+  RINGING: 'Ringing',
+  ANSWERED: 'Answered',
+  COMPLETED: 'Completed',
+  FAILED: 'Failed',
+  NO_ANSWER: 'No answer',
+}
+
+export type CallRecord = {
+  id: string
+  customerId: string // Mobile number as in the workbook
+  customerName: string | null
+  status: CallStatus
+  disposition: CallDisposition | null // null when saved without feedback
+  startedAt: string
+  endedAt: string | null
+  duration: number | null // Seconds
+  initiatedById: string
+  initiatedByName: string
+}
+
+// Statuses of calls where the customer was reached
+export const CONNECTED_CALL_STATUSES: CallStatus[] = ['ANSWERED', 'COMPLETED']
+
+export const formatCallDuration = (seconds: number | null): string => {
+  if (seconds === null) return '—'
+  return `${Math.floor(seconds / 60)}m ${seconds % 60}s`
+}
@@ -0,0 +1,159 @@
+import { NotFoundError } from './apiRequest'
+import { prisma } from './prisma'
+import {
+  DEFAULT_DEPARTMENT_ALIASES,
+  DEFAULT_DEPARTMENT_LIST,
+  MASTER_DEPARTMENTS,
+  normalizeSpelling,
+  type DepartmentList,
+} from './departments'
+
+/**
+ * Thrown for invalid department input; API routes turn it into a 400 response
+ */
+export class DepartmentInputError extends Error {}
+
+export type DepartmentRecord = {
+  id: string
+  name: string
+  displayOrder: number
+  isActive: boolean
+  aliases: string[]
+}
+
+export type DepartmentInput = {
+  name?: unknown
+  displayOrder?: unknown
+  isActive?: unknown
+  aliases?: unknown
+}
+
+const departmentSelect = {
+  id: true,
+  name: true,
+  displayOrder: true,
+  isActive: true,
+  aliases: true,
+} as const
+
+/**
+ * Active departments, their aliases and ignored item groups. Falls back to the
+ * built-in list until departments have been saved.
+ */
+export const loadDepartmentList = async (): Promise<DepartmentList> => {
+  const records = await prisma.masterDepartment.findMany({
+    where: { isActive: true },
+    select: departmentSelect,
+    orderBy: [{ displayOrder: 'asc' }, { name: 'asc' }],
+  })
+  const ignored = (await prisma.ignoredItemGroup.findMany({ select: { name: true } })).map((record) => record.name)
+  if (records.length === 0) {
+    const total = await prisma.masterDepartment.count()
+    if (total === 0) return { ...DEFAULT_DEPARTMENT_LIST, ignored }
+  }
+
+  const aliases: Record<string, string> = {}
+  records.forEach((record) => record.aliases.forEach((alias) => { aliases[alias] = record.name }))
+  return { names: records.map((record) => record.name), aliases, ignored }
+}
+
+/**
+ * Store the built-in departments so admins can start editing from them
+ */
+const seedDefaultDepartments = async () => {
+  await prisma.masterDepartment.createMany({
+    data: MASTER_DEPARTMENTS.map((name, index) => ({
+      name,
+      displayOrder: index + 1,
+      aliases: Object.keys(DEFAULT_DEPARTMENT_ALIASES).filter((alias) => DEFAULT_DEPARTMENT_ALIASES[alias] === name),
+    })),
+  })
+}
+
+export const listDepartments = async (): Promise<DepartmentRecord[]> => {
+  if ((await prisma.masterDepartment.count()) === 0) {
+    await seedDefaultDepartments()
+  }
+  return prisma.masterDepartment.findMany({
+    select: departmentSelect,
+    orderBy: [{ isActive: 'desc' }, { displayOrder: 'asc' }, { name: 'asc' }],
+  })
+}
+
+const parseName = (value: unknown): string => {
+  const name = typeof value === 'string' ? normalizeSpelling(value) : ''
+  if (!name) {
+    throw new DepartmentInputError('Department name is required.')
+  }
+  return name
+}
+
+const parseAliases = (value: unknown, name: string): string[] => {
+  if (!Array.isArray(value)) {
+    throw new DepartmentInputError('Aliases must be a list of spellings.')
+  }
+  const aliases = value
+    .filter((alias): alias is string => typeof alias === 'string')
+    .map(normalizeSpelling)
+    .filter((alias) => alias && alias !== name)
+  return Array.from(new Set(aliases)).sort()
+}
+
+/**
+ * Names and aliases must each point at exactly one department
+ */
+const ensureSpellingsAvailable = async (spellings: string[], exceptId?: string) => {
+  const others = await prisma.masterDepartment.findMany({
+    where: exceptId ? { id: { not: exceptId } } : {},
+    select: { name: true, aliases: true },
+  })
+  for (const other of others) {
+    const clash = spellings.find((spelling) => spelling === other.name || other.aliases.includes(spelling))
+    if (clash) {
+      throw new DepartmentInputError(`"${clash}" is already used by the ${other.name} department.`)
+    }
+  }
+}
+
+export const createDepartment = async (input: DepartmentInput): Promise<DepartmentRecord> => {
+  await listDepartments()
+  const name = parseName(input.name)
+  const aliases = input.aliases === undefined ? [] : parseAliases(input.aliases, name)
+  await ensureSpellingsAvailable([name, ...aliases])
+
+  const last = await prisma.masterDepartment.findFirst({ orderBy: { displayOrder: 'desc' } })
+  const displayOrder = Number.isInteger(input.displayOrder) ? (input.displayOrder as number) : (last?.displayOrder ?? 0) + 1
+
+  return prisma.masterDepartment.create({
+    data: { name, aliases, displayOrder },
+    select: departmentSelect,
+  })
+}
+
+/**
+ * Renaming keeps the old name as an alias so stored rows still match
+ */
+export const updateDepartment = async (id: string, input: DepartmentInput): Promise<DepartmentRecord> => {
+  const existing = await prisma.masterDepartment.findUnique({ where: { id }, select: departmentSelect })
+  if (!existing) {
+    throw new NotFoundError('Department not found.')
+  }
+
+  const name = input.name === undefined ? existing.name : parseName(input.name)
+  let aliases = input.aliases === undefined ? existing.aliases : parseAliases(input.aliases, name)
+  if (name !== existing.name && !aliases.includes(existing.name)) {
+    aliases = [...aliases, existing.name].sort()
+  }
+  await ensureSpellingsAvailable([name, ...aliases], id)
+
+  return prisma.masterDepartment.update({
+    where: { id },
+    data: {
+      name,
+      aliases,
+      ...(Number.isInteger(input.displayOrder) ? { displayOrder: input.displayOrder as number } : {}),
+      ...(input.isActive !== undefined ? { isActive: input.isActive === true } : {}),
+    },
+    select: departmentSelect,
+  })
+}
@@ -1,6 +1,7 @@
 /**
  * Master Department List
- * These are the official departments in the shop
+ * The live list is stored in the MasterDepartment collection (see departmentStore.ts);
+ * these defaults are used until an admin saves one.
  */
 
 export const MASTER_DEPARTMENTS = [
@@ -14,55 +15,81 @@ export const MASTER_DEPARTMENTS = [
 
 export type MasterDepartment = typeof MASTER_DEPARTMENTS[number]
 
+/**
+ * Common variations and misspellings of the default departments
+ */
+export const DEFAULT_DEPARTMENT_ALIASES: Record<string, string> = {
+  // Men's variations
+  'mens accessories': "men's ethnic",
+  "men's accessories": "men's ethnic",
+  'mens ethnic': "men's ethnic",
+  'mens ethnics': "men's ethnic",
+  'men ethnic': "men's ethnic",
+  'men ethnics': "men's ethnic",
+  'mens readymade': "men's readymade",
+  'men readymade': "men's readymade",
+  'shirting': 'shutting shirting',
+  'shirting shutting': 'shutting shirting',
+  'shutting': 'shutting shirting',
+
+  // Women's variations
+  'womens ethnic': "women's ethnic",
+  'womens ethnis': "women's ethnic",
+  'women ethnic': "women's ethnic",
+  'women ethnis': "women's ethnic",
+  'saree': 'sarees',
+  'sari': 'sarees',
+  'saris': 'sarees',
+}
+
+export type DepartmentList = {
+  names: string[] // Active departments in display order
+  aliases: Record<string, string> // Alternate spelling -> department name
+  ignored: string[] // Item groups an admin chose not to count as a department
+}
+
+export const DEFAULT_DEPARTMENT_LIST: DepartmentList = {
+  names: [...MASTER_DEPARTMENTS],
+  aliases: DEFAULT_DEPARTMENT_ALIASES,
+  ignored: [],
+}
+
+/**
+ * Fold an item group or department spelling for comparison: curly apostrophes,
+ * repeated whitespace and case are ignored. Names, aliases and ignored item
+ * groups are stored in this form.
+ */
+export const normalizeSpelling = (value: string): string =>
+  value.replace(/[’‘]/g, "'").replace(/\s+/g, ' ').trim().toLowerCase()
+
 /**
  * Normalize department names from Excel to match master list
  * Handles variations and common misspellings
  */
-export const normalizeDepartment = (department: string): string => {
-  const normalized = department.toLowerCase().trim()
-  
-  // Handle common variations
-  const variations: Record<string, string> = {
-    // Men's variations
-    'mens accessories': "men's ethnic",
-    "men's accessories": "men's ethnic",
-    'mens ethnic': "men's ethnic",
-    'mens ethnics': "men's ethnic",
-    'men ethnic': "men's ethnic",
-    'men ethnics': "men's ethnic",
-    'mens readymade': "men's readymade",
-    'men readymade': "men's readymade",
-    'shirting': 'shutting shirting',
-    'shirting shutting': 'shutting shirting',
-    'shutting': 'shutting shirting',
-    
-    // Women's variations
-    'womens ethnic': "women's ethnic",
-    'womens ethnis': "women's ethnic",
-    'women ethnic': "women's ethnic",
-    'women ethnis': "women's ethnic",
-    'saree': 'sarees',
-    'sari': 'sarees',
-    'saris': 'sarees',
-  }
-  
+export const normalizeDepartment = (
+  department: string,
+  departments: DepartmentList = DEFAULT_DEPARTMENT_LIST
+): string => {
+  const normalized = normalizeSpelling(department)
+
   // Check exact match first
-  if (MASTER_DEPARTMENTS.includes(normalized as MasterDepartment)) {
+  if (departments.names.includes(normalized)) {
     return normalized
   }
-  
-  // Check variations
-  if (variations[normalized]) {
-    return variations[normalized]
+
+  // Check aliases
+  const alias = departments.aliases[normalized]
+  if (alias && departments.names.includes(alias)) {
+    return alias
   }
-  
+
   // Check if it contains any master department name
-  for (const masterDept of MASTER_DEPARTMENTS) {
+  for (const masterDept of departments.names) {
     if (normalized.includes(masterDept) || masterDept.includes(normalized)) {
       return masterDept
     }
   }
-  
+
   // Return original if no match found (will be filtered out)
   return normalized
 }
@@ -70,16 +97,19 @@ export const normalizeDepartment = (department: string): string => {
 /**
  * Format department with counter name
  */
-export const formatDepartmentCounter = (department: string, counter: string): string => {
-  const normalizedDepartment = normalizeDepartment(department)
-  
+export const formatDepartmentCounter = (
+  department: string,
+  counter: string,
+  departments: DepartmentList = DEFAULT_DEPARTMENT_LIST
+): string => {
+  const normalizedDepartment = normalizeDepartment(department, departments)
+
   // Only include in master list if it matches
-  if (!MASTER_DEPARTMENTS.includes(normalizedDepartment as MasterDepartment)) {
-    // If not in master list, return empty or original based on your preference
-    // For now, we'll return empty to filter out non-master departments
+  if (!departments.names.includes(normalizedDepartment)) {
+    // Return empty to filter out non-master departments
     return ''
   }
-  
+
   if (normalizedDepartment && counter) {
     return `${normalizedDepartment} (${counter})`
   }
@@ -89,17 +119,44 @@ export const formatDepartmentCounter = (department: string, counter: string): st
   return ''
 }
 
+/**
+ * Label used to count departments for incentives: the master department with its
+ * counter, or the raw Item Group Name when it does not match the master list.
+ * Ignored item groups get no label, so they never count.
+ */
+export const formatDepartmentLabel = (
+  itemGroup: string,
+  counter: string,
+  departments: DepartmentList = DEFAULT_DEPARTMENT_LIST
+): string => {
+  const label = formatDepartmentCounter(itemGroup, counter, departments)
+  if (label || !itemGroup.trim() || isIgnoredItemGroup(itemGroup, departments)) return label
+  return counter ? `${itemGroup.trim()} (${counter})` : itemGroup.trim()
+}
+
+/**
+ * Check if an admin marked the item group as not a department
+ */
+export const isIgnoredItemGroup = (
+  itemGroup: string,
+  departments: DepartmentList = DEFAULT_DEPARTMENT_LIST
+): boolean => {
+  return departments.ignored.includes(normalizeSpelling(itemGroup))
+}
+
 /**
  * Check if a department is in the master list
  */
-export const isMasterDepartment = (department: string): boolean => {
-  const normalized = normalizeDepartment(department)
-  return MASTER_DEPARTMENTS.includes(normalized as MasterDepartment)
+export const isMasterDepartment = (
+  department: string,
+  departments: DepartmentList = DEFAULT_DEPARTMENT_LIST
+): boolean => {
+  return departments.names.includes(normalizeDepartment(department, departments))
 }
 
 /**
  * Get all master departments
  */
-export const getAllMasterDepartments = (): readonly string[] => {
-  return MASTER_DEPARTMENTS
+export const getAllMasterDepartments = (departments: DepartmentList = DEFAULT_DEPARTMENT_LIST): readonly string[] => {
+  return departments.names
 }
@@ -0,0 +1,170 @@
+import { NotFoundError } from './apiRequest'
+import { prisma } from './prisma'
+import type { SessionUser } from './auth'
+import { businessToday, type FollowUpAction, type FollowUpReminderRecord, type ReminderStatus } from './followUps'
+import { ROLES, hasPermission } from './permissions'
+import { toIsoDate } from './workbookParser'
+
+/**
+ * Thrown for invalid follow-up input; API routes turn it into a 400 response
+ */
+export class FollowUpInputError extends Error {}
+
+const reminderInclude = {
+  customer: { select: { customerId: true, name: true } },
+  creator: { select: { name: true } },
+  assignee: { select: { name: true } },
+} as const
+
+type StoredReminder = {
+  id: string
+  callId: string | null
+  reminderDate: Date
+  status: ReminderStatus
+  notes: string | null
+  assignedTo: string
+  createdAt: Date
+  customer: { customerId: string; name: string | null }
+  creator: { name: string }
+  assignee: { name: string }
+}
+
+const toReminderRecord = (reminder: StoredReminder): FollowUpReminderRecord => ({
+  id: reminder.id,
+  customerId: reminder.customer.customerId,
+  customerName: reminder.customer.name,
+  callId: reminder.callId,
+  reminderDate: toIsoDate(reminder.reminderDate),
+  status: reminder.status,
+  notes: reminder.notes,
+  createdByName: reminder.creator.name,
+  assignedToId: reminder.assignedTo,
+  assignedToName: reminder.assignee.name,
+  createdAt: reminder.createdAt.toISOString(),
+})
+
+const toDate = (iso: string) => new Date(`${iso}T00:00:00Z`)
+
+/**
+ * Pending reminders assigned to a telecaller, soonest first
+ */
+export const listPendingFollowUps = async (userId: string): Promise<FollowUpReminderRecord[]> => {
+  const reminders = await prisma.followUpReminder.findMany({
+    where: { assignedTo: userId, status: 'PENDING' },
+    include: reminderInclude,
+    orderBy: { reminderDate: 'asc' },
+  })
+  return reminders.map(toReminderRecord)
+}
+
+/**
+ * Complete the reminders a telecaller still has pending for a customer they
+ * have just reached
+ */
+export const completeCustomerFollowUps = async (customerId: string, userId: string): Promise<void> => {
+  await prisma.followUpReminder.updateMany({
+    where: { customerId, assignedTo: userId, status: 'PENDING' },
+    data: { status: 'COMPLETED', completedAt: new Date() },
+  })
+}
+
+export const scheduleFollowUp = async (input: {
+  customerId: string
+  callId: string
+  reminderDate: Date
+  notes: string | null
+  userId: string
+}): Promise<void> => {
+  await prisma.followUpReminder.create({
+    data: {
+      customerId: input.customerId,
+      callId: input.callId,
+      createdBy: input.userId,
+      assignedTo: input.userId,
+      reminderDate: input.reminderDate,
+      notes: input.notes,
+    },
+  })
+}
+
+/**
+ * Snooze (`until` a later date), complete or dismiss a pending reminder of the signed-in telecaller
+ */
+export const updateFollowUp = async (
+  id: string,
+  input: { action?: unknown; until?: unknown },
+  user: SessionUser
+): Promise<void> => {
+  const action = input.action as FollowUpAction
+  if (!['snooze', 'complete', 'dismiss'].includes(action)) {
+    throw new FollowUpInputError('Action must be snooze, complete or dismiss.')
+  }
+
+  const reminder = await prisma.followUpReminder.findUnique({ where: { id }, select: { status: true, assignedTo: true } })
+  if (!reminder) {
+    throw new NotFoundError('Follow-up not found.')
+  }
+  if (reminder.assignedTo !== user.id) {
+    throw new FollowUpInputError('This follow-up is assigned to someone else.')
+  }
+  if (reminder.status !== 'PENDING') {
+    throw new FollowUpInputError('This follow-up is already closed.')
+  }
+
+  if (action === 'snooze') {
+    const until = input.until
+    if (typeof until !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(until) || Number.isNaN(Date.parse(until))) {
+      throw new FollowUpInputError('Choose the date to snooze until.')
+    }
+    if (until <= businessToday()) {
+      throw new FollowUpInputError('Snooze until a date after today.')
+    }
+    await prisma.followUpReminder.update({ where: { id }, data: { reminderDate: toDate(until) } })
+    return
+  }
+
+  await prisma.followUpReminder.update({
+    where: { id },
+    data: action === 'complete'
+      ? { status: 'COMPLETED', completedAt: new Date() }
+      : { status: 'DISMISSED' },
+  })
+}
+
+/**
+ * Hand the pending reminders of a user who can no longer make calls to the
+ * active callers with the fewest pending reminders, telecallers first. Returns
+ * how many were moved; none are when nobody else can take them.
+ */
+export const reassignFollowUps = async (userId: string): Promise<number> => {
+  const reminders = await prisma.followUpReminder.findMany({
+    where: { assignedTo: userId, status: 'PENDING' },
+    select: { id: true },
+    orderBy: { reminderDate: 'asc' },
+  })
+  if (reminders.length === 0) return 0
+
+  const callerRoles = ROLES.filter((role) => hasPermission(role, 'MAKE_CALLS'))
+  const callers = await prisma.user.findMany({
+    where: { id: { not: userId }, isActive: true, role: { in: callerRoles } },
+    select: { id: true, role: true },
+  })
+  const telecallers = callers.filter((caller) => caller.role === 'TELECALLER')
+  const candidates = telecallers.length > 0 ? telecallers : callers
+  if (candidates.length === 0) return 0
+
+  const load = new Map(candidates.map((candidate) => [candidate.id, 0]))
+  const pending = await prisma.followUpReminder.groupBy({
+    by: ['assignedTo'],
+    where: { status: 'PENDING', assignedTo: { in: Array.from(load.keys()) } },
+    _count: { _all: true },
+  })
+  pending.forEach((row) => load.set(row.assignedTo, row._count._all))
+
+  for (const reminder of reminders) {
+    const [assignee] = Array.from(load.entries()).sort(([, a], [, b]) => a - b)[0]
+    await prisma.followUpReminder.update({ where: { id: reminder.id }, data: { assignedTo: assignee } })
+    load.set(assignee, load.get(assignee)! + 1)
+  }
+  return reminders.length
+}
@@ -0,0 +1,63 @@
+import type { ReminderStatus } from '@prisma/client'
+
+/**
+ * Follow-up Reminders
+ * Raised from call feedback that asks for a follow-up, and queued for the
+ * telecaller it is assigned to until it is completed or dismissed. A connected
+ * call to the customer completes the caller's reminders still pending for them.
+ */
+
+export type { ReminderStatus }
+
+export const REMINDER_STATUS_LABELS: Record<ReminderStatus, string> = {
+  PENDING: 'Pending',
+  COMPLETED: 'Completed',
+  DISMISSED: 'Dismissed',
+}
+
+export type FollowUpUrgency = 'overdue' | 'due' | 'upcoming'
+
+export const FOLLOW_UP_URGENCY_LABELS: Record<FollowUpUrgency, string> = {
+  overdue: 'Overdue',
+  due: 'Due today',
+  upcoming: 'Upcoming',
+}
+
+// Follow-up dates are days at the store, whatever the time zone of the server or browser
+export const BUSINESS_TIME_ZONE = 'Asia/Kolkata'
+
+/**
+ * Today's date (YYYY-MM-DD) in the business time zone
+ */
+export const businessToday = (now: Date = new Date()): string => {
+  const parts = new Intl.DateTimeFormat('en-GB', {
+    timeZone: BUSINESS_TIME_ZONE,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+  }).formatToParts(now)
+  const part = (type: Intl.DateTimeFormatPartTypes) => parts.find((entry) => entry.type === type)?.value
+  return `${part('year')}-${part('month')}-${part('day')}`
+}
+
+// Days a reminder can be pushed back by from the queue
+export const SNOOZE_DAYS = [1, 3, 7]
+
+export type FollowUpAction = 'snooze' | 'complete' | 'dismiss'
+
+export type FollowUpReminderRecord = {
+  id: string
+  customerId: string // Mobile number as in the workbook
+  customerName: string | null
+  callId: string | null
+  reminderDate: string // YYYY-MM-DD
+  status: ReminderStatus
+  notes: string | null
+  createdByName: string
+  assignedToId: string
+  assignedToName: string
+  createdAt: string
+}
+
+export const followUpUrgency = (reminderDate: string, today: string): FollowUpUrgency =>
+  reminderDate < today ? 'overdue' : reminderDate === today ? 'due' : 'upcoming'
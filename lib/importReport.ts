@@ -0,0 +1,126 @@
+import * as XLSX from 'xlsx'
+import { COLUMN_FIELDS, COLUMN_FIELD_LABELS, type ColumnField } from './workbookParser'
+
+/**
+ * Import Validation Report
+ * Row-level problems found while importing a workbook, grouped by reason so the
+ * POS team can fix the source data.
+ */
+
+export const IMPORT_ISSUE_REASONS = [
+  'NON_SALE',
+  'MISSING_MOBILE',
+  'BLANK_ITEM_GROUP',
+  'UNPARSEABLE_DATE',
+  'DUPLICATE',
+  'UNMATCHED_RETURN',
+  'BLANK_SALESMAN',
+  'UNKNOWN_DEPARTMENT',
+] as const
+
+export type ImportIssueReason = typeof IMPORT_ISSUE_REASONS[number]
+
+export const IMPORT_ISSUE_LABELS: Record<ImportIssueReason, string> = {
+  NON_SALE: 'Not a sale, return or replacement',
+  MISSING_MOBILE: 'Missing mobile number',
+  BLANK_ITEM_GROUP: 'Blank item group',
+  UNPARSEABLE_DATE: 'Unparseable voucher date',
+  DUPLICATE: 'Duplicate voucher line',
+  UNMATCHED_RETURN: 'Return without a matching sale',
+  BLANK_SALESMAN: 'Blank salesman (imported, no incentive credited)',
+  UNKNOWN_DEPARTMENT: 'Unknown department (imported under its item group name)',
+}
+
+// The remaining reasons are warnings: the row is still imported
+const SKIPPING_REASONS: ImportIssueReason[] = [
+  'NON_SALE',
+  'MISSING_MOBILE',
+  'BLANK_ITEM_GROUP',
+  'UNPARSEABLE_DATE',
+  'DUPLICATE',
+  'UNMATCHED_RETURN',
+]
+
+export const isSkippingReason = (reason: ImportIssueReason) => SKIPPING_REASONS.includes(reason)
+
+/**
+ * Where a row came from in the uploaded workbook
+ */
+export type ImportRow = {
+  fileName: string | null
+  sheetName: string
+  rowNumber: number // Row number as shown in Excel
+  cells: Partial<Record<ColumnField, string>> // Mapped cells as text
+}
+
+export type ImportIssue = ImportRow & {
+  reason: ImportIssueReason
+}
+
+export type ImportIssueGroup = {
+  reason: ImportIssueReason
+  label: string
+  skipped: boolean
+  rows: ImportRow[]
+}
+
+export type ImportReport = {
+  rowsRead: number
+  rowsAccepted: number
+  rowsSkipped: number
+  groups: ImportIssueGroup[]
+}
+
+export const buildImportReport = (rowsRead: number, issues: ImportIssue[]): ImportReport => {
+  const groups = IMPORT_ISSUE_REASONS.map((reason) => ({
+    reason,
+    label: IMPORT_ISSUE_LABELS[reason],
+    skipped: isSkippingReason(reason),
+    rows: issues
+      .filter((issue) => issue.reason === reason)
+      .map(({ fileName, sheetName, rowNumber, cells }) => ({ fileName, sheetName, rowNumber, cells })),
+  })).filter((group) => group.rows.length > 0)
+
+  // A row can be reported for several reasons, e.g. a duplicate line without a mobile number
+  const rowsSkipped = new Set(
+    issues
+      .filter((issue) => isSkippingReason(issue.reason))
+      .map(({ fileName, sheetName, rowNumber }) => `${fileName ?? ''}__${sheetName}__${rowNumber}`)
+  ).size
+  return {
+    rowsRead,
+    rowsAccepted: Math.max(rowsRead - rowsSkipped, 0),
+    rowsSkipped,
+    groups,
+  }
+}
+
+/**
+ * Excel version of the report: a summary sheet and one row per problem
+ */
+export const buildImportReportWorkbook = (report: ImportReport): ArrayBuffer => {
+  const summary = [
+    ['Rows read', report.rowsRead],
+    ['Rows accepted', report.rowsAccepted],
+    ['Rows skipped', report.rowsSkipped],
+    [],
+    ['Reason', 'Rows', 'Skipped'],
+    ...report.groups.map((group) => [group.label, group.rows.length, group.skipped ? 'Yes' : 'No']),
+  ]
+
+  const header = ['Reason', 'File', 'Sheet', 'Row', ...COLUMN_FIELDS.map((field) => COLUMN_FIELD_LABELS[field])]
+  const details = report.groups.flatMap((group) =>
+    group.rows.map((row) => [
+      group.label,
+      row.fileName ?? '',
+      row.sheetName,
+      row.rowNumber,
+      ...COLUMN_FIELDS.map((field) => row.cells[field] ?? ''),
+    ])
+  )
+
+  const workbook = XLSX.utils.book_new()
+  XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet(summary), 'Summary')
+  XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet([header, ...details]), 'Rows')
+  return XLSX.write(workbook, { type: 'array', bookType: 'xlsx' })
+}
@@ -0,0 +1,132 @@
+import type { HandledVisit, SalespersonMetric } from './incentiveParser'
+import { isWithinRange, type DateRange } from './periods'
+import { formatDisplayDate } from './workbookParser'
+
+/**
+ * Incentive Charts
+ * Chart series for the dashboard, built from the parsed metrics and limited to
+ * the selected range (null for all time).
+ */
+
+export type DailyIncentivePoint = {
+  dateIso: string
+  label: string
+  amount: number
+}
+
+export type DepartmentCountBucket = {
+  bucket: string // '1' to '5', then '6+'
+  visits: number
+}
+
+export type SlabBreakdown = {
+  series: string[] // Stack keys, fewest departments first
+  rows: Array<{ name: string } & Record<string, number | string>>
+}
+
+export type CoOccurrenceMatrix = {
+  departments: string[] // Most visited first
+  counts: number[][] // counts[i][j]: visits covering both; the diagonal is visits covering one
+}
+
+export const MAX_DEPARTMENT_BUCKET = 6
+
+// Stack key of lines that do not pay a visit
+export const CORRECTIONS_SERIES = 'Clawbacks & adjustments'
+
+const inRange = (dateIso: string | null, range: DateRange | null) => range === null || isWithinRange(dateIso, range)
+
+const bucketOf = (departments: number) =>
+  departments >= MAX_DEPARTMENT_BUCKET ? `${MAX_DEPARTMENT_BUCKET}+` : String(departments)
+
+/**
+ * Distinct visits in range; a visit handled by several salespersons is listed once
+ */
+const distinctVisits = (metrics: SalespersonMetric[], range: DateRange | null): HandledVisit[] => {
+  const visits = new Map<string, HandledVisit>()
+  metrics.forEach((metric) => {
+    metric.visits.forEach((visit) => {
+      if (!inRange(visit.dateIso, range)) return
+      visits.set(`${visit.customerId}__${visit.dateIso}`, visit)
+    })
+  })
+  return Array.from(visits.values())
+}
+
+export const buildDailyTrend = (metrics: SalespersonMetric[], range: DateRange | null): DailyIncentivePoint[] => {
+  const totals = new Map<string, number>()
+  metrics.forEach((metric) => {
+    metric.breakdown.forEach((entry) => {
+      if (!entry.dateIso || !inRange(entry.dateIso, range)) return
+      totals.set(entry.dateIso, (totals.get(entry.dateIso) ?? 0) + entry.amount)
+    })
+  })
+  return Array.from(totals.entries())
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([dateIso, amount]) => ({ dateIso, label: formatDisplayDate(dateIso), amount }))
+}
+
+export const buildDepartmentCountDistribution = (
+  metrics: SalespersonMetric[],
+  range: DateRange | null
+): DepartmentCountBucket[] => {
+  const buckets = Array.from({ length: MAX_DEPARTMENT_BUCKET }, (_, index) => ({ bucket: bucketOf(index + 1), visits: 0 }))
+  distinctVisits(metrics, range).forEach((visit) => {
+    const count = Math.min(visit.visitedDepartments.length, MAX_DEPARTMENT_BUCKET)
+    buckets[count - 1].visits += 1
+  })
+  return buckets
+}
+
+/**
+ * Each salesperson's incentive split by the department count of the visits that earned it
+ */
+export const buildSlabBreakdown = (metrics: SalespersonMetric[], range: DateRange | null): SlabBreakdown => {
+  const series = new Set<string>()
+  const rows = metrics
+    .map((metric) => {
+      const row: { name: string } & Record<string, number | string> = { name: metric.name }
+      metric.breakdown.forEach((entry) => {
+        if (!inRange(entry.dateIso, range)) return
+        const key = entry.kind === 'VISIT' && entry.departmentsVisited !== null
+          ? `${bucketOf(entry.departmentsVisited)} depts`
+          : CORRECTIONS_SERIES
+        series.add(key)
+        row[key] = ((row[key] as number | undefined) ?? 0) + entry.amount
+      })
+      return row
+    })
+    .filter((row) => Object.keys(row).length > 1)
+
+  return {
+    series: Array.from(series).sort((a, b) =>
+      a === CORRECTIONS_SERIES ? 1 : b === CORRECTIONS_SERIES ? -1 : parseInt(a, 10) - parseInt(b, 10)
+    ),
+    rows,
+  }
+}
+
+export const buildCoOccurrence = (metrics: SalespersonMetric[], range: DateRange | null): CoOccurrenceMatrix => {
+  const visits = distinctVisits(metrics, range)
+  const frequency = new Map<string, number>()
+  visits.forEach((visit) => {
+    visit.visitedDepartments.forEach((department) => frequency.set(department, (frequency.get(department) ?? 0) + 1))
+  })
+
+  const departments = Array.from(frequency.entries())
+    .sort(([aName, a], [bName, b]) => b - a || aName.localeCompare(bName))
+    .map(([department]) => department)
+  const indexOf = new Map(departments.map((department, index) => [department, index]))
+  const counts = departments.map(() => departments.map(() => 0))
+
+  visits.forEach((visit) => {
+    const indexes = visit.visitedDepartments.map((department) => indexOf.get(department)!)
+    indexes.forEach((i) => {
+      indexes.forEach((j) => {
+        counts[i][j] += 1
+      })
+    })
+  })
+
+  return { departments, counts }
+}
@@ -0,0 +1,84 @@
+import * as XLSX from 'xlsx'
+import { BREAKDOWN_KIND_LABELS, type BreakdownEntry } from './incentiveParser'
+import { SPLIT_POLICY_LABELS } from './incentiveSchemes'
+
+/**
+ * Incentive Payout Export
+ * Workbook handed to accounts for payroll: one summary row per salesperson and
+ * one detail row per breakdown entry, both for the selected timeframe.
+ */
+
+export type SalespersonPayout = {
+  name: string
+  breakdown: BreakdownEntry[] // Entries inside the selected timeframe
+  total: number
+  customersCount: number
+}
+
+const SUMMARY_HEADER = ['Salesperson', 'Customers', 'Visits', 'Clawbacks (₹)', 'Adjustments (₹)', 'Total Incentive (₹)']
+
+const DETAIL_HEADER = [
+  'Salesperson',
+  'Date',
+  'Customer',
+  'Mobile',
+  'Departments Visited',
+  'Visited Departments',
+  'Handled Departments',
+  'Scheme',
+  'Split Policy',
+  'Visit Amount (₹)',
+  'Amount (₹)',
+  'Note',
+]
+
+export const buildPayoutWorkbook = (payouts: SalespersonPayout[], periodLabel: string): XLSX.WorkBook => {
+  const sumOf = (payout: SalespersonPayout, kind: BreakdownEntry['kind']) =>
+    payout.breakdown.reduce((sum, entry) => sum + (entry.kind === kind ? entry.amount : 0), 0)
+  const visitsOf = (payout: SalespersonPayout) => payout.breakdown.filter((entry) => entry.kind === 'VISIT').length
+
+  const summary = [
+    [`Incentive payouts: ${periodLabel}`],
+    [],
+    SUMMARY_HEADER,
+    ...payouts.map((payout) => [
+      payout.name,
+      payout.customersCount,
+      visitsOf(payout),
+      sumOf(payout, 'CLAWBACK'),
+      sumOf(payout, 'ADJUSTMENT'),
+      payout.total,
+    ]),
+    [
+      'Total',
+      new Set(payouts.flatMap((payout) => payout.breakdown.map((entry) => entry.customerId))).size,
+      payouts.reduce((sum, payout) => sum + visitsOf(payout), 0),
+      payouts.reduce((sum, payout) => sum + sumOf(payout, 'CLAWBACK'), 0),
+      payouts.reduce((sum, payout) => sum + sumOf(payout, 'ADJUSTMENT'), 0),
+      payouts.reduce((sum, payout) => sum + payout.total, 0),
+    ],
+  ]
+
+  const details = payouts.flatMap((payout) =>
+    payout.breakdown.map((entry) => [
+      payout.name,
+      entry.displayDate ?? entry.dateIso ?? 'Unknown date',
+      entry.customerName ?? '',
+      entry.customerId,
+      entry.departmentsVisited ?? '',
+      entry.visitedDepartments.join(', '),
+      entry.handledDepartments.join(', '),
+      entry.schemeName,
+      SPLIT_POLICY_LABELS[entry.splitPolicy],
+      entry.visitAmount,
+      entry.amount,
+      entry.reason ? `${BREAKDOWN_KIND_LABELS[entry.kind]}: ${entry.reason}` : '',
+    ])
+  )
+  const detailTotal = ['Total', '', '', '', '', '', '', '', '', '', payouts.reduce((sum, payout) => sum + payout.total, 0), '']
+
+  const workbook = XLSX.utils.book_new()
+  XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet(summary), 'Summary')
+  XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet([DETAIL_HEADER, ...details, detailTotal]), 'Details')
+  return workbook
+}
@@ -0,0 +1,310 @@
+import {
+  calculateIncentiveForDepartments,
+  findSchemeForDate,
+  splitVisitAmount,
+  type IncentiveScheme,
+  type SplitPolicy,
+} from './incentiveSchemes'
+import { describeReturn, matchReturns } from './returns'
+import { formatDisplayDate, normalizeKey, type SaleRow } from './workbookParser'
+
+/**
+ * VISIT lines pay a visit, CLAWBACK lines reverse part of one after a return, and
+ * ADJUSTMENT lines carry changes to a locked pay period into the next period
+ */
+export type BreakdownKind = 'VISIT' | 'CLAWBACK' | 'ADJUSTMENT'
+
+export const BREAKDOWN_KIND_LABELS: Record<BreakdownKind, string> = {
+  VISIT: 'Visit',
+  CLAWBACK: 'Clawback',
+  ADJUSTMENT: 'Adjustment',
+}
+
+export type BreakdownEntry = {
+  customerId: string
+  customerName: string | null
+  amount: number
+  departmentsVisited: number | null
+  visitedDepartments: string[]
+  handledDepartments: string[]
+  dateKey: string
+  dateIso: string | null
+  displayDate: string | null
+  schemeId: string
+  schemeName: string
+  visitAmount: number // Slab amount for the whole visit, before splitting
+  splitPolicy: SplitPolicy
+  kind: BreakdownKind
+  reason: string | null // Why a clawback or adjustment line was raised
+}
+
+/**
+ * A visit the salesperson handled, paid or not, with the departments left after returns
+ */
+export type HandledVisit = {
+  customerId: string
+  dateIso: string | null
+  visitedDepartments: string[]
+}
+
+export type SalespersonMetric = {
+  name: string
+  departments: string[]
+  totalIncentive: number
+  breakdown: BreakdownEntry[]
+  visits: HandledVisit[]
+}
+
+type InternalBreakdown = {
+  name: string
+  breakdown: BreakdownEntry[]
+}
+
+type VisitHandlers = Map<string, { name: string; departments: Set<string> }>
+
+type PricedVisit = {
+  departments: Set<string>
+  handlers: VisitHandlers
+  amount: number
+  shares: Map<string, number>
+}
+
+export type IncentiveMetrics = {
+  metrics: SalespersonMetric[]
+  availableDates: string[]
+  dateLabels: Record<string, string>
+}
+
+/**
+ * Newest first; entries without a date go last
+ */
+export const compareBreakdownEntries = (a: BreakdownEntry, b: BreakdownEntry): number => {
+  if (a.dateIso && b.dateIso) {
+    if (a.dateIso !== b.dateIso) {
+      return b.dateIso.localeCompare(a.dateIso)
+    }
+  } else if (a.dateIso) {
+    return -1
+  } else if (b.dateIso) {
+    return 1
+  }
+  return b.amount - a.amount
+}
+
+/**
+ * Departments, handling salespersons and split slab amount of one visit's sale rows
+ */
+const priceVisit = (rows: SaleRow[], scheme: IncentiveScheme): PricedVisit => {
+  const departments = new Set<string>()
+  const handlers: VisitHandlers = new Map()
+
+  rows.forEach((row) => {
+    departments.add(row.departmentLabel)
+    const salesmanKey = normalizeKey(row.salesman)
+    if (!salesmanKey) return
+    if (!handlers.has(salesmanKey)) {
+      handlers.set(salesmanKey, { name: row.salesman || 'Unknown Salesman', departments: new Set<string>() })
+    }
+    handlers.get(salesmanKey)!.departments.add(row.departmentLabel)
+  })
+
+  // Visits nobody handled earn nothing
+  const amount = handlers.size > 0 ? calculateIncentiveForDepartments(departments.size, scheme.slabs) : 0
+  const shares = splitVisitAmount(
+    amount,
+    Array.from(handlers.entries()).map(([key, { departments: handled }]) => ({
+      key,
+      departmentsHandled: handled.size,
+    })),
+    scheme.splitPolicy
+  )
+  return { departments, handlers, amount, shares }
+}
+
+/**
+ * Build per-salesperson incentive metrics from sale rows.
+ * A visit is a customer on a given date; it earns the slab for its department
+ * count from the scheme in force on the visit date, shared between the
+ * salespersons who handled it according to that scheme's split policy.
+ * Returns and replacements are matched back to the sale they reverse; when that
+ * lowers the visit's slab, the difference is charged back as a negative line on
+ * the return date.
+ */
+export const buildIncentiveMetrics = (rows: SaleRow[], schemes: IncentiveScheme[] = []): IncentiveMetrics => {
+  const salesmanDepartments = new Map<string, { name: string; departments: Set<string> }>()
+  const visitRows = new Map<string, SaleRow[]>()
+  const breakdownMap = new Map<string, InternalBreakdown>()
+  const handledVisits = new Map<string, HandledVisit[]>()
+  const availableDates = new Set<string>()
+  const dateLabels = new Map<string, string>()
+  const { returnedBy } = matchReturns(rows)
+
+  const displayDateOf = (dateIso: string | null) =>
+    dateIso ? dateLabels.get(dateIso) ?? formatDisplayDate(dateIso) : null
+
+  const addEntry = (salesmanKey: string, name: string, entry: BreakdownEntry) => {
+    if (!breakdownMap.has(salesmanKey)) {
+      breakdownMap.set(salesmanKey, { name, breakdown: [] })
+    }
+    breakdownMap.get(salesmanKey)!.breakdown.push(entry)
+  }
+
+  rows.forEach((row) => {
+    const { dateInfo, departmentLabel } = row
+    if (dateInfo.iso) {
+      availableDates.add(dateInfo.iso)
+      if (!dateLabels.has(dateInfo.iso)) {
+        dateLabels.set(dateInfo.iso, dateInfo.display ?? formatDisplayDate(dateInfo.iso))
+      }
+    }
+    if (row.salesType !== 'SALE') {
+      return
+    }
+
+    const salesmanKey = normalizeKey(row.salesman)
+    const customerKey = normalizeKey(row.customerId)
+
+    // Build salesman-department map (for general incentive calculation)
+    if (salesmanKey && departmentLabel) {
+      if (!salesmanDepartments.has(salesmanKey)) {
+        salesmanDepartments.set(salesmanKey, {
+          name: row.salesman || 'Unknown Salesman',
+          departments: new Set(),
+        })
+      }
+      salesmanDepartments.get(salesmanKey)!.departments.add(departmentLabel)
+    }
+
+    // Group sale rows into customer visits (used in incentive calculation)
+    if (customerKey && departmentLabel) {
+      const visitKey = `${customerKey}__${dateInfo.key}`
+      if (!visitRows.has(visitKey)) {
+        visitRows.set(visitKey, [])
+      }
+      visitRows.get(visitKey)!.push(row)
+    }
+  })
+
+  visitRows.forEach((saleRows) => {
+    const { customerId, customerName, dateInfo } = saleRows[0]
+    const scheme = findSchemeForDate(schemes, dateInfo.iso)
+    const visitEntry = (visit: PricedVisit, handled: Set<string>) => ({
+      customerId,
+      customerName,
+      departmentsVisited: visit.departments.size,
+      visitedDepartments: Array.from(visit.departments),
+      handledDepartments: Array.from(handled),
+      schemeId: scheme.id,
+      schemeName: scheme.name,
+      visitAmount: visit.amount,
+      splitPolicy: scheme.splitPolicy,
+    })
+
+    let priced = priceVisit(saleRows, scheme)
+    priced.handlers.forEach(({ name, departments }, salesmanKey) => {
+      const share = priced.shares.get(salesmanKey) ?? 0
+      if (share === 0) {
+        return
+      }
+      addEntry(salesmanKey, name, {
+        ...visitEntry(priced, departments),
+        amount: share,
+        dateKey: dateInfo.key,
+        dateIso: dateInfo.iso,
+        displayDate: displayDateOf(dateInfo.iso),
+        kind: 'VISIT',
+        reason: null,
+      })
+    })
+
+    // Re-price the visit after each day with returns and charge back the difference
+    const returnDays = new Map<string, SaleRow[]>()
+    saleRows.forEach((row) => {
+      const returnRow = returnedBy.get(row)
+      if (!returnRow) return
+      if (!returnDays.has(returnRow.dateInfo.key)) {
+        returnDays.set(returnRow.dateInfo.key, [])
+      }
+      returnDays.get(returnRow.dateInfo.key)!.push(row)
+    })
+
+    let remaining = saleRows
+    Array.from(returnDays.entries())
+      .sort(([a], [b]) => a.localeCompare(b))
+      .forEach(([, returnedRows]) => {
+        const returnRows = returnedRows.map((row) => returnedBy.get(row)!)
+        const { dateInfo: returnDate } = returnRows[0]
+        remaining = remaining.filter((row) => !returnedRows.includes(row))
+        const next = priceVisit(remaining, scheme)
+
+        const reason =
+          Array.from(new Set(returnRows.map((row) => `${describeReturn(row.salesType)} ${row.itemGroup}`))).join(', ') +
+          ` from voucher ${Array.from(new Set(returnRows.map((row) => row.voucherNo))).join(', ')}` +
+          ` (visit on ${displayDateOf(dateInfo.iso) ?? 'unknown date'})`
+
+        priced.handlers.forEach(({ name }, salesmanKey) => {
+          const delta = (next.shares.get(salesmanKey) ?? 0) - (priced.shares.get(salesmanKey) ?? 0)
+          if (delta === 0) {
+            return
+          }
+          addEntry(salesmanKey, name, {
+            ...visitEntry(next, next.handlers.get(salesmanKey)?.departments ?? new Set<string>()),
+            amount: delta,
+            dateKey: returnDate.key,
+            dateIso: returnDate.iso,
+            displayDate: displayDateOf(returnDate.iso),
+            kind: 'CLAWBACK',
+            reason,
+          })
+        })
+        priced = { ...next, handlers: priced.handlers }
+      })
+
+    if (priced.departments.size === 0) {
+      return
+    }
+    priced.handlers.forEach((_, salesmanKey) => {
+      if (!handledVisits.has(salesmanKey)) {
+        handledVisits.set(salesmanKey, [])
+      }
+      handledVisits.get(salesmanKey)!.push({
+        customerId,
+        dateIso: dateInfo.iso,
+        visitedDepartments: Array.from(priced.departments),
+      })
+    })
+  })
+
+  const metrics: SalespersonMetric[] = []
+
+  breakdownMap.forEach(({ name, breakdown }, key) => {
+    const departments = salesmanDepartments.get(key)?.departments ?? new Set<string>()
+    const sortedBreakdown = breakdown.sort(compareBreakdownEntries)
+    const total = sortedBreakdown.reduce((sum, entry) => sum + entry.amount, 0)
+    metrics.push({
+      name,
+      departments: Array.from(departments),
+      totalIncentive: total,
+      breakdown: sortedBreakdown,
+      visits: handledVisits.get(key) ?? [],
+    })
+  })
+
+  salesmanDepartments.forEach(({ name, departments }, key) => {
+    if (!breakdownMap.has(key)) {
+      metrics.push({
+        name,
+        departments: Array.from(departments),
+        totalIncentive: 0,
+        breakdown: [],
+        visits: handledVisits.get(key) ?? [],
+      })
+    }
+  })
+
+  return {
+    metrics: metrics.sort((a, b) => b.totalIncentive - a.totalIncentive || a.name.localeCompare(b.name)),
+    availableDates: Array.from(availableDates).sort(),
+    dateLabels: Object.fromEntries(dateLabels.entries()),
+  }
+}
@@ -0,0 +1,149 @@
+import type { IncentivePeriodStatus } from '@prisma/client'
+import type { SalespersonPayout } from './incentiveExport'
+import { compareBreakdownEntries, type BreakdownEntry, type IncentiveMetrics, type SalespersonMetric } from './incentiveParser'
+import { isWithinRange, type DateRange } from './periods'
+import { addDaysToIso, formatDisplayDate, normalizeKey } from './workbookParser'
+
+/**
+ * Locked Incentive Periods
+ * A locked period pays exactly its snapshot. Whatever later uploads change inside
+ * it is paid (or recovered) per customer as an adjustment on the day after the
+ * period ends, so it lands in the next period instead of rewriting history.
+ */
+
+export type { IncentivePeriodStatus }
+
+export const INCENTIVE_PERIOD_STATUSES: IncentivePeriodStatus[] = ['LOCKED', 'APPROVED', 'PAID']
+
+export const INCENTIVE_PERIOD_STATUS_LABELS: Record<IncentivePeriodStatus, string> = {
+  LOCKED: 'Locked',
+  APPROVED: 'Approved',
+  PAID: 'Paid',
+}
+
+export type LockedPeriod = DateRange & {
+  id: string
+  label: string
+  status: IncentivePeriodStatus
+  payouts: SalespersonPayout[]
+}
+
+// Amounts below half a paisa are rounding noise from split visits
+const isZero = (amount: number) => Math.abs(amount) < 0.005
+
+const adjustmentEntry = (
+  period: LockedPeriod,
+  customerId: string,
+  customerName: string | null,
+  amount: number
+): BreakdownEntry => {
+  const dateIso = addDaysToIso(period.to, 1)
+  return {
+    customerId,
+    customerName,
+    amount: Math.round(amount * 100) / 100,
+    departmentsVisited: null,
+    visitedDepartments: [],
+    handledDepartments: [],
+    dateKey: dateIso,
+    dateIso,
+    displayDate: formatDisplayDate(dateIso),
+    schemeId: '',
+    schemeName: '',
+    visitAmount: 0,
+    splitPolicy: 'FULL',
+    kind: 'ADJUSTMENT',
+    reason: `Change to ${period.label} after it was locked`,
+  }
+}
+
+/**
+ * Payouts of the given metrics inside one period, as stored in its snapshot
+ */
+export const snapshotPayouts = (metrics: SalespersonMetric[], range: DateRange): SalespersonPayout[] =>
+  metrics
+    .map((metric) => {
+      const breakdown = metric.breakdown.filter((entry) => isWithinRange(entry.dateIso, range))
+      return {
+        name: metric.name,
+        breakdown,
+        total: breakdown.reduce((sum, entry) => sum + entry.amount, 0),
+        customersCount: new Set(breakdown.map((entry) => entry.customerId)).size,
+      }
+    })
+    .filter((payout) => payout.breakdown.length > 0)
+
+/**
+ * Replace live entries inside each locked period with its snapshot and move any
+ * difference into adjustment lines. Periods are applied oldest first, so an
+ * adjustment falling inside a later locked period is settled by that period too.
+ */
+export const applyLockedPeriods = (incentives: IncentiveMetrics, periods: LockedPeriod[]): IncentiveMetrics => {
+  if (periods.length === 0) {
+    return incentives
+  }
+
+  const metrics = new Map<string, SalespersonMetric>(
+    incentives.metrics.map((metric) => [normalizeKey(metric.name), { ...metric, breakdown: [...metric.breakdown] }])
+  )
+  const adjustmentDates = new Set<string>()
+
+  const ordered = [...periods].sort((a, b) => a.from.localeCompare(b.from))
+  ordered.forEach((period) => {
+    const snapshots = new Map(period.payouts.map((payout) => [normalizeKey(payout.name), payout]))
+    snapshots.forEach((payout, key) => {
+      if (!metrics.has(key)) {
+        metrics.set(key, { name: payout.name, departments: [], totalIncentive: 0, breakdown: [], visits: [] })
+      }
+    })
+
+    metrics.forEach((metric, key) => {
+      const live = metric.breakdown.filter((entry) => isWithinRange(entry.dateIso, period))
+      const frozen = snapshots.get(key)?.breakdown ?? []
+      if (live.length === 0 && frozen.length === 0) {
+        return
+      }
+
+      // Net live minus frozen per customer
+      const differences = new Map<string, { customerName: string | null; amount: number }>()
+      const addDifference = (entry: BreakdownEntry, sign: number) => {
+        const current = differences.get(entry.customerId) ?? { customerName: entry.customerName, amount: 0 }
+        current.amount += sign * entry.amount
+        current.customerName = current.customerName ?? entry.customerName
+        differences.set(entry.customerId, current)
+      }
+      live.forEach((entry) => addDifference(entry, 1))
+      frozen.forEach((entry) => addDifference(entry, -1))
+
+      const adjustments = Array.from(differences.entries())
+        .filter(([, { amount }]) => !isZero(amount))
+        .map(([customerId, { customerName, amount }]) => adjustmentEntry(period, customerId, customerName, amount))
+      if (adjustments.length > 0) {
+        adjustmentDates.add(adjustments[0].dateIso!)
+      }
+
+      metric.breakdown = [
+        ...metric.breakdown.filter((entry) => !isWithinRange(entry.dateIso, period)),
+        ...frozen,
+        ...adjustments,
+      ]
+    })
+  })
+
+  const dateLabels = { ...incentives.dateLabels }
+  adjustmentDates.forEach((dateIso) => {
+    dateLabels[dateIso] = dateLabels[dateIso] ?? formatDisplayDate(dateIso)
+  })
+
+  return {
+    metrics: Array.from(metrics.values())
+      .map((metric) => ({
+        ...metric,
+        breakdown: metric.breakdown.sort(compareBreakdownEntries),
+        totalIncentive: metric.breakdown.reduce((sum, entry) => sum + entry.amount, 0),
+      }))
+      .sort((a, b) => b.totalIncentive - a.totalIncentive || a.name.localeCompare(b.name)),
+    availableDates: Array.from(new Set(incentives.availableDates.concat(Array.from(adjustmentDates)))).sort(),
+    dateLabels,
+  }
+}
@@ -0,0 +1,133 @@
+import type { SplitPolicy } from '@prisma/client'
+
+export type { SplitPolicy }
+
+/**
+ * Incentive slabs and the schemes (versions) they belong to.
+ * Kept free of database code so the dashboard and admin screens can import it.
+ */
+
+export type IncentiveSlab = {
+  minDepartments: number
+  amount: number
+}
+
+export type IncentiveScheme = {
+  id: string
+  name: string
+  effectiveFrom: string // ISO date (YYYY-MM-DD)
+  slabs: IncentiveSlab[]
+  splitPolicy: SplitPolicy
+}
+
+export const SPLIT_POLICIES: SplitPolicy[] = ['FULL', 'EQUAL', 'PROPORTIONAL', 'PRIMARY']
+
+export const SPLIT_POLICY_LABELS: Record<SplitPolicy, string> = {
+  FULL: 'Full amount to each',
+  EQUAL: 'Equal split',
+  PROPORTIONAL: 'Proportional to departments handled',
+  PRIMARY: 'Primary salesperson takes all',
+}
+
+export const DEFAULT_INCENTIVE_SLABS: IncentiveSlab[] = [
+  { minDepartments: 2, amount: 20 },
+  { minDepartments: 3, amount: 40 },
+  { minDepartments: 4, amount: 60 },
+  { minDepartments: 5, amount: 80 },
+]
+
+/**
+ * Pays visits dated before the first stored scheme, and everything when none is stored
+ */
+export const DEFAULT_INCENTIVE_SCHEME: IncentiveScheme = {
+  id: 'default',
+  name: 'Default',
+  effectiveFrom: '1970-01-01',
+  slabs: DEFAULT_INCENTIVE_SLABS,
+  splitPolicy: 'FULL',
+}
+
+const findSlab = (departmentCount: number, slabs: IncentiveSlab[]): IncentiveSlab | null => {
+  return slabs.reduce<IncentiveSlab | null>((best, slab) => {
+    if (departmentCount < slab.minDepartments) return best
+    return !best || slab.minDepartments > best.minDepartments ? slab : best
+  }, null)
+}
+
+export const calculateIncentiveForDepartments = (
+  departmentCount: number,
+  slabs: IncentiveSlab[] = DEFAULT_INCENTIVE_SLABS
+): number => {
+  return findSlab(departmentCount, slabs)?.amount ?? 0
+}
+
+/**
+ * The scheme in force on a date: latest effectiveFrom on or before it.
+ * Visits without a date are paid by the scheme in force today.
+ */
+export const findSchemeForDate = (schemes: IncentiveScheme[], dateIso: string | null): IncentiveScheme => {
+  const date = dateIso ?? new Date().toISOString().slice(0, 10)
+  return schemes.reduce<IncentiveScheme>((current, scheme) => {
+    if (scheme.effectiveFrom > date) return current
+    return scheme.effectiveFrom >= current.effectiveFrom ? scheme : current
+  }, DEFAULT_INCENTIVE_SCHEME)
+}
+
+export const formatSlab = (slab: IncentiveSlab, slabs: IncentiveSlab[]): string => {
+  const nextMin = Math.min(
+    ...slabs.map((other) => other.minDepartments).filter((min) => min > slab.minDepartments)
+  )
+  const range = !Number.isFinite(nextMin)
+    ? `${slab.minDepartments}+`
+    : nextMin - 1 === slab.minDepartments
+      ? `${slab.minDepartments}`
+      : `${slab.minDepartments}–${nextMin - 1}`
+  return `${range} departments: ₹${slab.amount.toLocaleString()}`
+}
+
+export type VisitHandler = {
+  key: string
+  departmentsHandled: number
+}
+
+const roundToPaise = (amount: number) => Math.round(amount * 100) / 100
+
+/**
+ * Share of a visit's slab amount for each salesperson who handled it.
+ * The primary salesperson (most departments handled, then alphabetical) absorbs
+ * rounding so split shares always add up to the visit amount.
+ */
+export const splitVisitAmount = (
+  amount: number,
+  handlers: VisitHandler[],
+  policy: SplitPolicy
+): Map<string, number> => {
+  const shares = new Map<string, number>()
+  if (handlers.length === 0) return shares
+
+  if (policy === 'FULL') {
+    handlers.forEach(({ key }) => shares.set(key, amount))
+    return shares
+  }
+
+  const [primary] = [...handlers].sort(
+    (a, b) => b.departmentsHandled - a.departmentsHandled || a.key.localeCompare(b.key)
+  )
+
+  if (policy === 'PRIMARY') {
+    handlers.forEach(({ key }) => shares.set(key, key === primary.key ? amount : 0))
+    return shares
+  }
+
+  const totalDepartments = handlers.reduce((sum, handler) => sum + handler.departmentsHandled, 0)
+  handlers.forEach(({ key, departmentsHandled }) => {
+    const weight = policy === 'EQUAL' || totalDepartments === 0
+      ? 1 / handlers.length
+      : departmentsHandled / totalDepartments
+    shares.set(key, roundToPaise(amount * weight))
+  })
+
+  const allocated = Array.from(shares.values()).reduce((sum, share) => sum + share, 0)
+  shares.set(primary.key, roundToPaise(shares.get(primary.key)! + amount - allocated))
+  return shares
+}
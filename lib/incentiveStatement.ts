@@ -0,0 +1,116 @@
+import { jsPDF } from 'jspdf'
+import JSZip from 'jszip'
+import type { SalespersonPayout } from './incentiveExport'
+import { BREAKDOWN_KIND_LABELS } from './incentiveParser'
+
+/**
+ * Incentive Statement
+ * Printable slip per salesperson showing how the incentive for a period was
+ * computed, with space for signatures.
+ */
+
+const PAGE_MARGIN = 40
+const LINE_HEIGHT = 14
+
+// The built-in PDF fonts have no rupee sign
+const formatAmount = (amount: number) => `${amount < 0 ? '-' : ''}Rs. ${Math.abs(amount).toLocaleString('en-IN')}`
+
+const COLUMNS = [
+  { title: 'Date', width: 70 },
+  { title: 'Customer', width: 110 },
+  { title: 'Departments', width: 175 },
+  { title: 'Slab applied', width: 100 },
+  { title: 'Amount', width: 60 },
+]
+
+export const statementFileName = (name: string, periodSuffix: string) =>
+  `incentive-statement-${name.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-')}-${periodSuffix}.pdf`
+
+export const buildStatementPdf = (payout: SalespersonPayout, periodLabel: string): ArrayBuffer => {
+  const doc = new jsPDF({ unit: 'pt', format: 'a4' })
+  const pageHeight = doc.internal.pageSize.getHeight()
+  let y = PAGE_MARGIN
+
+  const ensureSpace = (height: number) => {
+    if (y + height > pageHeight - PAGE_MARGIN) {
+      doc.addPage()
+      y = PAGE_MARGIN
+    }
+  }
+
+  const drawRow = (cells: string[], bold = false) => {
+    doc.setFont('helvetica', bold ? 'bold' : 'normal')
+    const wrapped = cells.map((cell, index) => doc.splitTextToSize(cell, COLUMNS[index].width - 6) as string[])
+    const height = Math.max(...wrapped.map((lines) => lines.length)) * LINE_HEIGHT
+    ensureSpace(height)
+    let x = PAGE_MARGIN
+    wrapped.forEach((lines, index) => {
+      const isAmount = index === COLUMNS.length - 1
+      doc.text(lines, isAmount ? x + COLUMNS[index].width : x, y, isAmount ? { align: 'right' } : undefined)
+      x += COLUMNS[index].width
+    })
+    y += height
+  }
+
+  doc.setFont('helvetica', 'bold')
+  doc.setFontSize(16)
+  doc.text('Incentive Statement', PAGE_MARGIN, y)
+  y += LINE_HEIGHT * 2
+
+  doc.setFontSize(10)
+  doc.setFont('helvetica', 'normal')
+  doc.text(`Salesperson: ${payout.name}`, PAGE_MARGIN, y)
+  y += LINE_HEIGHT
+  doc.text(`Period: ${periodLabel}`, PAGE_MARGIN, y)
+  y += LINE_HEIGHT
+  doc.text(`Generated: ${new Date().toLocaleDateString('en-IN')}`, PAGE_MARGIN, y)
+  y += LINE_HEIGHT * 2
+
+  drawRow(COLUMNS.map((column) => column.title), true)
+  const entries = [...payout.breakdown].sort((a, b) => (a.dateIso ?? '').localeCompare(b.dateIso ?? ''))
+  entries.forEach((entry) => {
+    const departments = entry.reason
+      ? `${BREAKDOWN_KIND_LABELS[entry.kind]}: ${entry.reason}`
+      : entry.visitedDepartments.join(', ')
+    const slab = entry.kind === 'ADJUSTMENT'
+      ? ''
+      : `${entry.departmentsVisited ?? '?'} depts = ${formatAmount(entry.visitAmount)} (${entry.schemeName})`
+    drawRow([
+      entry.displayDate ?? entry.dateIso ?? 'Unknown date',
+      entry.customerName ? `${entry.customerName} (${entry.customerId})` : entry.customerId,
+      departments,
+      slab,
+      formatAmount(entry.amount),
+    ])
+  })
+
+  y += LINE_HEIGHT / 2
+  drawRow(['Total', `${payout.customersCount} customers`, `${entries.length} lines`, '', formatAmount(payout.total)], true)
+
+  // Signature lines
+  ensureSpace(LINE_HEIGHT * 5)
+  y += LINE_HEIGHT * 4
+  doc.setFont('helvetica', 'normal')
+  doc.line(PAGE_MARGIN, y, PAGE_MARGIN + 180, y)
+  doc.line(PAGE_MARGIN + 300, y, PAGE_MARGIN + 480, y)
+  y += LINE_HEIGHT
+  doc.text('Salesperson signature', PAGE_MARGIN, y)
+  doc.text('Authorised signatory', PAGE_MARGIN + 300, y)
+
+  return doc.output('arraybuffer')
+}
+
+/**
+ * Statements of several salespersons bundled as one zip file
+ */
+export const buildStatementZip = async (
+  payouts: SalespersonPayout[],
+  periodLabel: string,
+  periodSuffix: string
+): Promise<Blob> => {
+  const zip = new JSZip()
+  payouts.forEach((payout) => {
+    zip.file(statementFileName(payout.name, periodSuffix), buildStatementPdf(payout, periodLabel))
+  })
+  return zip.generateAsync({ type: 'blob' })
+}
@@ -0,0 +1,92 @@
+import { isObjectId } from './apiRequest'
+import { prisma } from './prisma'
+import { loadDepartmentList, updateDepartment } from './departmentStore'
+import { normalizeSpelling } from './departments'
+import { toIsoDate } from './workbookParser'
+
+/**
+ * Thrown for invalid triage input; API routes turn it into a 400 response
+ */
+export class ItemGroupInputError extends Error {}
+
+export type UnmappedItemGroup = {
+  itemGroup: string // Spelling as it appears in the workbook
+  rowCount: number
+  lastSeen: string | null // ISO date of the latest voucher carrying it
+  ignored: boolean
+}
+
+const parseItemGroup = (value: unknown): string => {
+  const itemGroup = typeof value === 'string' ? normalizeSpelling(value) : ''
+  if (!itemGroup) {
+    throw new ItemGroupInputError('Item group is required.')
+  }
+  return itemGroup
+}
+
+/**
+ * Item groups in stored transactions that match no active department, with the
+ * number of rows carrying each. Ignored ones are listed too so they can be restored.
+ */
+export const listUnmappedItemGroups = async (): Promise<UnmappedItemGroup[]> => {
+  const departments = await loadDepartmentList()
+  const groups = await prisma.visitTransaction.groupBy({
+    by: ['itemGroup', 'department'],
+    where: { department: { notIn: departments.names } },
+    _count: { _all: true },
+    _max: { voucherDate: true },
+  })
+
+  const itemGroups = new Map<string, UnmappedItemGroup>()
+  groups.forEach((group) => {
+    // Transactions stored before item groups were kept only have the department
+    const spelling = (group.itemGroup ?? group.department).trim()
+    const key = normalizeSpelling(spelling)
+    if (!key) return
+
+    const lastSeen = group._max.voucherDate ? toIsoDate(group._max.voucherDate) : null
+    const existing = itemGroups.get(key)
+    if (existing) {
+      existing.rowCount += group._count._all
+      if (lastSeen && (!existing.lastSeen || lastSeen > existing.lastSeen)) existing.lastSeen = lastSeen
+      return
+    }
+    itemGroups.set(key, {
+      itemGroup: spelling,
+      rowCount: group._count._all,
+      lastSeen,
+      ignored: departments.ignored.includes(key),
+    })
+  })
+
+  return Array.from(itemGroups.values()).sort((a, b) => b.rowCount - a.rowCount || a.itemGroup.localeCompare(b.itemGroup))
+}
+
+/**
+ * Map an item group to a department by adding it as an alias of that department
+ */
+export const mapItemGroup = async (itemGroup: unknown, departmentId: unknown): Promise<void> => {
+  const name = parseItemGroup(itemGroup)
+  const department = typeof departmentId === 'string' && isObjectId(departmentId)
+    ? await prisma.masterDepartment.findUnique({ where: { id: departmentId }, select: { id: true, aliases: true } })
+    : null
+  if (!department) {
+    throw new ItemGroupInputError('Department not found.')
+  }
+
+  await updateDepartment(department.id, { aliases: [...department.aliases, name] })
+  await prisma.ignoredItemGroup.deleteMany({ where: { name } })
+}
+
+export const ignoreItemGroup = async (itemGroup: unknown, ignoredById: string): Promise<void> => {
+  const name = parseItemGroup(itemGroup)
+  await prisma.ignoredItemGroup.upsert({
+    where: { name },
+    create: { name, ignoredById },
+    update: {},
+  })
+}
+
+export const restoreItemGroup = async (itemGroup: unknown): Promise<void> => {
+  await prisma.ignoredItemGroup.deleteMany({ where: { name: parseItemGroup(itemGroup) } })
+}
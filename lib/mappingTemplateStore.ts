@@ -0,0 +1,76 @@
+import { NotFoundError } from './apiRequest'
+import { prisma } from './prisma'
+import { COLUMN_FIELDS, REQUIRED_COLUMN_FIELDS, COLUMN_FIELD_LABELS, type ColumnMapping } from './workbookParser'
+
+/**
+ * Thrown for invalid mapping input; API routes turn it into a 400 response
+ */
+export class MappingInputError extends Error {}
+
+export type MappingTemplate = ColumnMapping & {
+  id: string
+  name: string
+}
+
+const toTemplate = (record: { id: string; name: string; headerRow: number; columns: unknown }): MappingTemplate => ({
+  id: record.id,
+  name: record.name,
+  headerRow: record.headerRow,
+  columns: (record.columns as ColumnMapping['columns']) ?? {},
+})
+
+/**
+ * Validate a mapping sent by the upload wizard
+ */
+export const parseColumnMapping = (value: unknown): ColumnMapping => {
+  const input = value as { headerRow?: unknown; columns?: Record<string, unknown> } | null
+  const headerRow = Number(input?.headerRow)
+  if (!Number.isInteger(headerRow) || headerRow < 1) {
+    throw new MappingInputError('Header row must be a row number of at least 1.')
+  }
+
+  const columns: ColumnMapping['columns'] = {}
+  COLUMN_FIELDS.forEach((field) => {
+    const label = input?.columns?.[field]
+    if (typeof label === 'string' && label.trim()) {
+      columns[field] = label.trim()
+    }
+  })
+
+  const missing = REQUIRED_COLUMN_FIELDS.filter((field) => !columns[field])
+  if (missing.length > 0) {
+    throw new MappingInputError(`Map a column for: ${missing.map((field) => COLUMN_FIELD_LABELS[field]).join(', ')}.`)
+  }
+
+  return { headerRow, columns }
+}
+
+export const listTemplates = async (): Promise<MappingTemplate[]> => {
+  const records = await prisma.columnMappingTemplate.findMany({ orderBy: { name: 'asc' } })
+  return records.map(toTemplate)
+}
+
+/**
+ * Save a mapping under a name, replacing any template with the same name
+ */
+export const saveTemplate = async (name: unknown, mapping: ColumnMapping, createdById: string): Promise<MappingTemplate> => {
+  const templateName = typeof name === 'string' ? name.trim() : ''
+  if (!templateName) {
+    throw new MappingInputError('Template name is required.')
+  }
+
+  const data = { headerRow: mapping.headerRow, columns: mapping.columns }
+  const record = await prisma.columnMappingTemplate.upsert({
+    where: { name: templateName },
+    create: { ...data, name: templateName, createdById },
+    update: data,
+  })
+  return toTemplate(record)
+}
+
+export const deleteTemplate = async (id: string): Promise<void> => {
+  const { count } = await prisma.columnMappingTemplate.deleteMany({ where: { id } })
+  if (count === 0) {
+    throw new NotFoundError('Mapping template not found.')
+  }
+}
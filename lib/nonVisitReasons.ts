@@ -0,0 +1,102 @@
+import type { NonVisitReason } from './types'
+
+/**
+ * Non-visit Reasons
+ * Why a customer skipped the departments they did not visit on their latest
+ * visit, asked on a connected call and reported per department and per
+ * salesperson who served that visit.
+ */
+
+export type { NonVisitReason }
+
+export type NonVisitReasonKey = NonVisitReason['reason']
+
+export const NON_VISIT_REASONS: NonVisitReasonKey[] = [
+  'didnt_know',
+  'not_interested',
+  'no_time',
+  'not_informed_by_salesperson',
+  'budget_constraint',
+  'other',
+]
+
+export const NON_VISIT_REASON_LABELS: Record<NonVisitReasonKey, string> = {
+  didnt_know: "Didn't know about it",
+  not_interested: 'Not interested',
+  no_time: 'No time',
+  not_informed_by_salesperson: 'Salesperson did not inform',
+  budget_constraint: 'Budget constraint',
+  other: 'Other',
+}
+
+export const MAX_REASON_DETAILS_LENGTH = 200
+
+export type ReasonCounts = Record<NonVisitReasonKey, number>
+
+export type NonVisitReasonGroup = {
+  name: string // Department or salesperson
+  total: number
+  counts: ReasonCounts
+  salespersonMentioned: number // Reasons where the customer said a salesperson mentioned the department
+}
+
+export type NonVisitReasonReport = {
+  totalCalls: number // Calls with at least one reason
+  totalReasons: number
+  counts: ReasonCounts
+  departments: NonVisitReasonGroup[]
+  salespersons: NonVisitReasonGroup[]
+}
+
+// One call's reasons with the salespersons who served the visit they are about
+export type NonVisitReasonEntry = {
+  reasons: NonVisitReason[]
+  salespersons: string[]
+}
+
+const emptyCounts = (): ReasonCounts =>
+  Object.fromEntries(NON_VISIT_REASONS.map((reason) => [reason, 0])) as ReasonCounts
+
+const addReason = (groups: Map<string, NonVisitReasonGroup>, name: string, reason: NonVisitReason) => {
+  if (!groups.has(name)) {
+    groups.set(name, { name, total: 0, counts: emptyCounts(), salespersonMentioned: 0 })
+  }
+  const group = groups.get(name)!
+  group.total += 1
+  group.counts[reason.reason] += 1
+  if (reason.salespersonMentioned) group.salespersonMentioned += 1
+}
+
+const sortGroups = (groups: Map<string, NonVisitReasonGroup>) =>
+  Array.from(groups.values()).sort((a, b) => b.total - a.total || a.name.localeCompare(b.name))
+
+/**
+ * Count reasons by department and by salesperson. A visit served by several
+ * salespersons counts each reason once for every one of them.
+ */
+export const summarizeNonVisitReasons = (entries: NonVisitReasonEntry[]): NonVisitReasonReport => {
+  const counts = emptyCounts()
+  const departments = new Map<string, NonVisitReasonGroup>()
+  const salespersons = new Map<string, NonVisitReasonGroup>()
+  let totalCalls = 0
+  let totalReasons = 0
+
+  entries.forEach((entry) => {
+    if (entry.reasons.length === 0) return
+    totalCalls += 1
+    entry.reasons.forEach((reason) => {
+      totalReasons += 1
+      counts[reason.reason] += 1
+      addReason(departments, reason.department, reason)
+      entry.salespersons.forEach((salesperson) => addReason(salespersons, salesperson, reason))
+    })
+  })
+
+  return {
+    totalCalls,
+    totalReasons,
+    counts,
+    departments: sortGroups(departments),
+    salespersons: sortGroups(salespersons),
+  }
+}
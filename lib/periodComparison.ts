@@ -0,0 +1,84 @@
+import type { SalespersonMetric } from './incentiveParser'
+import { isWithinRange, type DateRange } from './periods'
+
+/**
+ * Period Comparison
+ * Puts two periods side by side per salesperson to show who is improving at
+ * cross-selling. Visit figures include unpaid single-department visits; a visit
+ * handled by several salespersons counts for each of them.
+ */
+
+export type PeriodStats = {
+  incentive: number // Net of clawbacks and adjustments
+  customers: number
+  visits: number
+  averageDepartments: number | null // Per visit; null without visits
+  multiDepartmentRate: number | null // Share of visits covering two or more departments
+}
+
+export type ComparisonRow = {
+  name: string
+  current: PeriodStats
+  previous: PeriodStats
+  currentRank: number | null // By incentive; null when inactive in the period
+  previousRank: number | null
+  rankChange: number | null // Positive when the salesperson moved up
+}
+
+const summarize = (metric: SalespersonMetric, range: DateRange): PeriodStats => {
+  const visits = metric.visits.filter((visit) => isWithinRange(visit.dateIso, range))
+  const departments = visits.reduce((sum, visit) => sum + visit.visitedDepartments.length, 0)
+  return {
+    incentive: metric.breakdown
+      .filter((entry) => isWithinRange(entry.dateIso, range))
+      .reduce((sum, entry) => sum + entry.amount, 0),
+    customers: new Set(visits.map((visit) => visit.customerId)).size,
+    visits: visits.length,
+    averageDepartments: visits.length > 0 ? departments / visits.length : null,
+    multiDepartmentRate: visits.length > 0
+      ? visits.filter((visit) => visit.visitedDepartments.length >= 2).length / visits.length
+      : null,
+  }
+}
+
+const rankByIncentive = (stats: Map<string, PeriodStats>): Map<string, number> => {
+  const active = Array.from(stats.entries())
+    .filter(([, period]) => period.visits > 0 || period.incentive !== 0)
+    .sort(([aName, a], [bName, b]) => b.incentive - a.incentive || aName.localeCompare(bName))
+  return new Map(active.map(([name], index) => [name, index + 1]))
+}
+
+export const comparePeriods = (
+  metrics: SalespersonMetric[],
+  current: DateRange,
+  previous: DateRange
+): ComparisonRow[] => {
+  const currentStats = new Map<string, PeriodStats>()
+  const previousStats = new Map<string, PeriodStats>()
+  metrics.forEach((metric) => {
+    currentStats.set(metric.name, summarize(metric, current))
+    previousStats.set(metric.name, summarize(metric, previous))
+  })
+
+  const currentRanks = rankByIncentive(currentStats)
+  const previousRanks = rankByIncentive(previousStats)
+
+  return metrics
+    .filter((metric) => currentRanks.has(metric.name) || previousRanks.has(metric.name))
+    .map((metric) => {
+      const currentRank = currentRanks.get(metric.name) ?? null
+      const previousRank = previousRanks.get(metric.name) ?? null
+      return {
+        name: metric.name,
+        current: currentStats.get(metric.name)!,
+        previous: previousStats.get(metric.name)!,
+        currentRank,
+        previousRank,
+        rankChange: currentRank !== null && previousRank !== null ? previousRank - currentRank : null,
+      }
+    })
+    .sort((a, b) =>
+      (a.currentRank ?? Number.MAX_SAFE_INTEGER) - (b.currentRank ?? Number.MAX_SAFE_INTEGER) ||
+      (a.previousRank ?? Number.MAX_SAFE_INTEGER) - (b.previousRank ?? Number.MAX_SAFE_INTEGER)
+    )
+}
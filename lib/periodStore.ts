@@ -0,0 +1,262 @@
+import { Prisma, type IncentivePeriodStatus } from '@prisma/client'
+import { NotFoundError } from './apiRequest'
+import { prisma } from './prisma'
+import type { SessionUser } from './auth'
+import type { SalespersonPayout } from './incentiveExport'
+import { buildIncentiveMetrics, type IncentiveMetrics } from './incentiveParser'
+import { applyLockedPeriods, snapshotPayouts, type LockedPeriod } from './incentivePeriods'
+import {
+  DEFAULT_PAY_PERIOD_SPLIT_DAY,
+  MAX_PAY_PERIOD_SPLIT_DAY,
+  formatRangeLabel,
+  payPeriodRange,
+  type DateRange,
+} from './periods'
+import { listSchemes } from './schemeStore'
+import { loadSaleRows } from './visitStore'
+import { toIsoDate } from './workbookParser'
+
+/**
+ * Thrown for invalid period input; API routes turn it into a 400 response
+ */
+export class PeriodInputError extends Error {}
+
+/**
+ * Thrown when a change clashes with another period, or a period moved on while it
+ * was being made; API routes turn it into a 409 response
+ */
+export class PeriodConflictError extends Error {}
+
+export type IncentivePeriodEvent = {
+  status: IncentivePeriodStatus
+  performedByName: string
+  total: number
+  timestamp: string
+}
+
+export type IncentivePeriodSummary = DateRange & {
+  id: string
+  label: string
+  status: IncentivePeriodStatus
+  total: number
+  payouts: SalespersonPayout[]
+  lockedByName: string
+  lockedAt: string
+  approvedByName: string | null
+  approvedAt: string | null
+  paidByName: string | null
+  paidAt: string | null
+  events: IncentivePeriodEvent[] // Oldest first
+}
+
+// Each status can only be reached from the one before it
+const PREVIOUS_STATUS: Partial<Record<IncentivePeriodStatus, IncentivePeriodStatus>> = {
+  APPROVED: 'LOCKED',
+  PAID: 'APPROVED',
+}
+
+const parseIsoDate = (value: unknown, field: string): string => {
+  if (typeof value !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(value) || Number.isNaN(Date.parse(value))) {
+    throw new PeriodInputError(`${field} must be a date (YYYY-MM-DD).`)
+  }
+  return value
+}
+
+const toDate = (iso: string) => new Date(`${iso}T00:00:00Z`)
+
+const PERIOD_LOCK_KEY = 'incentive-periods'
+
+/**
+ * Day the first pay period of a month ends on, as set for everyone
+ */
+export const loadSplitDay = async (): Promise<number> => {
+  const setting = await prisma.payPeriodSetting.findFirst({ select: { splitDay: true } })
+  return setting?.splitDay ?? DEFAULT_PAY_PERIOD_SPLIT_DAY
+}
+
+export const saveSplitDay = async (value: unknown, user: SessionUser): Promise<number> => {
+  const splitDay = Number(value)
+  if (!Number.isInteger(splitDay) || splitDay < 1 || splitDay > MAX_PAY_PERIOD_SPLIT_DAY) {
+    throw new PeriodInputError(`The split day must be a whole number from 1 to ${MAX_PAY_PERIOD_SPLIT_DAY}.`)
+  }
+
+  const data = { splitDay, updatedById: user.id, updatedByName: user.name }
+  const existing = await prisma.payPeriodSetting.findFirst({ select: { id: true } })
+  if (existing) {
+    await prisma.payPeriodSetting.update({ where: { id: existing.id }, data })
+  } else {
+    await prisma.payPeriodSetting.create({ data })
+  }
+  return splitDay
+}
+
+// A pay period (`month`, `half`) is cut at the stored split day; anything else is a `from`/`to` range
+const parseRange = async (input: { from?: unknown; to?: unknown; month?: unknown; half?: unknown }): Promise<DateRange> => {
+  if (input.half === undefined) {
+    return { from: parseIsoDate(input.from, 'Start date'), to: parseIsoDate(input.to, 'End date') }
+  }
+  if (input.half !== 'first' && input.half !== 'second') {
+    throw new PeriodInputError('Half must be first or second.')
+  }
+  if (typeof input.month !== 'string' || !/^\d{4}-(0[1-9]|1[0-2])$/.test(input.month)) {
+    throw new PeriodInputError('Month must be a month (YYYY-MM).')
+  }
+  return payPeriodRange(input.month, input.half, await loadSplitDay())
+}
+
+export const loadLockedPeriods = async (): Promise<LockedPeriod[]> => {
+  const records = await prisma.incentivePeriod.findMany({
+    select: { id: true, label: true, startDate: true, endDate: true, status: true, payouts: true },
+    orderBy: { startDate: 'asc' },
+  })
+  return records.map((record) => ({
+    id: record.id,
+    label: record.label,
+    from: toIsoDate(record.startDate),
+    to: toIsoDate(record.endDate),
+    status: record.status,
+    payouts: (record.payouts as SalespersonPayout[]) ?? [],
+  }))
+}
+
+/**
+ * Incentives from the stored transactions, with locked periods held at their snapshot
+ */
+export const loadIncentiveMetrics = async (): Promise<IncentiveMetrics> => {
+  const incentives = buildIncentiveMetrics(await loadSaleRows(), await listSchemes())
+  return applyLockedPeriods(incentives, await loadLockedPeriods())
+}
+
+export const listPeriods = async (): Promise<IncentivePeriodSummary[]> => {
+  const records = await prisma.incentivePeriod.findMany({
+    include: { events: { orderBy: { timestamp: 'asc' } } },
+    orderBy: { startDate: 'desc' },
+  })
+  return records.map((record) => ({
+    id: record.id,
+    label: record.label,
+    from: toIsoDate(record.startDate),
+    to: toIsoDate(record.endDate),
+    status: record.status,
+    total: record.total,
+    payouts: (record.payouts as SalespersonPayout[]) ?? [],
+    lockedByName: record.lockedByName,
+    lockedAt: record.lockedAt.toISOString(),
+    approvedByName: record.approvedByName,
+    approvedAt: record.approvedAt?.toISOString() ?? null,
+    paidByName: record.paidByName,
+    paidAt: record.paidAt?.toISOString() ?? null,
+    events: record.events.map((event) => ({
+      status: event.status,
+      performedByName: event.performedByName,
+      total: event.total,
+      timestamp: event.timestamp.toISOString(),
+    })),
+  }))
+}
+
+/**
+ * Snapshot every salesperson's payout for a date range or pay period and lock it
+ */
+export const lockPeriod = async (
+  input: { from?: unknown; to?: unknown; month?: unknown; half?: unknown; label?: unknown },
+  user: SessionUser
+): Promise<void> => {
+  const { from, to } = await parseRange(input)
+  if (from > to) {
+    throw new PeriodInputError('The start date must not be after the end date.')
+  }
+
+  const label = typeof input.label === 'string' && input.label.trim() ? input.label.trim() : formatRangeLabel({ from, to })
+  const { metrics } = await loadIncentiveMetrics()
+  const payouts = snapshotPayouts(metrics, { from, to })
+  const total = payouts.reduce((sum, payout) => sum + payout.total, 0)
+
+  // The overlap check and the create run in one transaction that also writes the
+  // lock document, so two overlapping locks made at once cannot both be stored
+  try {
+    await prisma.$transaction(async (tx) => {
+      await tx.incentivePeriodLock.upsert({
+        where: { key: PERIOD_LOCK_KEY },
+        create: { key: PERIOD_LOCK_KEY },
+        update: { version: { increment: 1 } },
+      })
+
+      const overlapping = await tx.incentivePeriod.findFirst({
+        where: { startDate: { lte: toDate(to) }, endDate: { gte: toDate(from) } },
+        select: { label: true },
+      })
+      if (overlapping) {
+        throw new PeriodConflictError(`The range overlaps ${overlapping.label}, which is already locked.`)
+      }
+
+      await tx.incentivePeriod.create({
+        data: {
+          label,
+          startDate: toDate(from),
+          endDate: toDate(to),
+          payouts,
+          total,
+          lockedById: user.id,
+          lockedByName: user.name,
+          events: {
+            create: { status: 'LOCKED', performedById: user.id, performedByName: user.name, total },
+          },
+        },
+      })
+    })
+  } catch (err) {
+    // P2002: the lock document was created twice at once; P2034: it was written by another lock
+    if (err instanceof Prisma.PrismaClientKnownRequestError && (err.code === 'P2002' || err.code === 'P2034')) {
+      throw new PeriodConflictError('Another period was locked at the same time. Reload and try again.')
+    }
+    throw err
+  }
+}
+
+/**
+ * Move a locked period to APPROVED, or an approved one to PAID. The status is
+ * only changed if it is still the one before, so concurrent requests cannot
+ * both succeed.
+ */
+export const advancePeriod = async (id: string, status: unknown, user: SessionUser): Promise<void> => {
+  const previous = PREVIOUS_STATUS[status as IncentivePeriodStatus]
+  if (!previous) {
+    throw new PeriodInputError('Status must be APPROVED or PAID.')
+  }
+
+  const period = await prisma.incentivePeriod.findUnique({ where: { id }, select: { status: true, total: true } })
+  if (!period) {
+    throw new NotFoundError('Period not found.')
+  }
+  if (period.status !== previous) {
+    throw new PeriodInputError(
+      status === 'APPROVED' ? 'Only locked periods can be approved.' : 'Only approved periods can be marked as paid.'
+    )
+  }
+
+  const now = new Date()
+  const { count } = await prisma.incentivePeriod.updateMany({
+    where: { id, status: previous },
+    data: {
+      status: status as IncentivePeriodStatus,
+      ...(status === 'APPROVED'
+        ? { approvedById: user.id, approvedByName: user.name, approvedAt: now }
+        : { paidById: user.id, paidByName: user.name, paidAt: now }),
+    },
+  })
+  if (count === 0) {
+    throw new PeriodConflictError('The period was changed by someone else. Reload and try again.')
+  }
+
+  await prisma.incentivePeriodEvent.create({
+    data: {
+      periodId: id,
+      status: status as IncentivePeriodStatus,
+      performedById: user.id,
+      performedByName: user.name,
+      total: period.total,
+      timestamp: now,
+    },
+  })
+}
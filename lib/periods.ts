@@ -0,0 +1,92 @@
+import { addDaysToIso, formatDisplayDate } from './workbookParser'
+
+/**
+ * Reporting Periods
+ * Inclusive ISO date ranges for calendar months and pay periods. A month is paid
+ * in two cycles: the 1st to the split day, then the day after to month end.
+ */
+
+export type DateRange = {
+  from: string // ISO date, inclusive
+  to: string // ISO date, inclusive
+}
+
+export type PayPeriodHalf = 'first' | 'second'
+
+export const DEFAULT_PAY_PERIOD_SPLIT_DAY = 15
+
+// The second cycle must keep at least one day even in February
+export const MAX_PAY_PERIOD_SPLIT_DAY = 27
+
+export const clampSplitDay = (day: number): number =>
+  Number.isFinite(day) ? Math.min(Math.max(Math.trunc(day), 1), MAX_PAY_PERIOD_SPLIT_DAY) : DEFAULT_PAY_PERIOD_SPLIT_DAY
+
+export const formatOrdinal = (day: number): string => {
+  const suffix = day % 10 === 1 && day !== 11 ? 'st' : day % 10 === 2 && day !== 12 ? 'nd' : day % 10 === 3 && day !== 13 ? 'rd' : 'th'
+  return `${day}${suffix}`
+}
+
+/**
+ * Month key (YYYY-MM) of an ISO date
+ */
+export const toMonthKey = (iso: string): string => iso.slice(0, 7)
+
+/**
+ * Month key moved by a number of months
+ */
+export const shiftMonth = (month: string, months: number): string => {
+  const [year, monthNumber] = month.split('-').map(Number)
+  const date = new Date(Date.UTC(year, monthNumber - 1 + months, 1))
+  return toMonthKey(date.toISOString())
+}
+
+export const monthRange = (month: string): DateRange => {
+  const [year, monthNumber] = month.split('-').map(Number)
+  const lastDay = new Date(Date.UTC(year, monthNumber, 0)).getUTCDate()
+  return { from: `${month}-01`, to: `${month}-${String(lastDay).padStart(2, '0')}` }
+}
+
+export const payPeriodRange = (month: string, half: PayPeriodHalf, splitDay: number): DateRange => {
+  const { from, to } = monthRange(month)
+  const firstEnd = `${month}-${String(clampSplitDay(splitDay)).padStart(2, '0')}`
+  return half === 'first' ? { from, to: firstEnd } : { from: addDaysToIso(firstEnd, 1), to }
+}
+
+/**
+ * Pay period containing the given ISO date
+ */
+export const payPeriodOf = (iso: string, splitDay: number): { month: string; half: PayPeriodHalf } => ({
+  month: toMonthKey(iso),
+  half: Number(iso.slice(8, 10)) <= clampSplitDay(splitDay) ? 'first' : 'second',
+})
+
+/**
+ * Pay period just before the given one
+ */
+export const previousPayPeriod = (month: string, half: PayPeriodHalf): { month: string; half: PayPeriodHalf } =>
+  half === 'second' ? { month, half: 'first' } : { month: shiftMonth(month, -1), half: 'second' }
+
+export const rangeLength = (range: DateRange): number =>
+  Math.round((Date.parse(range.to) - Date.parse(range.from)) / (24 * 60 * 60 * 1000)) + 1
+
+/**
+ * Range of the same length ending the day before the given one starts
+ */
+export const precedingRange = (range: DateRange): DateRange => {
+  const to = addDaysToIso(range.from, -1)
+  return { from: addDaysToIso(to, 1 - rangeLength(range)), to }
+}
+
+export const isWithinRange = (iso: string | null, range: DateRange): boolean =>
+  Boolean(iso) && iso! >= range.from && iso! <= range.to
+
+export const formatMonthLabel = (month: string): string => {
+  const [year, monthNumber] = month.split('-').map(Number)
+  return new Intl.DateTimeFormat('en-GB', { month: 'long', year: 'numeric', timeZone: 'UTC' })
+    .format(new Date(Date.UTC(year, monthNumber - 1, 1)))
+}
+
+export const formatRangeLabel = (range: DateRange): string =>
+  range.from === range.to
+    ? formatDisplayDate(range.from)
+    : `${formatDisplayDate(range.from)} – ${formatDisplayDate(range.to)}`
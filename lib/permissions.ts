@@ -0,0 +1,89 @@
+import type { UserRole } from '@prisma/client'
+
+/**
+ * Role & Permission Matrix
+ * Shared by the sidebar, page guards, middleware and API routes
+ */
+
+export const PERMISSIONS = [
+  'VIEW_INCENTIVES',
+  'VIEW_OWN_INCENTIVE',
+  'UPLOAD_WORKBOOKS',
+  'VIEW_CUSTOMERS',
+  'MAKE_CALLS',
+  'VIEW_CALL_FEEDBACK',
+  'MANAGE_USERS',
+  'MANAGE_INCENTIVE_SCHEMES',
+  'MANAGE_INCENTIVE_PERIODS',
+  'MANAGE_DEPARTMENTS',
+] as const
+
+export type Permission = typeof PERMISSIONS[number]
+
+export const ROLES: UserRole[] = ['ADMIN', 'MANAGER', 'TELECALLER', 'SALESPERSON']
+
+export const ROLE_LABELS: Record<UserRole, string> = {
+  ADMIN: 'Admin',
+  MANAGER: 'Manager',
+  TELECALLER: 'Telecaller',
+  SALESPERSON: 'Salesperson',
+}
+
+export const ROLE_PERMISSIONS: Record<UserRole, readonly Permission[]> = {
+  ADMIN: [
+    'VIEW_INCENTIVES',
+    'UPLOAD_WORKBOOKS',
+    'VIEW_CUSTOMERS',
+    'MAKE_CALLS',
+    'VIEW_CALL_FEEDBACK',
+    'MANAGE_USERS',
+    'MANAGE_INCENTIVE_SCHEMES',
+    'MANAGE_INCENTIVE_PERIODS',
+    'MANAGE_DEPARTMENTS',
+  ],
+  MANAGER: ['VIEW_INCENTIVES', 'VIEW_CUSTOMERS', 'MAKE_CALLS'],
+  TELECALLER: ['VIEW_CUSTOMERS', 'MAKE_CALLS'],
+  SALESPERSON: ['VIEW_OWN_INCENTIVE'],
+}
+
+export const hasPermission = (role: UserRole | null | undefined, permission: Permission): boolean => {
+  if (!role) return false
+  return ROLE_PERMISSIONS[role]?.includes(permission) ?? false
+}
+
+export const hasAnyPermission = (role: UserRole | null | undefined, permissions: readonly Permission[]): boolean => {
+  return permissions.some((permission) => hasPermission(role, permission))
+}
+
+/**
+ * Pages and the permissions that grant access (any one is enough).
+ * Ordered so the first accessible entry is the user's home page.
+ */
+export const PAGE_PERMISSIONS: Array<{ path: string; permissions: Permission[] }> = [
+  { path: '/', permissions: ['VIEW_INCENTIVES', 'VIEW_OWN_INCENTIVE'] },
+  { path: '/customers', permissions: ['VIEW_CUSTOMERS'] },
+  { path: '/calling', permissions: ['MAKE_CALLS'] },
+  { path: '/basket-analysis', permissions: ['VIEW_CUSTOMERS', 'MAKE_CALLS'] },
+  { path: '/call-feedback', permissions: ['VIEW_CALL_FEEDBACK'] },
+  { path: '/non-visit-reasons', permissions: ['VIEW_CALL_FEEDBACK'] },
+  { path: '/users', permissions: ['MANAGE_USERS'] },
+  { path: '/incentive-schemes', permissions: ['MANAGE_INCENTIVE_SCHEMES'] },
+  { path: '/incentive-periods', permissions: ['MANAGE_INCENTIVE_PERIODS'] },
+  { path: '/departments', permissions: ['MANAGE_DEPARTMENTS'] },
+]
+
+export const getPagePermissions = (pathname: string): Permission[] | null => {
+  const match = PAGE_PERMISSIONS
+    .filter(({ path }) => pathname === path || (path !== '/' && pathname.startsWith(`${path}/`)))
+    .sort((a, b) => b.path.length - a.path.length)[0]
+  return match ? match.permissions : null
+}
+
+export const canAccessPage = (role: UserRole | null | undefined, pathname: string): boolean => {
+  const permissions = getPagePermissions(pathname)
+  return permissions === null || hasAnyPermission(role, permissions)
+}
+
+export const getHomePath = (role: UserRole | null | undefined): string => {
+  return PAGE_PERMISSIONS.find(({ permissions }) => hasAnyPermission(role, permissions))?.path ?? '/login'
+}
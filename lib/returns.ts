@@ -0,0 +1,52 @@
+import { normalizeKey, type SalesType } from './workbookParser'
+
+/**
+ * Fields used to match a return or replacement back to the sale it reverses
+ */
+export type ReturnMatchRow = {
+  salesType: SalesType
+  voucherNo: string
+  customerId: string
+  itemGroup: string
+}
+
+export type MatchedReturns<T> = {
+  returnedBy: Map<T, T> // Sale row -> return/replacement row that reverses it
+  unmatched: T[] // Returns with no sale left to reverse
+}
+
+export const returnMatchKey = (row: ReturnMatchRow) =>
+  `${normalizeKey(row.voucherNo)}__${normalizeKey(row.customerId)}__${normalizeKey(row.itemGroup)}`
+
+/**
+ * Pair every return/replacement row with one sale row of the same voucher number,
+ * customer and item group. Each return reverses a single sale line, so a voucher
+ * with two sarees and one returned saree still counts the sarees department.
+ */
+export const matchReturns = <T extends ReturnMatchRow>(rows: T[]): MatchedReturns<T> => {
+  const openSales = new Map<string, T[]>()
+  rows.forEach((row) => {
+    if (row.salesType !== 'SALE' || !row.voucherNo) return
+    const key = returnMatchKey(row)
+    if (!openSales.has(key)) {
+      openSales.set(key, [])
+    }
+    openSales.get(key)!.push(row)
+  })
+
+  const returnedBy = new Map<T, T>()
+  const unmatched: T[] = []
+  rows.forEach((row) => {
+    if (row.salesType === 'SALE') return
+    const sale = openSales.get(returnMatchKey(row))?.shift()
+    if (sale) {
+      returnedBy.set(sale, row)
+    } else {
+      unmatched.push(row)
+    }
+  })
+
+  return { returnedBy, unmatched }
+}
+
+export const describeReturn = (salesType: SalesType) => (salesType === 'REPLACEMENT' ? 'Replaced' : 'Returned')
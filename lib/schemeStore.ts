@@ -0,0 +1,121 @@
+import type { Prisma, SplitPolicy } from '@prisma/client'
+import { NotFoundError } from './apiRequest'
+import { prisma } from './prisma'
+import { toIsoDate } from './workbookParser'
+import { SPLIT_POLICIES, type IncentiveScheme, type IncentiveSlab } from './incentiveSchemes'
+
+/**
+ * Thrown for invalid scheme input; API routes turn it into a 400 response
+ */
+export class SchemeInputError extends Error {}
+
+export type SchemeInput = {
+  name?: unknown
+  effectiveFrom?: unknown
+  slabs?: unknown
+  splitPolicy?: unknown
+}
+
+type StoredScheme = {
+  id: string
+  name: string
+  effectiveFrom: Date
+  slabs: Prisma.JsonValue
+  splitPolicy: SplitPolicy
+}
+
+const toScheme = (record: StoredScheme): IncentiveScheme => ({
+  id: record.id,
+  name: record.name,
+  effectiveFrom: toIsoDate(record.effectiveFrom),
+  slabs: (record.slabs as IncentiveSlab[]) ?? [],
+  splitPolicy: record.splitPolicy,
+})
+
+const parseSlabs = (value: unknown): IncentiveSlab[] => {
+  if (!Array.isArray(value) || value.length === 0) {
+    throw new SchemeInputError('A scheme needs at least one slab.')
+  }
+
+  const slabs = value.map((slab) => {
+    const minDepartments = Number(slab?.minDepartments)
+    const amount = Number(slab?.amount)
+    if (!Number.isInteger(minDepartments) || minDepartments < 1) {
+      throw new SchemeInputError('Department counts must be whole numbers of at least 1.')
+    }
+    if (!Number.isFinite(amount) || amount < 0) {
+      throw new SchemeInputError('Slab amounts must be zero or more.')
+    }
+    return { minDepartments, amount }
+  })
+
+  if (new Set(slabs.map((slab) => slab.minDepartments)).size !== slabs.length) {
+    throw new SchemeInputError('Each department count can only have one slab.')
+  }
+
+  return slabs.sort((a, b) => a.minDepartments - b.minDepartments)
+}
+
+const parseSchemeFields = (input: SchemeInput) => {
+  const name = typeof input.name === 'string' ? input.name.trim() : ''
+  if (!name) {
+    throw new SchemeInputError('Name is required.')
+  }
+
+  if (typeof input.effectiveFrom !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(input.effectiveFrom)) {
+    throw new SchemeInputError('Effective-from must be a date (YYYY-MM-DD).')
+  }
+  const effectiveFrom = new Date(`${input.effectiveFrom}T00:00:00Z`)
+  if (Number.isNaN(effectiveFrom.getTime())) {
+    throw new SchemeInputError('Effective-from must be a valid date.')
+  }
+
+  const splitPolicy = input.splitPolicy ?? 'FULL'
+  if (!SPLIT_POLICIES.includes(splitPolicy as SplitPolicy)) {
+    throw new SchemeInputError('Split policy must be one of: ' + SPLIT_POLICIES.join(', ') + '.')
+  }
+
+  return { name, effectiveFrom, slabs: parseSlabs(input.slabs), splitPolicy: splitPolicy as SplitPolicy }
+}
+
+/**
+ * Stored schemes ordered by effective date. Visits before the first one
+ * (or all visits, if none are stored) fall back to DEFAULT_INCENTIVE_SCHEME.
+ */
+export const listSchemes = async (): Promise<IncentiveScheme[]> => {
+  const records = await prisma.incentiveScheme.findMany({
+    orderBy: [{ effectiveFrom: 'asc' }, { createdAt: 'asc' }],
+  })
+  return records.map(toScheme)
+}
+
+export const findScheme = async (id: string): Promise<IncentiveScheme | null> => {
+  const record = await prisma.incentiveScheme.findUnique({ where: { id } })
+  return record ? toScheme(record) : null
+}
+
+export const createScheme = async (input: SchemeInput, createdById: string): Promise<IncentiveScheme> => {
+  const record = await prisma.incentiveScheme.create({
+    data: { ...parseSchemeFields(input), createdById },
+  })
+  return toScheme(record)
+}
+
+export const updateScheme = async (id: string, input: SchemeInput): Promise<IncentiveScheme> => {
+  const existing = await prisma.incentiveScheme.findUnique({ where: { id }, select: { id: true } })
+  if (!existing) {
+    throw new NotFoundError('Incentive scheme not found.')
+  }
+  const record = await prisma.incentiveScheme.update({
+    where: { id },
+    data: parseSchemeFields(input),
+  })
+  return toScheme(record)
+}
+
+export const deleteScheme = async (id: string): Promise<void> => {
+  const { count } = await prisma.incentiveScheme.deleteMany({ where: { id } })
+  if (count === 0) {
+    throw new NotFoundError('Incentive scheme not found.')
+  }
+}
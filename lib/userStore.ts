@@ -0,0 +1,177 @@
+import bcrypt from 'bcryptjs'
+import type { UserRole } from '@prisma/client'
+import { NotFoundError } from './apiRequest'
+import { prisma } from './prisma'
+import { ROLES } from './permissions'
+
+export const MIN_PASSWORD_LENGTH = 8
+
+/**
+ * Thrown for invalid user input; API routes turn it into a 400 response
+ */
+export class UserInputError extends Error {}
+
+export type UserSummary = {
+  id: string
+  email: string
+  name: string
+  phone: string | null
+  role: UserRole
+  salespersonName: string | null
+  isActive: boolean
+  createdAt: Date
+}
+
+export type UserInput = {
+  email?: unknown
+  name?: unknown
+  phone?: unknown
+  role?: unknown
+  salespersonName?: unknown
+  isActive?: unknown
+  password?: unknown
+}
+
+const userSelect = {
+  id: true,
+  email: true,
+  name: true,
+  phone: true,
+  role: true,
+  salespersonName: true,
+  isActive: true,
+  createdAt: true,
+} as const
+
+const optionalText = (value: unknown): string | null => {
+  if (typeof value !== 'string') return null
+  const trimmed = value.trim()
+  return trimmed === '' ? null : trimmed
+}
+
+const validatePassword = (value: unknown): string => {
+  if (typeof value !== 'string' || value.length < MIN_PASSWORD_LENGTH) {
+    throw new UserInputError(`Password must be at least ${MIN_PASSWORD_LENGTH} characters.`)
+  }
+  return value
+}
+
+const hashPassword = (password: string) => bcrypt.hash(password, 10)
+
+/**
+ * Validate the editable user fields. When `partial` is set, missing fields are left out.
+ */
+const parseUserFields = (input: UserInput, partial: boolean) => {
+  const data: {
+    email?: string
+    name?: string
+    phone?: string | null
+    role?: UserRole
+    salespersonName?: string | null
+    isActive?: boolean
+  } = {}
+
+  if (!partial || input.email !== undefined) {
+    const email = optionalText(input.email)?.toLowerCase()
+    if (!email || !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)) {
+      throw new UserInputError('A valid email is required.')
+    }
+    data.email = email
+  }
+
+  if (!partial || input.name !== undefined) {
+    const name = optionalText(input.name)
+    if (!name) {
+      throw new UserInputError('Name is required.')
+    }
+    data.name = name
+  }
+
+  if (!partial || input.role !== undefined) {
+    if (!ROLES.includes(input.role as UserRole)) {
+      throw new UserInputError('Role must be one of: ' + ROLES.join(', ') + '.')
+    }
+    data.role = input.role as UserRole
+  }
+
+  if (input.phone !== undefined) data.phone = optionalText(input.phone)
+  if (input.salespersonName !== undefined) data.salespersonName = optionalText(input.salespersonName)
+  if (input.isActive !== undefined) data.isActive = input.isActive === true
+
+  return data
+}
+
+const ensureEmailAvailable = async (email: string, exceptId?: string) => {
+  const existing = await prisma.user.findUnique({ where: { email }, select: { id: true } })
+  if (existing && existing.id !== exceptId) {
+    throw new UserInputError(`A user with email ${email} already exists.`)
+  }
+}
+
+export const listUsers = async (): Promise<UserSummary[]> => {
+  return prisma.user.findMany({
+    select: userSelect,
+    orderBy: [{ isActive: 'desc' }, { name: 'asc' }],
+  })
+}
+
+export const createUser = async (input: UserInput): Promise<UserSummary> => {
+  const data = parseUserFields(input, false)
+  const password = validatePassword(input.password)
+  await ensureEmailAvailable(data.email!)
+
+  return prisma.user.create({
+    data: {
+      email: data.email!,
+      name: data.name!,
+      role: data.role!,
+      phone: data.phone ?? null,
+      salespersonName: data.salespersonName ?? null,
+      isActive: data.isActive ?? true,
+      passwordHash: await hashPassword(password),
+    },
+    select: userSelect,
+  })
+}
+
+export const updateUser = async (id: string, input: UserInput): Promise<UserSummary> => {
+  const data = parseUserFields(input, true)
+  const existing = await prisma.user.findUnique({ where: { id }, select: { id: true } })
+  if (!existing) {
+    throw new NotFoundError('User not found.')
+  }
+  if (data.email) {
+    await ensureEmailAvailable(data.email, id)
+  }
+
+  return prisma.user.update({
+    where: { id },
+    data,
+    select: userSelect,
+  })
+}
+
+export const resetPassword = async (id: string, password: unknown): Promise<void> => {
+  const passwordHash = await hashPassword(validatePassword(password))
+  const { count } = await prisma.user.updateMany({
+    where: { id },
+    data: { passwordHash },
+  })
+  if (count === 0) {
+    throw new NotFoundError('User not found.')
+  }
+}
+
+/**
+ * Distinct "Salesman Name" values seen in stored transactions, for linking logins
+ */
+export const listSalespersonNames = async (): Promise<string[]> => {
+  const rows = await prisma.visitTransaction.findMany({
+    distinct: ['salesperson'],
+    select: { salesperson: true },
+  })
+  return rows
+    .map((row) => row.salesperson)
+    .filter(Boolean)
+    .sort((a, b) => a.localeCompare(b))
+}
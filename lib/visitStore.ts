@@ -0,0 +1,579 @@
+import type { Prisma } from '@prisma/client'
+import { prisma } from './prisma'
+import { formatDepartmentLabel, normalizeDepartment, type DepartmentList } from './departments'
+import { loadDepartmentList } from './departmentStore'
+import { calculateIncentiveForDepartments, findSchemeForDate, type IncentiveScheme } from './incentiveSchemes'
+import { matchReturns, returnMatchKey, type ReturnMatchRow } from './returns'
+import { listSchemes } from './schemeStore'
+import {
+  formatDisplayDate,
+  normalizeKey,
+  toIsoDate,
+  type SaleRow,
+} from './workbookParser'
+import type { CustomerData, CustomerVisitData, ParsedCustomerData } from './customerParser'
+
+export type SaveSummary = {
+  rowsImported: number
+  rowsWithoutDate: number
+  returnsMatched: number
+  unmatchedReturns: SaleRow[] // Returns whose original sale is not stored
+  customersCount: number
+  visitsCount: number
+}
+
+type VisitGroup = {
+  visitKey: string
+  customerKey: string
+  dateIso: string
+  rows: SaleRow[]
+}
+
+type VisitRow = ReturnMatchRow & {
+  department: string
+  departmentLabel: string
+  salesperson: string
+}
+
+/**
+ * Department coverage and incentive amount of one visit, from its rows.
+ * Sale lines reversed by a return or replacement no longer count.
+ */
+const summarizeVisit = (
+  rows: VisitRow[],
+  dateIso: string,
+  departments: DepartmentList,
+  schemes: IncentiveScheme[]
+) => {
+  const { returnedBy } = matchReturns(rows)
+  // Rows of ignored item groups are stored without a label and do not count
+  const saleRows = rows.filter((row) => row.salesType === 'SALE' && row.departmentLabel && !returnedBy.has(row))
+  const departmentsVisited = Array.from(
+    new Set(saleRows.map((row) => row.department).filter((department) => departments.names.includes(department)))
+  ).sort()
+  const departmentLabels = new Set(saleRows.map((row) => row.departmentLabel))
+  const salespersons = Array.from(new Set(saleRows.map((row) => row.salesperson).filter(Boolean)))
+  const { slabs } = findSchemeForDate(schemes, dateIso)
+
+  return {
+    departmentsVisited,
+    departmentsNotVisited: departments.names.filter((department) => !departmentsVisited.includes(department)),
+    departmentsCount: departmentsVisited.length,
+    totalDepartmentsAvailable: departments.names.length,
+    incentiveAmount: salespersons.length > 0 ? calculateIncentiveForDepartments(departmentLabels.size, slabs) : 0,
+    salespersons,
+  }
+}
+
+const isoToDate = (iso: string) => new Date(`${iso}T00:00:00Z`)
+
+// Stored rows are re-read in pages of this size, so a rebuild never holds every row in memory
+const REBUILD_BATCH_SIZE = 500
+
+const refreshCustomerRollups = async (customerIds: string[]) => {
+  for (const customerId of customerIds) {
+    const visits = await prisma.customerVisit.findMany({
+      where: { customerId },
+      select: { visitDate: true, incentiveAmount: true },
+      orderBy: { visitDate: 'asc' },
+    })
+    await prisma.customer.update({
+      where: { id: customerId },
+      data: {
+        visitCount: visits.length,
+        firstVisitDate: visits[0]?.visitDate ?? null,
+        lastVisitDate: visits[visits.length - 1]?.visitDate ?? null,
+        totalIncentiveAmount: visits.reduce((sum, visit) => sum + visit.incentiveAmount, 0),
+      },
+    })
+  }
+}
+
+const visitSummarySelect = {
+  id: true,
+  customerId: true,
+  visitDate: true,
+  departmentsVisited: true,
+  departmentsNotVisited: true,
+  totalDepartmentsAvailable: true,
+  incentiveAmount: true,
+  salespersons: true,
+  transactions: {
+    select: {
+      salesType: true,
+      voucherNo: true,
+      itemGroup: true,
+      department: true,
+      departmentLabel: true,
+      salesperson: true,
+    },
+  },
+} as const
+
+/**
+ * Recompute coverage and incentive of the stored visits matching `where` from
+ * their transactions, a page at a time. Returns the customers whose visits changed.
+ */
+const refreshVisitSummaries = async (
+  where: Prisma.CustomerVisitWhereInput,
+  departments: DepartmentList,
+  schemes: IncentiveScheme[]
+): Promise<string[]> => {
+  const changedCustomers = new Set<string>()
+  let lastId: string | undefined
+  for (;;) {
+    const visits = await prisma.customerVisit.findMany({
+      where: lastId ? { AND: [where, { id: { gt: lastId } }] } : where,
+      select: visitSummarySelect,
+      orderBy: { id: 'asc' },
+      take: REBUILD_BATCH_SIZE,
+    })
+
+    for (const visit of visits) {
+      const rows: VisitRow[] = visit.transactions.map((transaction) => ({
+        ...transaction,
+        // Transactions stored before item groups were kept only have the department
+        itemGroup: transaction.itemGroup ?? transaction.department,
+        customerId: visit.customerId,
+      }))
+
+      const summary = summarizeVisit(rows, toIsoDate(visit.visitDate), departments, schemes)
+      const unchanged =
+        summary.incentiveAmount === visit.incentiveAmount &&
+        summary.totalDepartmentsAvailable === visit.totalDepartmentsAvailable &&
+        summary.departmentsVisited.join('|') === visit.departmentsVisited.join('|') &&
+        summary.departmentsNotVisited.join('|') === visit.departmentsNotVisited.join('|') &&
+        summary.salespersons.join('|') === visit.salespersons.join('|')
+      if (unchanged) continue
+
+      await prisma.customerVisit.update({ where: { id: visit.id }, data: summary })
+      changedCustomers.add(visit.customerId)
+    }
+
+    if (visits.length < REBUILD_BATCH_SIZE) break
+    lastId = visits[visits.length - 1].id
+  }
+
+  return Array.from(changedCustomers)
+}
+
+/**
+ * Re-classify the stored transactions matching `where` against the department
+ * list, a page at a time. Returns the visits holding a transaction that changed.
+ */
+const reclassifyTransactions = async (
+  where: Prisma.VisitTransactionWhereInput,
+  departments: DepartmentList
+): Promise<string[]> => {
+  const changedVisits = new Set<string>()
+  let lastId: string | undefined
+  for (;;) {
+    const transactions = await prisma.visitTransaction.findMany({
+      where: lastId ? { AND: [where, { id: { gt: lastId } }] } : where,
+      select: { id: true, visitId: true, itemGroup: true, department: true, counter: true, departmentLabel: true },
+      orderBy: { id: 'asc' },
+      take: REBUILD_BATCH_SIZE,
+    })
+
+    for (const transaction of transactions) {
+      // Transactions stored before item groups were kept only have the department
+      const itemGroup = transaction.itemGroup ?? transaction.department
+      const department = normalizeDepartment(itemGroup, departments)
+      const departmentLabel = formatDepartmentLabel(itemGroup, transaction.counter ?? '', departments)
+      if (department !== transaction.department || departmentLabel !== transaction.departmentLabel) {
+        await prisma.visitTransaction.update({
+          where: { id: transaction.id },
+          data: { department, departmentLabel },
+        })
+        changedVisits.add(transaction.visitId)
+      }
+    }
+
+    if (transactions.length < REBUILD_BATCH_SIZE) break
+    lastId = transactions[transactions.length - 1].id
+  }
+
+  return Array.from(changedVisits)
+}
+
+/**
+ * Attach return and replacement rows to the stored visit holding the sale they
+ * reverse. Re-uploading a return for the same voucher and date replaces it.
+ */
+const saveReturnRows = async (rows: SaleRow[]) => {
+  const voucherNos = Array.from(new Set(rows.map((row) => row.voucherNo).filter(Boolean)))
+  const sales = await prisma.visitTransaction.findMany({
+    where: { salesType: 'SALE', voucherNo: { in: voucherNos } },
+    select: {
+      visitId: true,
+      customerId: true,
+      voucherNo: true,
+      voucherDate: true,
+      itemGroup: true,
+      department: true,
+      customer: { select: { customerId: true } },
+    },
+  })
+  const saleByKey = new Map<string, (typeof sales)[number]>()
+  sales.forEach((sale) => {
+    const key = returnMatchKey({
+      salesType: 'SALE',
+      voucherNo: sale.voucherNo,
+      customerId: sale.customer.customerId,
+      itemGroup: sale.itemGroup ?? sale.department,
+    })
+    if (!saleByKey.has(key)) {
+      saleByKey.set(key, sale)
+    }
+  })
+
+  const visitReturns = new Map<string, { customerId: string; transactions: Array<SaleRow & { voucherDate: Date }> }>()
+  const unmatchedReturns: SaleRow[] = []
+  rows.forEach((row) => {
+    const sale = saleByKey.get(returnMatchKey(row))
+    if (!sale) {
+      unmatchedReturns.push(row)
+      return
+    }
+    if (!visitReturns.has(sale.visitId)) {
+      visitReturns.set(sale.visitId, { customerId: sale.customerId, transactions: [] })
+    }
+    visitReturns.get(sale.visitId)!.transactions.push({
+      ...row,
+      voucherDate: row.dateInfo.iso ? isoToDate(row.dateInfo.iso) : sale.voucherDate,
+    })
+  })
+
+  for (const [visitId, { customerId, transactions }] of Array.from(visitReturns.entries())) {
+    await prisma.visitTransaction.deleteMany({
+      where: {
+        visitId,
+        salesType: { not: 'SALE' },
+        voucherNo: { in: Array.from(new Set(transactions.map((row) => row.voucherNo))) },
+        voucherDate: { in: Array.from(new Set(transactions.map((row) => row.voucherDate.getTime()))).map((time) => new Date(time)) },
+      },
+    })
+    await prisma.visitTransaction.createMany({
+      data: transactions.map((row) => ({
+        visitId,
+        customerId,
+        salesType: row.salesType,
+        voucherNo: row.voucherNo,
+        voucherDate: row.voucherDate,
+        itemGroup: row.itemGroup || null,
+        item: row.item || null,
+        department: row.department,
+        counter: row.counter || null,
+        departmentLabel: row.departmentLabel,
+        salesperson: row.salesman,
+      })),
+    })
+  }
+
+  return {
+    visitIds: Array.from(visitReturns.keys()),
+    customerIds: Array.from(new Set(Array.from(visitReturns.values()).map((entry) => entry.customerId))),
+    returnsMatched: rows.length - unmatchedReturns.length,
+    unmatchedReturns,
+  }
+}
+
+/**
+ * Persist sale rows as customers, visits (customer + date) and per-row transactions.
+ * Re-uploading a voucher replaces its sale transactions, so corrected workbooks
+ * overwrite earlier data, while other vouchers of the same visit (e.g. from
+ * another counter's file) are kept. Returns and replacements are stored on the
+ * visit of the sale they reverse.
+ */
+export const saveSaleRows = async (rows: SaleRow[]): Promise<SaveSummary> => {
+  const customerRows = new Map<string, SaleRow>()
+  const visitGroups = new Map<string, VisitGroup>()
+  const returnRows: SaleRow[] = []
+  let rowsWithoutDate = 0
+
+  rows.forEach((row) => {
+    const customerKey = normalizeKey(row.customerId)
+    if (!customerKey || !row.itemGroup.trim()) return
+    if (row.salesType !== 'SALE') {
+      returnRows.push(row)
+      return
+    }
+    if (!row.dateInfo.iso) {
+      rowsWithoutDate++
+      return
+    }
+
+    if (!customerRows.has(customerKey) || (!customerRows.get(customerKey)!.customerName && row.customerName)) {
+      customerRows.set(customerKey, row)
+    }
+
+    const visitKey = `${customerKey}__${row.dateInfo.iso}`
+    if (!visitGroups.has(visitKey)) {
+      visitGroups.set(visitKey, { visitKey, customerKey, dateIso: row.dateInfo.iso, rows: [] })
+    }
+    visitGroups.get(visitKey)!.rows.push(row)
+  })
+
+  const departments = await loadDepartmentList()
+  const schemes = await listSchemes()
+  const customerIds = new Map<string, string>()
+  for (const [customerKey, row] of Array.from(customerRows.entries())) {
+    const customer = await prisma.customer.upsert({
+      where: { normalizedCustomerId: customerKey },
+      create: {
+        customerId: row.customerId,
+        normalizedCustomerId: customerKey,
+        name: row.customerName,
+        phone: row.customerId,
+      },
+      update: {
+        customerId: row.customerId,
+        ...(row.customerName ? { name: row.customerName } : {}),
+      },
+    })
+    customerIds.set(customerKey, customer.id)
+  }
+
+  let rowsImported = 0
+  const visitIds: string[] = []
+  for (const group of Array.from(visitGroups.values())) {
+    const customerId = customerIds.get(group.customerKey)!
+    const voucherNos = Array.from(new Set(group.rows.map((row) => row.voucherNo).filter(Boolean))).sort()
+    const visitRows = group.rows.map((row) => ({ ...row, salesperson: row.salesman }))
+
+    const visitData = {
+      customerId,
+      visitDate: isoToDate(group.dateIso),
+      voucherNo: voucherNos[0] ?? null,
+      ...summarizeVisit(visitRows, group.dateIso, departments, schemes),
+    }
+
+    // Coverage and incentive of an existing visit are recomputed below from all its vouchers
+    const visit = await prisma.customerVisit.upsert({
+      where: { visitKey: group.visitKey },
+      create: { ...visitData, visitKey: group.visitKey },
+      update: { customerId },
+    })
+    visitIds.push(visit.id)
+
+    // Sale lines without a voucher number cannot be told apart, so they are replaced together
+    await prisma.visitTransaction.deleteMany({
+      where: {
+        visitId: visit.id,
+        salesType: 'SALE',
+        voucherNo: { in: Array.from(new Set(group.rows.map((row) => row.voucherNo))) },
+      },
+    })
+    await prisma.visitTransaction.createMany({
+      data: group.rows.map((row) => ({
+        visitId: visit.id,
+        customerId,
+        voucherNo: row.voucherNo,
+        voucherDate: visitData.visitDate,
+        itemGroup: row.itemGroup || null,
+        item: row.item || null,
+        department: row.department,
+        counter: row.counter || null,
+        departmentLabel: row.departmentLabel,
+        salesperson: row.salesman,
+      })),
+    })
+    rowsImported += group.rows.length
+  }
+
+  // Net returns against their sales, then re-price every visit they or this upload touched
+  const returns = await saveReturnRows(returnRows)
+  await refreshVisitSummaries({ id: { in: Array.from(new Set([...visitIds, ...returns.visitIds])) } }, departments, schemes)
+
+  // Refresh the per-customer rollups from every stored visit, not just this upload
+  await refreshCustomerRollups(Array.from(new Set([...Array.from(customerIds.values()), ...returns.customerIds])))
+
+  return {
+    rowsImported: rowsImported + returns.returnsMatched,
+    rowsWithoutDate,
+    returnsMatched: returns.returnsMatched,
+    unmatchedReturns: returns.unmatchedReturns,
+    customersCount: customerIds.size,
+    visitsCount: visitGroups.size,
+  }
+}
+
+/**
+ * Re-classify every stored transaction against the live department list and
+ * re-price every visit (or only re-price visits on or after `from`, when only
+ * incentive schemes changed from that date).
+ */
+const rebuildStoredVisits = async (from?: string): Promise<void> => {
+  const departments = await loadDepartmentList()
+  const schemes = await listSchemes()
+  if (from === undefined) {
+    await reclassifyTransactions({}, departments)
+  }
+  await refreshCustomerRollups(
+    await refreshVisitSummaries(from ? { visitDate: { gte: isoToDate(from) } } : {}, departments, schemes)
+  )
+}
+
+// One rebuild runs at a time; changes made meanwhile widen the next one
+let rebuildRunning = false
+let pendingRebuild: { from?: string } | null = null
+
+/**
+ * Rebuild stored visits in the background after departments (no date) or
+ * incentive schemes effective from a date change, so the admin request that
+ * caused it returns straight away.
+ */
+export const scheduleVisitRebuild = (from?: string): void => {
+  const widened = pendingRebuild && (pendingRebuild.from === undefined || from === undefined)
+    ? undefined
+    : [pendingRebuild?.from, from].filter((date): date is string => !!date).sort()[0]
+  pendingRebuild = { from: widened }
+  if (rebuildRunning) return
+
+  rebuildRunning = true
+  void (async () => {
+    while (pendingRebuild) {
+      const { from: next } = pendingRebuild
+      pendingRebuild = null
+      await rebuildStoredVisits(next).catch((err) => console.error('Failed to rebuild stored visits:', err))
+    }
+    rebuildRunning = false
+  })()
+}
+
+/**
+ * Re-classify the transactions of item groups that match no active department,
+ * which are the only ones triaging an item group can change, and re-price their visits
+ */
+export const reclassifyUnmappedItemGroups = async (): Promise<void> => {
+  const departments = await loadDepartmentList()
+  const visitIds = await reclassifyTransactions({ department: { notIn: departments.names } }, departments)
+  if (visitIds.length === 0) return
+  await refreshCustomerRollups(
+    await refreshVisitSummaries({ id: { in: visitIds } }, departments, await listSchemes())
+  )
+}
+
+/**
+ * Rebuild sale rows from stored transactions so incentives can be recalculated
+ */
+export const loadSaleRows = async (): Promise<SaleRow[]> => {
+  const transactions = await prisma.visitTransaction.findMany({
+    include: { customer: { select: { customerId: true, name: true } } },
+  })
+
+  return transactions.map((transaction) => {
+    const iso = toIsoDate(transaction.voucherDate)
+    return {
+      salesType: transaction.salesType,
+      voucherNo: transaction.voucherNo,
+      dateInfo: { key: iso, iso, display: formatDisplayDate(iso) },
+      salesman: transaction.salesperson,
+      itemGroup: transaction.itemGroup ?? transaction.department,
+      item: transaction.item ?? '',
+      department: transaction.department,
+      counter: transaction.counter ?? '',
+      departmentLabel: transaction.departmentLabel,
+      customerId: transaction.customer.customerId,
+      customerName: transaction.customer.name,
+    }
+  })
+}
+
+type StoredCustomer = {
+  customerId: string
+  name: string | null
+  visits: Array<{
+    visitKey: string
+    visitDate: Date
+    departmentsVisited: string[]
+    departmentsNotVisited: string[]
+    totalDepartmentsAvailable: number
+    transactions: Array<{ voucherNo: string }>
+  }>
+}
+
+const toCustomerData = (customer: StoredCustomer): CustomerData => {
+  const visits: CustomerVisitData[] = customer.visits
+    .filter((visit) => visit.departmentsVisited.length > 0)
+    .map((visit) => {
+      const dateIso = toIsoDate(visit.visitDate)
+      return {
+        customerId: customer.customerId,
+        dateIso,
+        displayDate: formatDisplayDate(dateIso),
+        dateKey: dateIso,
+        departmentsVisited: visit.departmentsVisited,
+        departmentsNotVisited: visit.departmentsNotVisited,
+        visitedCount: visit.departmentsVisited.length,
+        totalDepartments: visit.totalDepartmentsAvailable,
+        voucherNos: Array.from(new Set(visit.transactions.map((t) => t.voucherNo).filter(Boolean))).sort(),
+      }
+    })
+    .sort((a, b) => b.dateIso.localeCompare(a.dateIso))
+
+  return {
+    customerId: customer.customerId,
+    customerName: customer.name,
+    visits,
+    totalVisits: visits.length,
+  }
+}
+
+const customerInclude = {
+  visits: {
+    select: {
+      visitKey: true,
+      visitDate: true,
+      departmentsVisited: true,
+      departmentsNotVisited: true,
+      totalDepartmentsAvailable: true,
+      transactions: { select: { voucherNo: true } },
+    },
+  },
+} as const
+
+/**
+ * Load every stored customer with their visits, the departments and the date labels
+ */
+export const loadCustomerData = async (): Promise<ParsedCustomerData> => {
+  const customers = await prisma.customer.findMany({ include: customerInclude })
+
+  const data = customers
+    .map(toCustomerData)
+    .filter((customer) => customer.totalVisits > 0)
+    .sort((a, b) => a.customerId.localeCompare(b.customerId))
+
+  const dateLabels: Record<string, string> = {}
+  data.forEach((customer) =>
+    customer.visits.forEach((visit) => {
+      if (visit.dateIso && visit.displayDate) dateLabels[visit.dateIso] = visit.displayDate
+    })
+  )
+
+  return {
+    customers: data,
+    allDepartments: (await loadDepartmentList()).names,
+    dateLabels,
+  }
+}
+
+export const loadCustomer = async (customerId: string): Promise<CustomerData | null> => {
+  const customer = await prisma.customer.findUnique({
+    where: { normalizedCustomerId: normalizeKey(customerId) },
+    include: customerInclude,
+  })
+  return customer ? toCustomerData(customer) : null
+}
+
+/**
+ * Departments bought in each stored visit, for basket analysis
+ */
+export const loadVisitBaskets = async (): Promise<string[][]> => {
+  const visits = await prisma.customerVisit.findMany({ select: { departmentsVisited: true } })
+  return visits.map((visit) => visit.departmentsVisited)
+}
+
+export const loadLatestUpload = async () => {
+  return prisma.workbookUpload.findFirst({ orderBy: { uploadedAt: 'desc' } })
+}
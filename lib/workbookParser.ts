@@ -0,0 +1,591 @@
+import * as XLSX from 'xlsx'
+import {
+  DEFAULT_DEPARTMENT_LIST,
+  formatDepartmentLabel,
+  isIgnoredItemGroup,
+  normalizeDepartment,
+  type DepartmentList,
+} from './departments'
+import type { ImportIssue, ImportIssueReason, ImportRow } from './importReport'
+
+/**
+ * Workbook parsing shared by the incentive and customer views.
+ * Every screen works from the SaleRow model produced here, so they agree on
+ * which rows count, how dates are read and which department a row belongs to.
+ */
+
+export const UNKNOWN_DATE_KEY = '__unknown__'
+
+export type DateInfo = {
+  key: string
+  iso: string | null
+  display: string | null
+}
+
+/**
+ * Sales Type of a row. Returns and replacements are netted against the original sale.
+ */
+export type SalesType = 'SALE' | 'RETURN' | 'REPLACEMENT'
+
+/**
+ * One "Sale" row of the workbook, reduced to the fields used for
+ * incentive calculation and persistence.
+ */
+export type SaleRow = {
+  salesType: SalesType
+  voucherNo: string
+  dateInfo: DateInfo
+  salesman: string
+  itemGroup: string
+  item: string // Item name/code when the workbook has one
+  department: string
+  counter: string
+  departmentLabel: string
+  customerId: string
+  customerName: string | null
+  source?: ImportRow // Set for rows read from a workbook
+}
+
+export type SaleRowsResult = {
+  rows: SaleRow[]
+  totalRowsProcessed: number
+  rowsSkippedSalesType: number
+  rowsReturned: number // Return and replacement rows
+  rowsDuplicate: number
+  uniqueSubCategories: string[]
+  issues: ImportIssue[] // Skipped and flagged rows for the import report
+}
+
+const normalizeQuotes = (value: string) => value.replace(/[’‘]/g, "'")
+
+const stringifyCell = (value: string | number | Date | null): string => {
+  if (value === null || value === undefined) return ''
+  if (typeof value === 'number') {
+    if (!Number.isFinite(value)) return ''
+    return value.toString()
+  }
+  if (value instanceof Date) {
+    return value.toISOString()
+  }
+  return value.toString().trim()
+}
+
+export const normalizeKey = (value: string | number | Date | null): string => {
+  const raw = normalizeQuotes(stringifyCell(value))
+  return raw.replace(/\s+/g, ' ').trim().toLowerCase()
+}
+
+export const formatDisplayDate = (iso: string): string => {
+  const [year, month, day] = iso.split('-').map(Number)
+  const date = new Date(Date.UTC(year, month - 1, day))
+  return new Intl.DateTimeFormat('en-GB', {
+    day: '2-digit',
+    month: 'short',
+    year: 'numeric',
+  }).format(date)
+}
+
+export const toIsoDate = (date: Date): string => date.toISOString().slice(0, 10)
+
+const parseDateCell = (value: string | number | Date | null): DateInfo => {
+  if (value === null || value === undefined || value === '') {
+    return { key: UNKNOWN_DATE_KEY, iso: null, display: null }
+  }
+
+  if (value instanceof Date) {
+    const iso = toIsoDate(value)
+    return { key: iso, iso, display: formatDisplayDate(iso) }
+  }
+
+  if (typeof value === 'number') {
+    const parsed = XLSX.SSF.parse_date_code(value)
+    if (parsed) {
+      const date = new Date(Date.UTC(parsed.y, parsed.m - 1, parsed.d))
+      const iso = toIsoDate(date)
+      return { key: iso, iso, display: formatDisplayDate(iso) }
+    }
+  }
+
+  const text = stringifyCell(value)
+  if (text === '') {
+    return { key: UNKNOWN_DATE_KEY, iso: null, display: null }
+  }
+
+  const parsedDate = new Date(text)
+  if (!Number.isNaN(parsedDate.getTime())) {
+    const iso = toIsoDate(parsedDate)
+    return { key: iso, iso, display: formatDisplayDate(iso) }
+  }
+
+  return {
+    key: normalizeKey(text) || UNKNOWN_DATE_KEY,
+    iso: null,
+    display: text,
+  }
+}
+
+export const addDaysToIso = (iso: string, days: number): string => {
+  const [year, month, day] = iso.split('-').map(Number)
+  const date = new Date(Date.UTC(year, month - 1, day))
+  date.setUTCDate(date.getUTCDate() + days)
+  return toIsoDate(date)
+}
+
+type SheetRow = (string | number | Date | null)[]
+
+export const COLUMN_FIELDS = [
+  'voucherNo',
+  'voucherDate',
+  'salesman',
+  'itemGroup',
+  'item',
+  'counter',
+  'mobile',
+  'accountName',
+  'salesType',
+] as const
+
+export type ColumnField = typeof COLUMN_FIELDS[number]
+
+export const REQUIRED_COLUMN_FIELDS: ColumnField[] = ['salesman', 'itemGroup', 'mobile']
+
+export const COLUMN_FIELD_LABELS: Record<ColumnField, string> = {
+  voucherNo: 'Voucher No',
+  voucherDate: 'Voucher Date',
+  salesman: 'Salesman Name',
+  itemGroup: 'Item Group Name',
+  item: 'Item Name',
+  counter: 'Counter Name',
+  mobile: 'Mobile1 (customer ID)',
+  accountName: 'Account Name',
+  salesType: 'Sales Type',
+}
+
+/**
+ * Header labels we recognise for each field, in priority order
+ */
+const COLUMN_HEADER_NEEDLES: Record<ColumnField, string[]> = {
+  voucherNo: ['voucher no'],
+  voucherDate: ['voucher date', 'date'],
+  salesman: ['salesman name', 'sales person'],
+  itemGroup: ['itemgroup name', 'item group name', 'item group', 'sub category', 'subcategory'],
+  item: ['item name', 'item code', 'product name'],
+  counter: ['counter name', 'counter'],
+  mobile: ['mobile1', 'customer id', 'customer mobile'],
+  accountName: ['account name', 'customer name', 'account'],
+  salesType: ['sales type', 'type', 'transaction type', 'sale type'],
+}
+
+/**
+ * Which header row to use and the header label chosen for each field.
+ * Saved as a named template so later uploads from the same source reuse it.
+ */
+export type ColumnMapping = {
+  headerRow: number // 1-based, counting non-blank rows
+  columns: Partial<Record<ColumnField, string>>
+}
+
+export type SheetSummary = {
+  name: string
+  recognised: boolean // Required columns were detected
+}
+
+export type WorkbookPreview = {
+  sheets: SheetSummary[]
+  sheetName: string // Sheet the preview rows come from
+  rows: string[][]
+  detectedHeaderRow: number
+  proposedMapping: ColumnMapping
+}
+
+const PREVIEW_ROW_COUNT = 15
+const HEADER_SEARCH_ROWS = 30
+
+const normalizeHeader = (value: string | number | Date | null) =>
+  normalizeQuotes(stringifyCell(value)).trim().toLowerCase()
+
+const readWorkbook = (buffer: ArrayBuffer): XLSX.WorkBook => {
+  const workbook = XLSX.read(buffer, { type: 'array' })
+  if (workbook.SheetNames.length === 0) {
+    throw new Error('The workbook does not contain any sheets.')
+  }
+  return workbook
+}
+
+const getSheet = (workbook: XLSX.WorkBook, sheetName: string): XLSX.WorkSheet => {
+  const sheet = workbook.Sheets[sheetName]
+  if (!sheet) {
+    throw new Error(`Unable to read the worksheet "${sheetName}".`)
+  }
+  return sheet
+}
+
+// Excel row number of every row returned by readSheetRows
+const sheetRowNumbers = new WeakMap<SheetRow, number>()
+
+/**
+ * Non-blank rows of a sheet; `raw: false` returns cells as formatted text
+ */
+const readSheetRows = (sheet: XLSX.WorkSheet, raw = true): SheetRow[] => {
+  const firstRow = sheet['!ref'] ? XLSX.utils.decode_range(sheet['!ref']).s.r : 0
+  const rows: SheetRow[] = []
+  XLSX.utils.sheet_to_json<SheetRow>(sheet, {
+    header: 1,
+    blankrows: true,
+    defval: null,
+    raw,
+  }).forEach((row, index) => {
+    if (row.every((cell) => stringifyCell(cell) === '')) return
+    sheetRowNumbers.set(row, firstRow + index + 1)
+    rows.push(row)
+  })
+
+  if (rows.length === 0) {
+    throw new Error('The worksheet is empty.')
+  }
+  return rows
+}
+
+const findHeaderIndex = (headerLookup: string[], needles: string[]) => {
+  for (let index = 0; index < headerLookup.length; index += 1) {
+    const headerLabel = headerLookup[index]
+    if (!headerLabel) continue
+    if (needles.some((target) => headerLabel === target || headerLabel.includes(target))) {
+      return index
+    }
+  }
+  return -1
+}
+
+/**
+ * Propose a mapping for a header row by fuzzy-matching the known labels
+ */
+export const proposeColumnMapping = (headerCells: (string | number | Date | null)[], headerRow: number): ColumnMapping => {
+  const headerLookup = headerCells.map(normalizeHeader)
+  const columns: ColumnMapping['columns'] = {}
+  COLUMN_FIELDS.forEach((field) => {
+    const index = findHeaderIndex(headerLookup, COLUMN_HEADER_NEEDLES[field])
+    if (index !== -1) {
+      columns[field] = normalizeQuotes(stringifyCell(headerCells[index])).trim()
+    }
+  })
+  return { headerRow, columns }
+}
+
+/**
+ * The row among the first few that matches the most known column labels
+ */
+const detectHeaderRow = (rows: SheetRow[]): number => {
+  let best = { row: 0, score: 0 }
+  rows.slice(0, HEADER_SEARCH_ROWS).forEach((cells, index) => {
+    const { columns } = proposeColumnMapping(cells, index + 1)
+    const score =
+      Object.keys(columns).length + REQUIRED_COLUMN_FIELDS.filter((field) => columns[field]).length
+    if (score > best.score) best = { row: index + 1, score }
+  })
+  if (best.score > 0) return best.row
+
+  const firstFilled = rows.findIndex((row) => row.some((value) => stringifyCell(value) !== ''))
+  return firstFilled + 1
+}
+
+/**
+ * A sheet is recognised when the required columns are found in its detected header row
+ */
+const isRecognised = (sheet: XLSX.WorkSheet) => {
+  const rows = XLSX.utils.sheet_to_json<SheetRow>(sheet, { header: 1, blankrows: false, defval: null })
+  if (rows.length === 0) return false
+  const headerRow = detectHeaderRow(rows)
+  const { columns } = proposeColumnMapping(rows[headerRow - 1], headerRow)
+  return REQUIRED_COLUMN_FIELDS.every((field) => columns[field])
+}
+
+/**
+ * Sheets of the workbook, plus the first rows of the first recognised sheet
+ * with its detected header row and a proposed mapping
+ */
+export const previewWorkbook = (buffer: ArrayBuffer): WorkbookPreview => {
+  const workbook = readWorkbook(buffer)
+  const sheets = workbook.SheetNames.map((name) => ({ name, recognised: isRecognised(getSheet(workbook, name)) }))
+  const sheetName = sheets.find((sheet) => sheet.recognised)?.name ?? workbook.SheetNames[0]
+  const sheet = getSheet(workbook, sheetName)
+
+  const rows = readSheetRows(sheet)
+  const detectedHeaderRow = detectHeaderRow(rows)
+  const displayRows = readSheetRows(sheet, false)
+  return {
+    sheets,
+    sheetName,
+    rows: displayRows
+      .slice(0, Math.max(PREVIEW_ROW_COUNT, detectedHeaderRow + 5))
+      .map((row) => row.map((cell) => stringifyCell(cell))),
+    detectedHeaderRow,
+    proposedMapping: proposeColumnMapping(rows[detectedHeaderRow - 1] ?? [], detectedHeaderRow),
+  }
+}
+
+/**
+ * Column index for every mapped field; throws when a required field is missing
+ */
+const resolveColumns = (headerCells: SheetRow, mapping: ColumnMapping): Record<ColumnField, number> => {
+  const headerLookup = headerCells.map(normalizeHeader)
+  const indices = {} as Record<ColumnField, number>
+  const missing: string[] = []
+
+  COLUMN_FIELDS.forEach((field) => {
+    const label = mapping.columns[field]
+    indices[field] = label ? headerLookup.indexOf(normalizeHeader(label)) : -1
+    if (label && indices[field] === -1) {
+      missing.push(`"${label}" (${COLUMN_FIELD_LABELS[field]})`)
+    } else if (indices[field] === -1 && REQUIRED_COLUMN_FIELDS.includes(field)) {
+      missing.push(COLUMN_FIELD_LABELS[field])
+    }
+  })
+
+  if (missing.length > 0) {
+    throw new Error(
+      `Failed to detect required columns: ${missing.join(', ')}. ` +
+      `Found headers in row ${mapping.headerRow}: ${headerCells.map((cell) => stringifyCell(cell)).filter(Boolean).join(', ')}. ` +
+      `Please map the columns for this file before importing.`
+    )
+  }
+  return indices
+}
+
+/**
+ * A mapping fits a sheet when its header row holds every column the mapping names
+ */
+const mappingFits = (rows: SheetRow[], mapping: ColumnMapping): boolean => {
+  const headerLookup = (rows[mapping.headerRow - 1] ?? []).map(normalizeHeader)
+  return Object.values(mapping.columns).every((label) => !label || headerLookup.includes(normalizeHeader(label)))
+}
+
+/**
+ * Rows of one worksheet that pass the Sales Type filter, with an issue recorded
+ * for every row that is skipped or only partly usable
+ */
+const readSheetSaleRows = (
+  sheetName: string,
+  rows: SheetRow[],
+  departments: DepartmentList,
+  chosenMapping?: ColumnMapping
+): SaleRowsResult => {
+  // The mapping is chosen on one sheet; sheets laid out differently are detected on their own
+  const mapping = chosenMapping && mappingFits(rows, chosenMapping) ? chosenMapping : undefined
+  const headerRowNumber = mapping?.headerRow ?? detectHeaderRow(rows)
+  const headerRowIndex = headerRowNumber - 1
+  if (headerRowIndex < 0 || headerRowIndex >= rows.length) {
+    throw new Error('Unable to locate a header row in the worksheet.')
+  }
+
+  const headerRow = rows[headerRowIndex]
+  const columns = resolveColumns(headerRow, mapping ?? proposeColumnMapping(headerRow, headerRowNumber))
+  const voucherNoIndex = columns.voucherNo
+  const voucherDateIndex = columns.voucherDate
+  const firstSalesmanIndex = columns.salesman
+  const itemGroupIndex = columns.itemGroup
+  const itemIndex = columns.item
+  const counterIndex = columns.counter
+  const firstMobileIndex = columns.mobile
+  const accountNameIndex = columns.accountName
+  const salesTypeIndex = columns.salesType
+
+  const saleRows: SaleRow[] = []
+  const issues: ImportIssue[] = []
+
+  // Track all unique Item Group Name values found in the data
+  const uniqueItemGroups = new Set<string>()
+
+  let totalRowsProcessed = 0
+  let rowsSkippedSalesType = 0
+  let rowsReturned = 0
+
+  for (let rowIndex = headerRowIndex + 1; rowIndex < rows.length; rowIndex += 1) {
+    const row = rows[rowIndex]
+    if (!row || row.every((cell) => stringifyCell(cell) === '')) {
+      continue
+    }
+
+    totalRowsProcessed++
+
+    const cells: ImportRow['cells'] = {}
+    COLUMN_FIELDS.forEach((field) => {
+      if (columns[field] !== -1) cells[field] = stringifyCell(row[columns[field]])
+    })
+    const source: ImportRow = {
+      fileName: null,
+      sheetName,
+      rowNumber: sheetRowNumbers.get(row) ?? rowIndex + 1,
+      cells,
+    }
+
+    // Extract Sales Type - keep "Sale" transactions, plus returns and replacements
+    // so they can be netted against the original sale. Make comparison
+    // case-insensitive and handle variations
+    const salesTypeRaw = salesTypeIndex !== -1 ? stringifyCell(row[salesTypeIndex]) : ''
+    const salesTypeKey = normalizeKey(salesTypeRaw)
+    let salesType: SalesType = 'SALE'
+    if (salesTypeKey.includes('return')) {
+      salesType = 'RETURN'
+    } else if (salesTypeKey.includes('replace')) {
+      salesType = 'REPLACEMENT'
+    }
+    const isKept = salesTypeKey === 'sale' || salesTypeKey === 'sales' || salesType !== 'SALE'
+
+    // Skip every other transaction type (Estimate, Order, etc.)
+    // But only if Sales Type column exists and has a value
+    if (salesTypeIndex !== -1 && salesTypeRaw && !isKept) {
+      rowsSkippedSalesType++
+      issues.push({ ...source, reason: 'NON_SALE' })
+      continue
+    }
+    if (salesType !== 'SALE') {
+      rowsReturned++
+    }
+
+    const dateInfo = voucherDateIndex !== -1 ? parseDateCell(row[voucherDateIndex]) : { key: UNKNOWN_DATE_KEY, iso: null, display: null }
+
+    const rawSalesman = stringifyCell(row[firstSalesmanIndex])
+    const rawItemGroup = stringifyCell(row[itemGroupIndex]) // Sub-category: shutting shirting, men's ethnic, etc.
+    const rawCounter = counterIndex !== -1 ? stringifyCell(row[counterIndex]) : '' // Shop counter (billing location)
+    const rawCustomerId = stringifyCell(row[firstMobileIndex])
+    const rawAccountName = accountNameIndex !== -1 ? stringifyCell(row[accountNameIndex]) : null
+    const voucherNo = voucherNoIndex !== -1 ? stringifyCell(row[voucherNoIndex]) : ''
+    const item = itemIndex !== -1 ? stringifyCell(row[itemIndex]) : ''
+
+    if (rawItemGroup && rawItemGroup.trim()) {
+      uniqueItemGroups.add(rawItemGroup.trim())
+    }
+
+    // Department label from Item Group Name (sub-category) and counter,
+    // falling back to the raw Item Group Name when it is not a master department
+    const departmentLabel = formatDepartmentLabel(rawItemGroup, rawCounter, departments)
+    const department = rawItemGroup ? normalizeDepartment(rawItemGroup, departments) : ''
+
+    // Report the first problem with the row. Rows without a customer, item group
+    // or (for sales) a date are not stored; the others are imported with a warning.
+    let reason: ImportIssueReason | null = null
+    if (!normalizeKey(rawCustomerId)) {
+      reason = 'MISSING_MOBILE'
+    } else if (!rawItemGroup.trim()) {
+      reason = 'BLANK_ITEM_GROUP'
+    } else if (salesType === 'SALE' && !dateInfo.iso) {
+      reason = 'UNPARSEABLE_DATE'
+    } else if (salesType === 'SALE' && !normalizeKey(rawSalesman)) {
+      reason = 'BLANK_SALESMAN'
+    } else if (!departments.names.includes(department) && !isIgnoredItemGroup(rawItemGroup, departments)) {
+      reason = 'UNKNOWN_DEPARTMENT'
+    }
+    if (reason) {
+      issues.push({ ...source, reason })
+    }
+
+    saleRows.push({
+      salesType,
+      voucherNo,
+      dateInfo,
+      salesman: rawSalesman,
+      itemGroup: rawItemGroup,
+      item,
+      department,
+      counter: rawCounter,
+      departmentLabel,
+      customerId: rawCustomerId,
+      customerName: rawAccountName || null,
+      source,
+    })
+  }
+
+  return {
+    rows: saleRows,
+    totalRowsProcessed,
+    rowsSkippedSalesType,
+    rowsReturned,
+    rowsDuplicate: 0,
+    uniqueSubCategories: Array.from(uniqueItemGroups)
+      .filter(item => item && item.trim() !== '')
+      .sort(),
+    issues,
+  }
+}
+
+/**
+ * Combine rows from several sheets or files. A voucher line (voucher number + item)
+ * already read from an earlier sheet or file, e.g. in overlapping exports, is
+ * kept only once. Rows within one sheet are never dropped, and rows without an
+ * item cannot be told apart, so they are always kept.
+ */
+export const mergeSaleRows = (results: SaleRowsResult[]): SaleRowsResult => {
+  const seen = new Set<string>()
+  const rows: SaleRow[] = []
+  const issues: ImportIssue[] = []
+  let rowsDuplicate = 0
+
+  results.forEach((result) => {
+    issues.push(...result.issues)
+    rowsDuplicate += result.rowsDuplicate
+    const lineKeys: string[] = []
+    result.rows.forEach((row) => {
+      if (row.voucherNo && row.item) {
+        const lineKey = `${row.salesType}__${normalizeKey(row.voucherNo)}__${normalizeKey(row.item)}`
+        if (seen.has(lineKey)) {
+          rowsDuplicate++
+          if (row.source) {
+            issues.push({ ...row.source, reason: 'DUPLICATE' })
+          }
+          return
+        }
+        lineKeys.push(lineKey)
+      }
+      rows.push(row)
+    })
+    lineKeys.forEach((lineKey) => seen.add(lineKey))
+  })
+
+  return {
+    rows,
+    totalRowsProcessed: results.reduce((sum, result) => sum + result.totalRowsProcessed, 0),
+    rowsSkippedSalesType: results.reduce((sum, result) => sum + result.rowsSkippedSalesType, 0),
+    rowsReturned: results.reduce((sum, result) => sum + result.rowsReturned, 0),
+    rowsDuplicate,
+    uniqueSubCategories: Array.from(new Set(results.flatMap((result) => result.uniqueSubCategories))).sort(),
+    issues,
+  }
+}
+
+/**
+ * Record the uploaded file name on rows and issues, for reports across several files
+ */
+export const tagFileName = (result: SaleRowsResult, fileName: string): SaleRowsResult => ({
+  ...result,
+  rows: result.rows.map((row) => (row.source ? { ...row, source: { ...row.source, fileName } } : row)),
+  issues: result.issues.map((issue) => ({ ...issue, fileName })),
+})
+
+/**
+ * Read the selected worksheets (the first one by default) and return every row
+ * that passes the Sales Type filter, de-duplicated across sheets.
+ * Columns come from the given mapping on sheets whose header row matches it, and
+ * are detected per sheet otherwise.
+ * Item groups are matched against the given (live) department list.
+ */
+export const readSaleRows = (
+  buffer: ArrayBuffer,
+  departments: DepartmentList = DEFAULT_DEPARTMENT_LIST,
+  mapping?: ColumnMapping,
+  sheetNames?: string[]
+): SaleRowsResult => {
+  const workbook = readWorkbook(buffer)
+  const selected = sheetNames && sheetNames.length > 0 ? sheetNames : [workbook.SheetNames[0]]
+
+  return mergeSaleRows(
+    selected.map((sheetName) => {
+      try {
+        return readSheetSaleRows(sheetName, readSheetRows(getSheet(workbook, sheetName)), departments, mapping)
+      } catch (err) {
+        if (selected.length === 1 || !(err instanceof Error)) throw err
+        throw new Error(`Sheet "${sheetName}": ${err.message}`)
+      }
+    })
+  )
+}
@@ -0,0 +1,23 @@
+import { withAuth } from 'next-auth/middleware'
+import { NextResponse } from 'next/server'
+import { canAccessPage, getHomePath } from '@/lib/permissions'
+
+export default withAuth(
+  function middleware(request) {
+    const role = request.nextauth.token?.role
+    if (!canAccessPage(role, request.nextUrl.pathname)) {
+      return NextResponse.redirect(new URL(getHomePath(role), request.url))
+    }
+    return NextResponse.next()
+  },
+  {
+    pages: {
+      signIn: '/login',
+    },
+  }
+)
+
+export const config = {
+  // API routes check the session themselves and answer with JSON errors
+  matcher: ['/((?!api|login|_next/static|_next/image|favicon.ico).*)'],
+}
@@ -0,0 +1,37 @@
+// Creates the first admin account so someone can log in and manage users.
+// Usage: SEED_ADMIN_EMAIL=... SEED_ADMIN_PASSWORD=... npx prisma db seed
+const { PrismaClient } = require('@prisma/client')
+const bcrypt = require('bcryptjs')
+
+const prisma = new PrismaClient()
+
+async function main() {
+  const email = process.env.SEED_ADMIN_EMAIL?.toLowerCase().trim()
+  const password = process.env.SEED_ADMIN_PASSWORD
+  if (!email || !password) {
+    throw new Error('Set SEED_ADMIN_EMAIL and SEED_ADMIN_PASSWORD to create the admin account.')
+  }
+
+  const existing = await prisma.user.findUnique({ where: { email } })
+  if (existing) {
+    console.log(`User ${email} already exists, skipping.`)
+    return
+  }
+
+  await prisma.user.create({
+    data: {
+      email,
+      name: process.env.SEED_ADMIN_NAME || 'Admin',
+      role: 'ADMIN',
+      passwordHash: await bcrypt.hash(password, 10),
+    },
+  })
+  console.log(`Created admin ${email}.`)
+}
+
+main()
+  .catch((err) => {
+    console.error(err)
+    process.exitCode = 1
+  })
+  .finally(() => prisma.$disconnect())